@@ -0,0 +1,48 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+    AX_LABELS,
+    axLabelsFor,
+    detectAxLocale,
+    parseAppleLanguages,
+    parseAxLocale,
+} from "./labels.js";
+
+describe("axLabelsFor", () => {
+    it("adds English labels to a locale", () => {
+        const labels = axLabelsFor("fr");
+        assert.deepEqual(labels.tracksGroup, ["Pistes", "Tracks"]);
+        assert.deepEqual(labels.mute, ["Mute", "Muet"]);
+        assert.deepEqual(labels.quotes, [["«", "»"], ["“", "”"], ['"', '"']]);
+    });
+
+    it("uses English alone for English", () => {
+        assert.deepEqual(axLabelsFor("en"), AX_LABELS.en);
+    });
+
+    it("combines every locale when none is known", () => {
+        const labels = axLabelsFor();
+        assert.deepEqual(labels.trackPrefix, ["Track", "Spur", "Piste", "Pista", "トラック"]);
+        assert.equal(labels.quotes.length, 5);
+    });
+});
+
+describe("locale detection", () => {
+    it("reads language tags", () => {
+        assert.equal(parseAxLocale("de-DE"), "de");
+        assert.equal(parseAxLocale("es-419"), "es");
+        assert.equal(parseAxLocale("ja_JP"), "ja");
+        assert.equal(parseAxLocale("pt-BR"), undefined);
+    });
+
+    it("takes the first supported preference", () => {
+        assert.equal(detectAxLocale(["fr-CA", "en-US"]), "fr");
+        assert.equal(detectAxLocale(["pt-BR", "es-ES"]), "es");
+        assert.equal(detectAxLocale([]), undefined);
+    });
+
+    it("parses defaults output", () => {
+        assert.deepEqual(parseAppleLanguages('(\n    "ja-JP",\n    en,\n    "de-DE"\n)\n'), ["ja-JP", "en", "de-DE"]);
+        assert.deepEqual(parseAppleLanguages(""), []);
+    });
+});
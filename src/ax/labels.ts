@@ -0,0 +1,125 @@
+/**
+ * Accessibility labels Logic Pro uses in each UI language: the group that
+ * holds the track headers, how a header describes its track and the names
+ * of the controls on it. The JXA fallback and the Swift helper find the
+ * tracks area with it, and tracks.ts reads the headers they return.
+ */
+
+export type AxLocale = "en" | "de" | "fr" | "es" | "ja";
+
+export interface AxLabels {
+    /** AXDescription of the group holding the track headers */
+    tracksGroup: string[];
+    /** Word before the track number in a header's description, e.g. "Track" in: Track 4 “Bass” */
+    trackPrefix: string[];
+    /** Opening and closing quotes around the track name */
+    quotes: [string, string][];
+    /** Checkbox descriptions, matched exactly */
+    mute: string[];
+    solo: string[];
+    /** Record checkbox description, matched as a substring ("Record Enable") */
+    record: string[];
+    /** Slider description of the track volume */
+    volume: string[];
+}
+
+export const AX_LOCALES: AxLocale[] = ["en", "de", "fr", "es", "ja"];
+
+export const AX_LABELS: Record<AxLocale, AxLabels> = {
+    en: {
+        tracksGroup: ["Tracks"],
+        trackPrefix: ["Track"],
+        quotes: [["“", "”"], ['"', '"']],
+        mute: ["Mute"],
+        solo: ["Solo"],
+        record: ["Record"],
+        volume: ["Volume"],
+    },
+    de: {
+        tracksGroup: ["Spuren"],
+        trackPrefix: ["Spur"],
+        quotes: [["„", "“"], ['"', '"']],
+        mute: ["Mute", "Stumm"],
+        solo: ["Solo"],
+        record: ["Aufnahme"],
+        volume: ["Volume", "Lautstärke"],
+    },
+    fr: {
+        tracksGroup: ["Pistes"],
+        trackPrefix: ["Piste"],
+        quotes: [["«", "»"], ["“", "”"]],
+        mute: ["Mute", "Muet"],
+        solo: ["Solo"],
+        record: ["Enregistrement", "Enregistrer"],
+        volume: ["Volume"],
+    },
+    es: {
+        tracksGroup: ["Pistas"],
+        trackPrefix: ["Pista"],
+        quotes: [["“", "”"], ["«", "»"]],
+        mute: ["Mute", "Silenciar", "Silencio"],
+        solo: ["Solo"],
+        record: ["Grabación", "Grabar"],
+        volume: ["Volumen"],
+    },
+    ja: {
+        tracksGroup: ["トラック"],
+        trackPrefix: ["トラック"],
+        quotes: [["「", "」"], ["“", "”"]],
+        mute: ["ミュート"],
+        solo: ["ソロ"],
+        record: ["録音"],
+        volume: ["ボリューム", "音量"],
+    },
+};
+
+/**
+ * Labels for a locale, with the English ones added since Logic leaves
+ * some controls untranslated. Without a locale, every language's labels.
+ */
+export function axLabelsFor(locale?: AxLocale): AxLabels {
+    const locales = locale === undefined ? AX_LOCALES : [locale, "en" as const];
+    const merge = <T>(pick: (labels: AxLabels) => T[], key: (item: T) => string = String) => {
+        const seen = new Map<string, T>();
+        for (const item of locales.flatMap((l) => pick(AX_LABELS[l]))) {
+            if (!seen.has(key(item))) seen.set(key(item), item);
+        }
+        return [...seen.values()];
+    };
+    return {
+        tracksGroup: merge((l) => l.tracksGroup),
+        trackPrefix: merge((l) => l.trackPrefix),
+        quotes: merge((l) => l.quotes, (pair) => pair.join("")),
+        mute: merge((l) => l.mute),
+        solo: merge((l) => l.solo),
+        record: merge((l) => l.record),
+        volume: merge((l) => l.volume),
+    };
+}
+
+/** A supported locale from a language tag such as "fr-CA" or "es-419". */
+export function parseAxLocale(tag: string): AxLocale | undefined {
+    const language = tag.trim().toLowerCase().split(/[-_]/)[0];
+    return AX_LOCALES.find((locale) => locale === language);
+}
+
+/**
+ * The first supported language in a preference list, which is the one
+ * Logic shows (it falls back down the list to a language it has).
+ */
+export function detectAxLocale(languages: string[]): AxLocale | undefined {
+    for (const tag of languages) {
+        const locale = parseAxLocale(tag);
+        if (locale) return locale;
+    }
+    return undefined;
+}
+
+/** Language tags from `defaults read … AppleLanguages` output: ("en-US", de). */
+export function parseAppleLanguages(output: string): string[] {
+    return output
+        .replace(/[()]/g, "")
+        .split(/[,\n]/)
+        .map((entry) => entry.trim().replace(/^"|"$/g, ""))
+        .filter((entry) => entry.length > 0);
+}
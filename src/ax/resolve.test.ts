@@ -0,0 +1,101 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { formatTrack, pickTrack, resolveTrack } from "./resolve.js";
+import type { TrackInfo } from "./tracks.js";
+
+const TRACKS: TrackInfo[] = [
+    ["Kick", 1],
+    ["Snare", 2],
+    ["Drums", 3],
+    ["Kick In", 3, 1],
+    ["Kick Out", 3, 2],
+    ["Bass DI", 4],
+    ["Lead Vocal", 5],
+    ["Backing Vocal 1", 6],
+    ["Backing Vocal 2", 7],
+    ["Café Piano", 8],
+    ["808", 9],
+].map(([name, trackNumber, stackIndex], index) => ({
+    index,
+    name: name as string,
+    trackNumber: trackNumber as number,
+    stackIndex: stackIndex as number | undefined,
+    selected: name === "Snare",
+    plugins: [],
+}));
+
+const resolve = (query: string | number) => resolveTrack(TRACKS, query).name;
+
+describe("resolveTrack", () => {
+    it("prefers the exact name", () => {
+        assert.equal(resolve("Kick"), "Kick");
+        assert.equal(resolve("lead vocal"), "Lead Vocal");
+        assert.equal(resolve("808"), "808");
+    });
+
+    it("takes Logic track numbers", () => {
+        assert.equal(resolve("5"), "Lead Vocal");
+        assert.equal(resolve(4), "Bass DI");
+        assert.equal(resolve("track 7"), "Backing Vocal 2");
+        assert.equal(resolve("#3.2"), "Kick Out");
+        assert.equal(resolve("3"), "Drums");
+    });
+
+    it("matches the way people say names", () => {
+        assert.equal(resolve("the lead vocal"), "Lead Vocal");
+        assert.equal(resolve("lead voc"), "Lead Vocal");
+        assert.equal(resolve("bass"), "Bass DI");
+        assert.equal(resolve("cafe piano"), "Café Piano");
+        assert.equal(resolve("leadvocal"), "Lead Vocal");
+        assert.equal(resolve("lead vokal"), "Lead Vocal");
+        assert.equal(resolve("backing vocal 2"), "Backing Vocal 2");
+    });
+
+    it("matches globs against the whole name", () => {
+        assert.equal(resolve("Kick O*"), "Kick Out");
+        assert.equal(resolve("backing vocal [!1]"), "Backing Vocal 2");
+        assert.throws(() => resolve("Kick*"), /matches 3 tracks/);
+        assert.throws(() => resolve("*Guitar*"), /No track matches/);
+    });
+
+    it("finds the selected track", () => {
+        assert.equal(resolve("selected"), "Snare");
+        assert.throws(() => resolveTrack(TRACKS.slice(2), "selected"), /No track is selected/);
+        const both = TRACKS.map((t) => ({ ...t, selected: t.name.startsWith("Kick") }));
+        assert.throws(() => resolveTrack(both, "Selected"), /3 tracks are selected: 1 "Kick", 3.1 "Kick In"/);
+    });
+
+    it("lists the candidates when a name is ambiguous", () => {
+        assert.throws(
+            () => resolve("vocal"),
+            {
+                message:
+                    '"vocal" matches 3 tracks: 5 "Lead Vocal", 6 "Backing Vocal 1", 7 "Backing Vocal 2". ' +
+                    "Use the full name or the track number.",
+            },
+        );
+        assert.throws(() => resolve("backing"), /matches 2 tracks/);
+    });
+
+    it("lists the tracks when nothing matches", () => {
+        assert.throws(() => resolve("strings"), /^Error: No track matches "strings". Tracks: 1 "Kick", 2 "Snare"/);
+        assert.throws(() => resolve("42"), /No track matches "42"/);
+        assert.throws(() => resolveTrack([], "Kick"), /No tracks found/);
+    });
+});
+
+describe("pickTrack", () => {
+    it("prefers the query over the index", () => {
+        assert.equal(pickTrack(TRACKS, { track: "bass", trackIndex: 0 }).name, "Bass DI");
+        assert.equal(pickTrack(TRACKS, { trackIndex: 0 }).name, "Kick");
+        assert.throws(() => pickTrack(TRACKS, { trackIndex: 20 }), /No track at index 20; there are 11 tracks/);
+        assert.throws(() => pickTrack(TRACKS, {}), /Give the track's name/);
+    });
+});
+
+describe("formatTrack", () => {
+    it("falls back to the position without a track number", () => {
+        assert.equal(formatTrack({ index: 2, name: "Keys", plugins: [] }), '3 "Keys"');
+        assert.equal(formatTrack(TRACKS[3]), '3.1 "Kick In"');
+    });
+});
@@ -0,0 +1,167 @@
+/**
+ * Finding a track the way people name it: "Lead Vocal", "the lead vocal",
+ * "lead voc", "Drums*", "7", "track 4.1" or "selected". Matching goes from
+ * strict to loose and stops at the first rule that finds anything, so an
+ * exact name always beats a fuzzy one. More than one match at that point is
+ * an error that lists the candidates rather than a guess.
+ */
+
+import type { TrackInfo } from "./tracks.js";
+
+export const SELECTED_TRACK = "selected";
+
+// Words people put around a track name that are not part of it
+const FILLER_WORDS = new Set(["the", "a", "an", "track", "my"]);
+
+const TRACK_NUMBER = /^(?:track\s*|#)?(\d+)(?:\.(\d+))?$/i;
+
+const GLOB_CHARS = /[*?[]/;
+
+// Candidates listed in errors before the rest is summarised
+const MAX_LISTED = 12;
+
+type MatchRule = (track: TrackInfo) => boolean;
+
+/** How a tool names a track: a query, or the 0-based position older clients send. */
+export interface TrackTarget {
+    track?: string | number;
+    trackIndex?: number;
+}
+
+/** Tool input schema properties for a TrackTarget. */
+export const TRACK_QUERY_PROPERTIES = {
+    track: {
+        type: "string",
+        description:
+            'The track: its name ("Lead Vocal"), part of it or a near spelling ("lead voc"), a glob ("Kick*"), its Logic track number ("7", or "4.1" inside a stack) or "selected". An ambiguous name fails with the matching tracks listed.',
+    },
+    trackIndex: {
+        type: "number",
+        description: "0-based position in the tracks area, used when no track is given",
+    },
+};
+
+/** The track a tool's arguments point at, preferring the query over the position. */
+export function pickTrack(tracks: TrackInfo[], target: TrackTarget): TrackInfo {
+    if (target.track !== undefined) return resolveTrack(tracks, target.track);
+    if (target.trackIndex === undefined) throw new Error('Give the track\'s name, its number or "selected".');
+    const track = tracks.find((t) => t.index === target.trackIndex);
+    if (!track) throw new Error(`No track at index ${target.trackIndex}; there are ${tracks.length} tracks.`);
+    return track;
+}
+
+/** The one track a query refers to; throws with the candidates when none or several match. */
+export function resolveTrack(tracks: TrackInfo[], query: string | number): TrackInfo {
+    const text = String(query).trim();
+    if (text === "") throw new Error("No track given");
+    if (tracks.length === 0) throw new Error("No tracks found in the project");
+
+    if (text.toLowerCase() === SELECTED_TRACK) {
+        const selected = tracks.filter((t) => t.selected);
+        if (selected.length === 1) return selected[0];
+        if (selected.length === 0) throw new Error("No track is selected");
+        throw new Error(`${selected.length} tracks are selected: ${listTracks(selected)}. Name the one you mean.`);
+    }
+
+    for (const rule of matchRules(text)) {
+        const matches = tracks.filter(rule);
+        if (matches.length === 1) return matches[0];
+        if (matches.length > 1) {
+            throw new Error(
+                `"${text}" matches ${matches.length} tracks: ${listTracks(matches)}. ` +
+                    "Use the full name or the track number.",
+            );
+        }
+    }
+    throw new Error(`No track matches "${text}". Tracks: ${listTracks(tracks)}`);
+}
+
+/** Track number and name as Logic shows them: 4.1 "Kick". */
+export function formatTrack(track: TrackInfo): string {
+    const number = track.trackNumber ?? track.index + 1;
+    const stack = track.stackIndex !== undefined ? `.${track.stackIndex}` : "";
+    return `${number}${stack} "${track.name}"`;
+}
+
+function listTracks(tracks: TrackInfo[]): string {
+    const listed = tracks.slice(0, MAX_LISTED).map(formatTrack).join(", ");
+    return tracks.length > MAX_LISTED ? `${listed} and ${tracks.length - MAX_LISTED} more` : listed;
+}
+
+function matchRules(text: string): MatchRule[] {
+    const lower = text.toLowerCase();
+    const rules: MatchRule[] = [(t) => t.name === text, (t) => t.name.toLowerCase() === lower];
+
+    const number = TRACK_NUMBER.exec(text);
+    if (number) {
+        const trackNumber = Number(number[1]);
+        const stackIndex = number[2] !== undefined ? Number(number[2]) : undefined;
+        rules.push((t) => t.trackNumber === trackNumber && t.stackIndex === stackIndex);
+        return rules;
+    }
+
+    if (GLOB_CHARS.test(text)) {
+        const glob = globToRegExp(text);
+        rules.push((t) => glob.test(t.name));
+        return rules;
+    }
+
+    const words = nameWords(text);
+    const joined = words.join("");
+    if (words.length === 0) return rules;
+    rules.push(
+        (t) => nameWords(t.name).join(" ") === words.join(" "),
+        (t) => words.every((w) => nameWords(t.name).some((n) => n.startsWith(w))),
+        (t) => nameWords(t.name).join("").includes(joined),
+        (t) => words.every((w) => nameWords(t.name).some((n) => isTypo(w, n))),
+    );
+    return rules;
+}
+
+/** Lowercase words of a name without accents, punctuation or filler words. */
+function nameWords(name: string): string[] {
+    return name
+        .normalize("NFKD")
+        .replace(/\p{M}/gu, "")
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((word) => word !== "" && !FILLER_WORDS.has(word));
+}
+
+/** Shell-style glob over the whole name, ignoring case: * ? and [abc] / [!abc]. */
+function globToRegExp(glob: string): RegExp {
+    let source = "";
+    for (let i = 0; i < glob.length; i++) {
+        const c = glob[i];
+        const end = c === "[" ? glob.indexOf("]", i + 2) : -1;
+        if (c === "*") source += ".*";
+        else if (c === "?") source += ".";
+        else if (end > 0) {
+            const body = glob.slice(i + 1, end);
+            const negate = body.startsWith("!");
+            source += `[${negate ? "^" : ""}${(negate ? body.slice(1) : body).replace(/[\\\]^]/g, "\\$&")}]`;
+            i = end;
+        } else source += c.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    }
+    return new RegExp(`^${source}$`, "iu");
+}
+
+// One slip in a short word, two in a long one; words under four letters must be exact
+function isTypo(word: string, candidate: string): boolean {
+    if (word.length < 4) return false;
+    const allowed = word.length >= 8 ? 2 : 1;
+    return Math.abs(word.length - candidate.length) <= allowed && editDistance(word, candidate) <= allowed;
+}
+
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
@@ -0,0 +1,148 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { axLabelsFor } from "./labels.js";
+import { parseTrackDescription, parseTrackHeaders, type AxElement } from "./tracks.js";
+
+const labels = axLabelsFor();
+
+// Track header descriptions as Logic reports them, and what they should parse to
+const DESCRIPTIONS: [string, ReturnType<typeof parseTrackDescription>][] = [
+    ["Track 2 “Bass”", { trackNumber: 2, name: "Bass" }],
+    ['Track 2 "Bass"', { trackNumber: 2, name: "Bass" }],
+    ["Spur 4 „Ioanna Mic Wet“", { trackNumber: 4, name: "Ioanna Mic Wet" }],
+    ["Piste 7 « Guitare »", { trackNumber: 7, name: "Guitare" }],
+    ["Pista 3 “Voz”", { trackNumber: 3, name: "Voz" }],
+    ["トラック 5 「ボーカル」", { trackNumber: 5, name: "ボーカル" }],
+    // Names containing quotes
+    ["Track 3 “12\" Dub”", { trackNumber: 3, name: '12" Dub' }],
+    ['Track 5 "Say "Hi" Twice"', { trackNumber: 5, name: 'Say "Hi" Twice' }],
+    ['Track 6 "The “Best” Take"', { trackNumber: 6, name: "The “Best” Take" }],
+    ["Spur 1 „Er sagt „Hallo““", { trackNumber: 1, name: "Er sagt „Hallo“" }],
+    // Numbered stacks
+    ["Track 4.1 “Kick”", { trackNumber: 4, stackIndex: 1, name: "Kick" }],
+    ["Spur 12.10 „Snare 2“", { trackNumber: 12, stackIndex: 10, name: "Snare 2" }],
+    // Unquoted and unnumbered
+    ["Track 8 Strings", { trackNumber: 8, name: "Strings" }],
+    ["Track “Untitled”", { name: "Untitled" }],
+    // Not track headers
+    ["Tracks", undefined],
+    ["Spuren 2", undefined],
+    ["Master", undefined],
+];
+
+function header(description: string, children: AxElement[] = []): AxElement {
+    return { role: "AXLayoutItem", description, title: "", value: "", children };
+}
+
+const checkbox = (description: string, value: string): AxElement => ({ role: "AXCheckBox", description, value });
+
+describe("parseTrackDescription", () => {
+    for (const [description, expected] of DESCRIPTIONS) {
+        it(`parses ${description}`, () => {
+            assert.deepEqual(parseTrackDescription(description, labels), expected);
+        });
+    }
+
+    it("only uses the prefixes it is given", () => {
+        assert.equal(parseTrackDescription("Spur 4 „Bass“", axLabelsFor("en")), undefined);
+        assert.deepEqual(parseTrackDescription("Spur 4 „Bass“", axLabelsFor("de")), { trackNumber: 4, name: "Bass" });
+    });
+});
+
+describe("parseTrackHeaders", () => {
+    it("reads header controls", () => {
+        const [track] = parseTrackHeaders(
+            [
+                header("Spur 1 „Lead Vocal“", [
+                    checkbox("Mute", "1"),
+                    checkbox("Solo", "0"),
+                    checkbox("Aufnahme aktivieren", "1"),
+                    { role: "AXSlider", description: "Volume", value: "-6" },
+                    {
+                        role: "AXGroup",
+                        children: [
+                            { role: "AXButton", title: "Channel EQ" },
+                            { role: "AXButton", title: "M" },
+                            { role: "AXButton", title: "" },
+                        ],
+                    },
+                    { role: "AXButton", title: "Compressor" },
+                ]),
+            ],
+            labels,
+        );
+        assert.deepEqual(track, {
+            index: 0,
+            trackNumber: 1,
+            name: "Lead Vocal",
+            selected: false,
+            folder: false,
+            muted: true,
+            solo: false,
+            recordEnabled: true,
+            volume: -6,
+            plugins: ["Channel EQ", "Compressor"],
+        });
+    });
+
+    it("marks folder tracks and stacks", () => {
+        const tracks = parseTrackHeaders(
+            [
+                header("Track 1 “Drums”", [
+                    { role: "AXDisclosureTriangle", value: "1" },
+                    checkbox("Mute", "0"),
+                ]),
+                header("Track 1.1 “Kick”", [checkbox("Solo", "1")]),
+                header("Track 1.2 “Snare”"),
+                header("Track 2 “Strings”", [{ role: "AXDisclosureTriangle", value: "0" }]),
+            ],
+            labels,
+        );
+        assert.deepEqual(
+            tracks.map((t) => [t.index, t.trackNumber, t.stackIndex, t.name, t.folder, t.expanded]),
+            [
+                [0, 1, undefined, "Drums", true, true],
+                [1, 1, 1, "Kick", false, undefined],
+                [2, 1, 2, "Snare", false, undefined],
+                [3, 2, undefined, "Strings", true, false],
+            ],
+        );
+        assert.equal(tracks[1].solo, true);
+    });
+
+    it("passes the selection through", () => {
+        const tracks = parseTrackHeaders(
+            [header("Track 1 “Bass”"), { ...header("Track 2 “Keys”"), selected: true }],
+            labels,
+        );
+        assert.deepEqual(
+            tracks.map((t) => t.selected),
+            [false, true],
+        );
+    });
+
+    it("skips layout items that are not track headers", () => {
+        const tracks = parseTrackHeaders(
+            [
+                header("Tracks"),
+                { role: "AXGroup", description: "Track 9 “Group”" },
+                header("Track 1 “Bass”"),
+            ],
+            labels,
+        );
+        assert.deepEqual(
+            tracks.map((t) => [t.index, t.name]),
+            [[0, "Bass"]],
+        );
+    });
+
+    it("uses the labels of Logic's language", () => {
+        const [track] = parseTrackHeaders(
+            [header("トラック 3 「ピアノ」", [checkbox("ミュート", "1"), { role: "AXSlider", description: "ボリューム", value: "3" }])],
+            axLabelsFor("ja"),
+        );
+        assert.equal(track.name, "ピアノ");
+        assert.equal(track.muted, true);
+        assert.equal(track.volume, 3);
+    });
+});
@@ -0,0 +1,143 @@
+/**
+ * Track headers from Logic's tracks area, as dumped by the Swift helper or
+ * the JXA walker, turned into TrackInfo. Headers are AXLayoutItems whose
+ * description reads like: Track 2 “Bass”, Spur 4 „Ioanna Mic Wet“, or
+ * Track 4.1 “Kick” for the first track inside the stack on track 4.
+ */
+
+import type { AxLabels } from "./labels.js";
+
+/** An accessibility element and its subtree. */
+export interface AxElement {
+    role: string;
+    description?: string;
+    title?: string;
+    value?: string;
+    /** AXSelected, reported only when true */
+    selected?: boolean;
+    children?: AxElement[];
+}
+
+export interface TrackInfo {
+    index: number;
+    name: string;
+    trackNumber?: number;
+    /** Position inside a track stack, for headers numbered like 4.1 */
+    stackIndex?: number;
+    /** The header can be opened to show other tracks: a folder or a track stack */
+    folder?: boolean;
+    /** Whether a folder or stack is open */
+    expanded?: boolean;
+    /** The track is selected in the tracks area */
+    selected?: boolean;
+    muted?: boolean;
+    solo?: boolean;
+    recordEnabled?: boolean;
+    volume?: number;
+    plugins: string[];
+}
+
+export interface TrackDescription {
+    trackNumber?: number;
+    stackIndex?: number;
+    name: string;
+}
+
+// Header buttons that are not plugin slots: Mute, Solo, Record
+const HEADER_BUTTON_TITLES = new Set(["M", "S", "R"]);
+
+/**
+ * Split a track header description into number and name, or undefined if
+ * it does not start with a track prefix. The name runs from the first
+ * opening quote to the last matching closing quote, so quotes inside the
+ * name survive; without quotes it is whatever follows the number.
+ */
+export function parseTrackDescription(description: string, labels: AxLabels): TrackDescription | undefined {
+    const prefix = labels.trackPrefix.find(
+        (p) => description.startsWith(p) && /^[\s\d]/.test(description.slice(p.length)),
+    );
+    if (prefix === undefined) return undefined;
+
+    const body = description.slice(prefix.length).trimStart();
+    const number = /^(\d+)(?:\.(\d+))?/.exec(body);
+    const rest = body.slice(number?.[0].length ?? 0).trim();
+
+    const result: TrackDescription = { name: unquote(rest, labels.quotes) };
+    if (number) {
+        result.trackNumber = Number(number[1]);
+        if (number[2] !== undefined) result.stackIndex = Number(number[2]);
+    }
+    return result;
+}
+
+/** TrackInfo for every track header among the dumped layout items, in order. */
+export function parseTrackHeaders(elements: AxElement[], labels: AxLabels): TrackInfo[] {
+    const tracks: TrackInfo[] = [];
+    for (const element of elements) {
+        if (element.role !== "AXLayoutItem") continue;
+        const parsed = parseTrackDescription(element.description ?? "", labels);
+        if (!parsed) continue;
+        tracks.push({
+            index: tracks.length,
+            ...parsed,
+            selected: element.selected === true,
+            ...readHeaderControls(element.children ?? [], labels),
+        });
+    }
+    return tracks;
+}
+
+function unquote(text: string, quotes: [string, string][]): string {
+    // The quote style that opens first wins, so “…” inside "…" stays part of the name
+    let best: { start: number; open: string; close: string } | undefined;
+    for (const [open, close] of quotes) {
+        const start = text.indexOf(open);
+        if (start >= 0 && (best === undefined || start < best.start)) best = { start, open, close };
+    }
+    if (!best) return text;
+
+    const inner = text.slice(best.start + best.open.length);
+    const end = inner.lastIndexOf(best.close);
+    return (end >= 0 ? inner.slice(0, end) : inner).trim();
+}
+
+type HeaderControls = Required<Pick<TrackInfo, "folder" | "muted" | "solo" | "recordEnabled" | "volume" | "plugins">> &
+    Pick<TrackInfo, "expanded">;
+
+function readHeaderControls(children: AxElement[], labels: AxLabels): HeaderControls {
+    const controls: HeaderControls = {
+        folder: false,
+        muted: false,
+        solo: false,
+        recordEnabled: false,
+        volume: 0,
+        plugins: collectPluginNames(children),
+    };
+    for (const child of children) {
+        const description = child.description ?? "";
+        const on = isOn(child.value);
+        if (child.role === "AXCheckBox") {
+            if (labels.mute.includes(description)) controls.muted = on;
+            else if (labels.solo.includes(description)) controls.solo = on;
+            else if (labels.record.some((r) => description.includes(r))) controls.recordEnabled = on;
+        } else if (child.role === "AXSlider" && labels.volume.includes(description)) {
+            controls.volume = parseInt(child.value ?? "", 10) || 0;
+        } else if (child.role === "AXDisclosureTriangle") {
+            controls.folder = true;
+            controls.expanded = on;
+        }
+    }
+    return controls;
+}
+
+function collectPluginNames(elements: AxElement[]): string[] {
+    return elements.flatMap((element) => {
+        const title = element.title ?? "";
+        const own = element.role === "AXButton" && title !== "" && !HEADER_BUTTON_TITLES.has(title) ? [title] : [];
+        return [...own, ...collectPluginNames(element.children ?? [])];
+    });
+}
+
+function isOn(value: string | undefined): boolean {
+    return value === "1" || value === "true";
+}
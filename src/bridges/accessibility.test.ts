@@ -0,0 +1,108 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createAxClient, type AxClient, type AxClientOptions } from "./accessibility.js";
+
+// Stand-in for the Swift helper's serve mode
+const FAKE_HELPER = `
+const rl = require("node:readline").createInterface({ input: process.stdin });
+rl.on("line", (line) => {
+    const { id, method, params } = JSON.parse(line);
+    const reply = (body) => process.stdout.write(JSON.stringify({ jsonrpc: "2.0", id, ...body }) + "\\n");
+    switch (method) {
+        case "echo": return reply({ result: params });
+        case "pid": return reply({ result: process.pid });
+        case "sleep": return setTimeout(() => reply({ result: Number(params[0]) }), Number(params[0]));
+        case "fail": return reply({ error: { code: -32000, message: params[0] } });
+        case "crash": process.stderr.write("boom\\n"); return process.exit(3);
+        default: return reply({ error: { code: -32601, message: "Unknown command: " + method } });
+    }
+});
+`;
+
+/** Results in the order the calls completed. */
+async function completionOrder(calls: Promise<unknown>[]): Promise<unknown[]> {
+    const order: unknown[] = [];
+    await Promise.all(calls.map((call) => call.then((result) => order.push(result))));
+    return order;
+}
+
+describe("createAxClient", () => {
+    let client: AxClient | undefined;
+
+    const fakeHelper = (options: Partial<AxClientOptions> = {}) => {
+        client = createAxClient({ command: process.execPath, args: ["-e", FAKE_HELPER], ...options });
+        return client;
+    };
+
+    afterEach(() => {
+        client?.close();
+    });
+
+    it("matches results and errors to requests", async () => {
+        const helper = fakeHelper();
+        assert.deepEqual(await helper.call("echo", ["1", "2"]), ["1", "2"]);
+        await assert.rejects(helper.call("fail", ["Logic Pro is not running"]), /^Error: Logic Pro is not running$/);
+        await assert.rejects(helper.call("nope"), /Unknown command: nope/);
+    });
+
+    it("keeps one helper process between calls", async () => {
+        const helper = fakeHelper();
+        const pid = await helper.call("pid");
+        assert.notEqual(pid, process.pid);
+        assert.equal(await helper.call("pid"), pid);
+    });
+
+    it("queues requests beyond the concurrency limit", async () => {
+        const serial = fakeHelper();
+        assert.deepEqual(
+            await completionOrder([serial.call("sleep", ["50"]), serial.call("echo", ["fast"])]),
+            [50, ["fast"]],
+        );
+        serial.close();
+
+        const parallel = fakeHelper({ concurrency: 2 });
+        assert.deepEqual(
+            await completionOrder([parallel.call("sleep", ["50"]), parallel.call("echo", ["fast"])]),
+            [["fast"], 50],
+        );
+    });
+
+    it("restarts the helper after a crash", async () => {
+        const helper = fakeHelper();
+        const pid = await helper.call("pid");
+        await assert.rejects(helper.call("crash"), /exited \(code 3\) during crash: boom/);
+        const restarted = await helper.call("pid");
+        assert.equal(typeof restarted, "number");
+        assert.notEqual(restarted, pid);
+    });
+
+    it("kills a helper that times out and carries on", async () => {
+        const helper = fakeHelper({ maxRestarts: 0 });
+        const pid = await helper.call("pid");
+        const slow = helper.call("sleep", ["5000"], 50);
+        const queued = helper.call("echo", ["after"]);
+        await assert.rejects(slow, /timed out after 0.05s \(sleep\)/);
+        // A timeout is not a crash, so the restart limit does not apply
+        assert.deepEqual(await queued, ["after"]);
+        assert.notEqual(await helper.call("pid"), pid);
+    });
+
+    it("gives up after repeated crashes", async () => {
+        const helper = fakeHelper({ maxRestarts: 1 });
+        await assert.rejects(helper.call("crash"), /exited/);
+        await assert.rejects(helper.call("crash"), /exited/);
+        await assert.rejects(helper.call("pid"), /crashed 2 times in the last minute; not restarting\. Last output: boom/);
+    });
+
+    it("reports a missing helper binary", async () => {
+        const helper = createAxClient({ command: "/nonexistent/LogicAccessibility" });
+        client = helper;
+        await assert.rejects(helper.call("list-tracks"), /helper not found/);
+    });
+
+    it("rejects calls after close", async () => {
+        const helper = fakeHelper();
+        helper.close();
+        await assert.rejects(helper.call("pid"), /closed/);
+    });
+});
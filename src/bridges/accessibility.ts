@@ -1,7 +1,21 @@
-import { execFile } from "node:child_process";
+import { execFile, spawn, type ChildProcess } from "node:child_process";
+import { createInterface } from "node:readline";
 import { promisify } from "node:util";
 import { resolve, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
+import {
+    axLabelsFor,
+    detectAxLocale,
+    parseAppleLanguages,
+    parseAxLocale,
+    AX_LOCALES,
+    type AxLabels,
+    type AxLocale,
+} from "../ax/labels.js";
+import { parseTrackHeaders, type AxElement, type TrackInfo } from "../ax/tracks.js";
+import { pickTrack, type TrackTarget } from "../ax/resolve.js";
+
+export type { TrackInfo } from "../ax/tracks.js";
 
 const execFileAsync = promisify(execFile);
 
@@ -12,17 +26,8 @@ const SWIFT_HELPER_PATH = resolve(
 );
 
 const AX_TIMEOUT = 15_000;
-
-export interface TrackInfo {
-    index: number;
-    name: string;
-    trackNumber?: number;
-    muted?: boolean;
-    solo?: boolean;
-    recordEnabled?: boolean;
-    volume?: number;
-    plugins: string[];
-}
+const HELPER_NOT_FOUND =
+    "Swift accessibility helper not found. Run: cd swift-helper && swift build -c release";
 
 export interface PluginParameter {
     name: string;
@@ -32,21 +37,253 @@ export interface PluginParameter {
 
 // ── Swift helper (direct AX API) ──────────────────────────────────
 
-async function runAxHelper(args: string[]): Promise<string> {
-    try {
-        const { stdout } = await execFileAsync(SWIFT_HELPER_PATH, args, {
-            timeout: AX_TIMEOUT,
+export interface AxClientOptions {
+    /** Executable to run; started with `serve` as its only argument unless `args` is given */
+    command: string;
+    args?: string[];
+    /** Per-call timeout in ms unless a call gives its own. Default: 15s */
+    timeout?: number;
+    /** Requests sent to the helper at once; the rest wait in line. Default: 1 */
+    concurrency?: number;
+    /** Give up restarting after this many crashes within a minute. Default: 3 */
+    maxRestarts?: number;
+}
+
+export interface AxClient {
+    /** Send a JSON-RPC request and resolve with its result. */
+    call(method: string, params?: string[], timeout?: number): Promise<unknown>;
+    /** Stop the helper and fail every waiting request. */
+    close(): void;
+}
+
+interface AxRequest {
+    id: number;
+    method: string;
+    params: string[];
+    timeout: number;
+    resolve: (result: unknown) => void;
+    reject: (error: Error) => void;
+    timer?: NodeJS.Timeout;
+    /** The helper process the request was written to */
+    sentTo?: ChildProcess;
+}
+
+interface AxResponse {
+    id?: number | null;
+    result?: unknown;
+    error?: { code: number; message: string };
+}
+
+// Crashes older than this no longer count towards maxRestarts
+const RESTART_WINDOW_MS = 60_000;
+// Helper stderr lines kept to explain a crash
+const STDERR_TAIL_LINES = 5;
+
+/**
+ * Client for a helper that speaks newline-delimited JSON-RPC 2.0 on stdio
+ * and stays running between calls. The helper is started on the first
+ * call and started again on the next call after it crashes. A call that
+ * times out kills the helper, since a stuck AX query never comes back.
+ */
+export function createAxClient(options: AxClientOptions): AxClient {
+    const concurrency = options.concurrency ?? 1;
+    const maxRestarts = options.maxRestarts ?? 3;
+    const queue: AxRequest[] = [];
+    const inFlight = new Map<number, AxRequest>();
+    const crashes: number[] = [];
+    // Helpers stopped on purpose, whose exit is not a crash
+    const killed = new WeakSet<ChildProcess>();
+    let stderrTail: string[] = [];
+    let helper: ChildProcess | null = null;
+    let nextRequestId = 1;
+    let closed = false;
+
+    function start(): ChildProcess {
+        const child = spawn(options.command, options.args ?? ["serve"], {
+            stdio: ["pipe", "pipe", "pipe"],
+        });
+        stderrTail = [];
+
+        createInterface({ input: child.stdout! }).on("line", handleLine);
+        createInterface({ input: child.stderr! }).on("line", (line) => {
+            stderrTail = [...stderrTail, line].slice(-STDERR_TAIL_LINES);
         });
-        return stdout.trim();
+        // A write to a helper that just died; the exit handler reports it
+        child.stdin!.on("error", () => {});
+
+        let exited = false;
+        const onExit = (describe: (request: AxRequest) => Error) => {
+            if (exited) return;
+            exited = true;
+            if (helper === child) helper = null;
+            if (!closed && !killed.has(child)) crashes.push(Date.now());
+            for (const request of inFlight.values()) {
+                if (request.sentTo === child) finish(request, describe(request));
+            }
+            pump();
+        };
+        const detail = () => (stderrTail.length > 0 ? `: ${stderrTail.join(" / ")}` : "");
+        child.on("error", (error: NodeJS.ErrnoException) => {
+            if (error.code === "ENOENT") {
+                failQueued(new Error(HELPER_NOT_FOUND));
+                onExit(() => new Error(HELPER_NOT_FOUND));
+            } else {
+                onExit((request) => new Error(`Accessibility helper failed during ${request.method}: ${error.message}`));
+            }
+        });
+        // "close" rather than "exit", so responses and stderr still in the pipes are read first
+        child.on("close", (code, signal) => {
+            const reason = signal ?? `code ${code}`;
+            onExit((request) => new Error(`Accessibility helper exited (${reason}) during ${request.method}${detail()}`));
+        });
+        return child;
+    }
+
+    function handleLine(line: string): void {
+        if (line.trim() === "") return;
+        let response: AxResponse;
+        try {
+            response = JSON.parse(line) as AxResponse;
+        } catch {
+            process.stderr.write(`[logic-pro-mcp] Ignoring accessibility helper output: ${line}\n`);
+            return;
+        }
+        const request = typeof response.id === "number" ? inFlight.get(response.id) : undefined;
+        if (!request) return;
+        if (response.error) {
+            finish(request, new Error(response.error.message));
+        } else {
+            finish(request, undefined, response.result);
+        }
+        pump();
+    }
+
+    function finish(request: AxRequest, error?: Error, result?: unknown): void {
+        clearTimeout(request.timer);
+        inFlight.delete(request.id);
+        if (error) request.reject(error);
+        else request.resolve(result);
+    }
+
+    function failQueued(error: Error): void {
+        for (const request of queue.splice(0)) request.reject(error);
+    }
+
+    /** Send queued requests while there is room, starting the helper if needed. */
+    function pump(): void {
+        while (queue.length > 0 && inFlight.size < concurrency) {
+            if (!helper) {
+                const now = Date.now();
+                while (crashes.length > 0 && crashes[0] < now - RESTART_WINDOW_MS) crashes.shift();
+                if (crashes.length > maxRestarts) {
+                    const detail = stderrTail.length > 0 ? ` Last output: ${stderrTail.join(" / ")}` : "";
+                    failQueued(
+                        new Error(`Accessibility helper crashed ${crashes.length} times in the last minute; not restarting.${detail}`),
+                    );
+                    return;
+                }
+                helper = start();
+            }
+
+            const request = queue.shift()!;
+            const child = helper;
+            request.sentTo = child;
+            inFlight.set(request.id, request);
+            request.timer = setTimeout(() => {
+                finish(request, new Error(`Accessibility helper timed out after ${request.timeout / 1000}s (${request.method})`));
+                killed.add(child);
+                child.kill();
+                if (helper === child) helper = null;
+                pump();
+            }, request.timeout);
+            child.stdin!.write(
+                JSON.stringify({ jsonrpc: "2.0", id: request.id, method: request.method, params: request.params }) + "\n",
+            );
+        }
+    }
+
+    return {
+        call(method, params = [], timeout = options.timeout ?? AX_TIMEOUT) {
+            if (closed) return Promise.reject(new Error("Accessibility helper is closed."));
+            return new Promise((resolve, reject) => {
+                queue.push({ id: nextRequestId++, method, params, timeout, resolve, reject });
+                pump();
+            });
+        },
+        close() {
+            closed = true;
+            failQueued(new Error("Accessibility helper is closed."));
+            if (helper) killed.add(helper);
+            helper?.kill();
+            helper = null;
+        },
+    };
+}
+
+let axHelper: AxClient | null = null;
+
+async function runAxHelper(method: string, params: string[] = []): Promise<unknown> {
+    axHelper ??= createAxClient({ command: SWIFT_HELPER_PATH });
+    try {
+        return await axHelper.call(method, params);
     } catch (error: unknown) {
         const msg = error instanceof Error ? error.message : String(error);
-        if (msg.includes("ENOENT")) {
+        if (msg === HELPER_NOT_FOUND) throw error;
+        throw new Error(`Accessibility helper error: ${msg}`);
+    }
+}
+
+/** Stop the long-running helper, e.g. on shutdown. The next call starts it again. */
+export function closeAccessibilityHelper(): void {
+    axHelper?.close();
+    axHelper = null;
+}
+
+// ── UI language ────────────────────────────────────────────────────
+
+// undefined until detected; null when no supported language was found
+let axLocale: AxLocale | null | undefined;
+
+/**
+ * The language Logic's UI is in: LOGIC_PRO_MCP_LOCALE if set, else Logic's
+ * own language setting, else the system's preferred languages.
+ */
+export async function getAxLocale(): Promise<AxLocale | undefined> {
+    if (axLocale !== undefined) return axLocale ?? undefined;
+
+    const override = process.env.LOGIC_PRO_MCP_LOCALE;
+    if (override) {
+        const locale = parseAxLocale(override);
+        if (!locale) {
             throw new Error(
-                "Swift accessibility helper not found. Run: cd swift-helper && swift build -c release",
+                `LOGIC_PRO_MCP_LOCALE "${override}" is not supported; use one of ${AX_LOCALES.join(", ")}.`,
             );
         }
-        throw new Error(`Accessibility helper error: ${msg}`);
+        axLocale = locale;
+        return locale;
     }
+
+    axLocale = null;
+    for (const domain of ["com.apple.logic10", "-g"]) {
+        try {
+            const { stdout } = await execFileAsync("defaults", ["read", domain, "AppleLanguages"], {
+                timeout: AX_TIMEOUT,
+            });
+            const locale = detectAxLocale(parseAppleLanguages(stdout));
+            if (locale) {
+                axLocale = locale;
+                break;
+            }
+        } catch {
+            // Not set for this domain
+        }
+    }
+    return axLocale ?? undefined;
+}
+
+/** Labels for Logic's UI language, or for every supported language if it is unknown. */
+async function getAxLabels(): Promise<AxLabels> {
+    return axLabelsFor(await getAxLocale());
 }
 
 // ── JXA fallback (uses osascript, inherits parent process permissions) ──
@@ -65,15 +302,16 @@ async function runJXA(script: string): Promise<string> {
  * This approach inherits Accessibility permissions from the parent process
  * (e.g. Claude Desktop) because osascript is a system binary.
  */
-async function listTracksJXA(): Promise<TrackInfo[]> {
+async function listTracksJXA(labels: AxLabels): Promise<TrackInfo[]> {
     const script = `
+        const TRACKS_GROUP = ${JSON.stringify(labels.tracksGroup)};
         const se = Application("System Events");
         const lp = se.processes.byName("Logic Pro");
 
         // Find the main window
         const win = lp.windows[0];
 
-        // Navigate: window → find groups with description "Spuren" or "Tracks"
+        // Navigate: window → find the group described as "Tracks" in Logic's language
         function findSpurenGroup(element, depth) {
             if (depth > 5) return null;
             try {
@@ -82,7 +320,7 @@ async function listTracksJXA(): Promise<TrackInfo[]> {
                     const g = groups[i];
                     try {
                         const desc = g.description();
-                        if (desc === "Spuren" || desc === "Tracks") return g;
+                        if (TRACKS_GROUP.includes(desc)) return g;
                     } catch(e) {}
                     const found = findSpurenGroup(g, depth + 1);
                     if (found) return found;
@@ -91,8 +329,29 @@ async function listTracksJXA(): Promise<TrackInfo[]> {
             return null;
         }
 
-        // Find track layout items inside scroll areas
-        function findTracks(element, depth, tracks) {
+        // Role, description, title, value and selection of an element and its subtree
+        function dump(element, depth) {
+            const node = { role: "", description: "", title: "", value: "" };
+            try { node.role = element.role() || ""; } catch(e) {}
+            try { node.description = element.description() || ""; } catch(e) {}
+            try { node.title = element.title() || ""; } catch(e) {}
+            try {
+                const value = element.value();
+                if (value !== null && value !== undefined) node.value = String(value);
+            } catch(e) {}
+            try { if (element.selected()) node.selected = true; } catch(e) {}
+            if (depth < 3) {
+                try {
+                    const children = element.uiElements();
+                    node.children = [];
+                    for (let i = 0; i < children.length; i++) node.children.push(dump(children[i], depth + 1));
+                } catch(e) {}
+            }
+            return node;
+        }
+
+        // Collect the layout items (track headers) inside scroll areas
+        function findTracks(element, depth, items) {
             if (depth > 12) return;
             try {
                 // Check all UI elements at this level
@@ -100,68 +359,11 @@ async function listTracksJXA(): Promise<TrackInfo[]> {
                 for (let i = 0; i < uiElems.length; i++) {
                     const el = uiElems[i];
                     try {
-                        const role = el.role();
-                        const desc = el.description();
-
-                        if (role === "AXLayoutItem" && desc &&
-                            (desc.startsWith("Spur ") || desc.startsWith("Track "))) {
-
-                            // Extract track name from description like: Spur 4 \\u201eIoanna Mic Wet\\u201c
-                            let name = desc;
-                            const qStart = desc.indexOf("\\u201e");
-                            if (qStart >= 0) {
-                                name = desc.substring(qStart + 1)
-                                    .replace(/[\\u201c\\u201d"]/g, "")
-                                    .trim();
-                            } else {
-                                const dqStart = desc.indexOf('"');
-                                if (dqStart >= 0) {
-                                    name = desc.substring(dqStart + 1);
-                                    const dqEnd = name.lastIndexOf('"');
-                                    if (dqEnd >= 0) name = name.substring(0, dqEnd);
-                                }
-                            }
-
-                            // Extract track number
-                            const parts = desc.split(" ");
-                            const trackNum = parts.length >= 2 ? parseInt(parts[1]) : -1;
-
-                            // Read mute/solo/volume from children
-                            let muted = false, solo = false, recordEnabled = false, volume = 0;
-                            try {
-                                const children = el.uiElements();
-                                for (let c = 0; c < children.length; c++) {
-                                    try {
-                                        const cr = children[c].role();
-                                        const cd = children[c].description();
-                                        const cv = children[c].value();
-                                        if (cr === "AXCheckBox") {
-                                            if (cd === "Mute") muted = (cv == 1);
-                                            else if (cd === "Solo") solo = (cv == 1);
-                                            else if (cd && (cd.includes("Aufnahme") || cd.includes("Record")))
-                                                recordEnabled = (cv == 1);
-                                        } else if (cr === "AXSlider" && cd === "Volume") {
-                                            volume = parseInt(cv) || 0;
-                                        }
-                                    } catch(e2) {}
-                                }
-                            } catch(e2) {}
-
-                            tracks.push({
-                                index: tracks.length,
-                                trackNumber: trackNum,
-                                name: name,
-                                muted: muted,
-                                solo: solo,
-                                recordEnabled: recordEnabled,
-                                volume: volume,
-                                plugins: []
-                            });
-                        }
+                        if (el.role() === "AXLayoutItem") items.push(dump(el, 0));
                     } catch(e) {}
 
                     // Recurse
-                    findTracks(el, depth + 1, tracks);
+                    findTracks(el, depth + 1, items);
                 }
             } catch(e) {}
         }
@@ -170,15 +372,15 @@ async function listTracksJXA(): Promise<TrackInfo[]> {
         if (!spurenGroup) {
             JSON.stringify([]);
         } else {
-            const tracks = [];
-            findTracks(spurenGroup, 0, tracks);
-            JSON.stringify(tracks);
+            const items = [];
+            findTracks(spurenGroup, 0, items);
+            JSON.stringify(items);
         }
     `;
 
     const result = await runJXA(script);
     try {
-        return JSON.parse(result) as TrackInfo[];
+        return parseTrackHeaders(JSON.parse(result) as AxElement[], labels);
     } catch {
         return [];
     }
@@ -188,8 +390,8 @@ async function listTracksJXA(): Promise<TrackInfo[]> {
 
 export async function checkAccessibility(): Promise<boolean> {
     try {
-        const result = await runAxHelper(["check-access"]);
-        return result.includes("granted");
+        const result = await runAxHelper("check-access");
+        return String(result).includes("granted");
     } catch {
         return false;
     }
@@ -201,10 +403,19 @@ export async function checkAccessibility(): Promise<boolean> {
  * 2. Fall back to JXA/osascript (inherits parent Accessibility permissions)
  */
 export async function listTracks(): Promise<TrackInfo[]> {
+    // Both backends return the raw track headers, parsed here with Logic's labels
+    let labels: AxLabels;
+    try {
+        labels = await getAxLabels();
+    } catch (error: unknown) {
+        const msg = error instanceof Error ? error.message : String(error);
+        throw new Error(`Could not list tracks: ${msg}`);
+    }
+
     // Try Swift helper first
     try {
-        const result = await runAxHelper(["list-tracks"]);
-        const tracks = JSON.parse(result) as TrackInfo[];
+        const headers = (await runAxHelper("list-tracks", [JSON.stringify(labels)])) as AxElement[];
+        const tracks = parseTrackHeaders(headers, labels);
         if (tracks.length > 0) return tracks;
     } catch {
         // Swift helper failed, fall through to JXA
@@ -212,7 +423,7 @@ export async function listTracks(): Promise<TrackInfo[]> {
 
     // Fallback: JXA via osascript
     try {
-        return await listTracksJXA();
+        return await listTracksJXA(labels);
     } catch (error: unknown) {
         const msg = error instanceof Error ? error.message : String(error);
         throw new Error(
@@ -221,33 +432,21 @@ export async function listTracks(): Promise<TrackInfo[]> {
     }
 }
 
-export async function getPluginParameters(
-    trackIndex: number,
-    slotIndex: number,
-): Promise<PluginParameter[]> {
-    const result = await runAxHelper([
-        "get-params",
-        String(trackIndex),
-        String(slotIndex),
-    ]);
-    return JSON.parse(result) as PluginParameter[];
-}
-
-export async function setPluginParameter(
-    trackIndex: number,
-    slotIndex: number,
-    paramName: string,
-    value: string,
-): Promise<string> {
-    return runAxHelper([
-        "set-param",
-        String(trackIndex),
-        String(slotIndex),
-        paramName,
-        value,
-    ]);
+/** The track a name, pattern, Logic track number, "selected" or index refers to. */
+export async function findTrack(target: TrackTarget): Promise<TrackInfo> {
+    return pickTrack(await listTracks(), target);
+}
+
+/** Parameters of the plugin windows open in Logic Pro; the helper cannot pick a track or slot. */
+export async function getPluginParameters(): Promise<PluginParameter[]> {
+    return (await runAxHelper("get-params", [])) as PluginParameter[];
+}
+
+/** Set a parameter in the first open plugin window that has it. */
+export async function setPluginParameter(paramName: string, value: string): Promise<string> {
+    return String(await runAxHelper("set-param", [paramName, value]));
 }
 
 export async function getUIElement(query: string): Promise<string> {
-    return runAxHelper(["query", query]);
+    return JSON.stringify(await runAxHelper("query", [query]), null, 2);
 }
@@ -0,0 +1,228 @@
+import {
+    onMidiMessage,
+    openMidiInput,
+    openMidiPort,
+    sendMessage,
+} from "./midi-bridge.js";
+import {
+    buttonPressMessages,
+    faderMoveMessages,
+    initialMcuState,
+    matchStripNames,
+    MCU_BUTTONS,
+    MCU_LABEL_WIDTH,
+    MCU_STRIP_COUNT,
+    updateMcuState,
+    type McuState,
+} from "../midi/mcu.js";
+import type { TrackInfo } from "../ax/tracks.js";
+
+/** Virtual port pair Logic's Mackie Control surface is assigned to. */
+export const MCU_OUTPUT_PORT_NAME = "Logic Pro MCP Surface";
+export const MCU_INPUT_PORT_NAME = "Logic Pro MCP Surface In";
+
+// How long to wait for Logic to answer a button press or bank change
+const FEEDBACK_TIMEOUT_MS = 500;
+// Upper bound on bank steps when searching for a track, so a stuck display can't loop forever
+const MAX_BANK_STEPS = 64;
+
+export type StripButton = "recordArm" | "solo" | "mute" | "selected";
+
+const STRIP_BUTTON_NOTES: Record<StripButton, number> = {
+    recordArm: MCU_BUTTONS.recordArm,
+    solo: MCU_BUTTONS.solo,
+    mute: MCU_BUTTONS.mute,
+    selected: MCU_BUTTONS.select,
+};
+
+interface McuSession {
+    state: McuState;
+    unsubscribe: () => void;
+}
+
+let session: McuSession | null = null;
+const waiters = new Set<() => void>();
+
+/**
+ * Open the surface port pair and start mirroring what Logic sends. In
+ * Logic, add a Mackie Control in Control Surfaces > Setup with
+ * 'Logic Pro MCP Surface' as its input and 'Logic Pro MCP Surface In' as
+ * its output.
+ */
+export function startMcu(): void {
+    if (session) return;
+    openMidiPort(MCU_OUTPUT_PORT_NAME);
+    // Meters and displays update constantly; keep them out of midi_get_input
+    const input = openMidiInput(MCU_INPUT_PORT_NAME, { virtual: true, buffer: false });
+
+    const current: McuSession = { state: initialMcuState(), unsubscribe: () => {} };
+    current.unsubscribe = onMidiMessage((message) => {
+        if (message.port !== input) return;
+        const { state, replies } = updateMcuState(current.state, message.bytes);
+        current.state = state;
+        for (const reply of replies) sendMessage(reply, MCU_OUTPUT_PORT_NAME);
+        for (const waiter of waiters) waiter();
+    });
+    session = current;
+}
+
+export function stopMcu(): void {
+    session?.unsubscribe();
+    session = null;
+}
+
+export function getMcuState(): McuState | undefined {
+    return session?.state;
+}
+
+export function isMcuConnected(): boolean {
+    return session?.state.connected ?? false;
+}
+
+/** The live mirror, or an error explaining how to connect the surface. */
+export function requireMcu(): McuState {
+    if (!session) {
+        throw new Error("The Mackie Control ports could not be opened.");
+    }
+    if (!session.state.connected) {
+        throw new Error(
+            `Logic Pro has not connected to the Mackie Control surface. In Logic Pro > Control Surfaces > Setup, add a Mackie Control with input '${MCU_OUTPUT_PORT_NAME}' and output '${MCU_INPUT_PORT_NAME}'.`,
+        );
+    }
+    return session.state;
+}
+
+export function pressMcuButton(note: number): void {
+    for (const message of buttonPressMessages(note)) sendMessage(message, MCU_OUTPUT_PORT_NAME);
+}
+
+/** Move a fader. Logic does not echo moves back, so the mirror is updated here. */
+export function moveMcuFader(strip: number, value: number): void {
+    const messages = faderMoveMessages(strip, value);
+    for (const message of messages) sendMessage(message, MCU_OUTPUT_PORT_NAME);
+    if (session) {
+        const { state } = updateMcuState(session.state, messages[1]);
+        session.state = state;
+    }
+}
+
+/**
+ * Resolve once `predicate` holds for the mirror, checking after every
+ * message from Logic. Resolves false after the timeout.
+ */
+export function waitForMcu(
+    predicate: (state: McuState) => boolean,
+    timeoutMs: number = FEEDBACK_TIMEOUT_MS,
+): Promise<boolean> {
+    return new Promise((resolve) => {
+        if (session && predicate(session.state)) {
+            resolve(true);
+            return;
+        }
+        const check = () => {
+            if (session && predicate(session.state)) finish(true);
+        };
+        const timer = setTimeout(() => finish(false), timeoutMs);
+        const finish = (result: boolean) => {
+            clearTimeout(timer);
+            waiters.delete(check);
+            resolve(result);
+        };
+        waiters.add(check);
+    });
+}
+
+/** Press a bank/channel navigation button and wait for the strips to change. */
+export async function navigateMcu(button: "bankLeft" | "bankRight" | "channelLeft" | "channelRight"): Promise<boolean> {
+    const before = requireMcu().lcd;
+    pressMcuButton(MCU_BUTTONS[button]);
+    return waitForMcu((state) => state.lcd !== before);
+}
+
+/**
+ * Find the strip showing a track from the tracks area, banking to it. The
+ * mixer lists tracks in the same order, eight to a bank, so the track's
+ * position is tried first and kept if that strip's label is its name, or
+ * Logic's abbreviation of a name too long for the display. Otherwise the
+ * one strip labelled with exactly the name is used; anything less certain
+ * is an error rather than a guess. Returns the strip index (0-7) in the
+ * bank left in view.
+ */
+export async function findMcuTrackStrip(track: Pick<TrackInfo, "index" | "name">): Promise<number> {
+    const strip = track.index % MCU_STRIP_COUNT;
+    if (await bankTo(Math.floor(track.index / MCU_STRIP_COUNT))) {
+        const { exact, loose } = matchStripNames(requireMcu().strips, track.name);
+        const abbreviated = track.name.length > MCU_LABEL_WIDTH && loose.includes(strip);
+        if (exact.includes(strip) || abbreviated) return strip;
+    }
+
+    await bankToStart();
+    const labelled: { bank: number; strip: number }[] = [];
+    for (let bank = 0; bank < MAX_BANK_STEPS; bank++) {
+        const { exact } = matchStripNames(requireMcu().strips, track.name);
+        labelled.push(...exact.map((index) => ({ bank, strip: index })));
+        if (!(await navigateMcu("bankRight"))) break;
+    }
+    if (labelled.length === 1) {
+        await bankTo(labelled[0].bank);
+        return labelled[0].strip;
+    }
+    throw new Error(
+        labelled.length > 1
+            ? `${labelled.length} mixer strips are labelled "${track.name}". Use a strip number.`
+            : `Could not find "${track.name}" on the Mackie Control strips. Use a strip number (see mixer_get_strips).`,
+    );
+}
+
+/** Show the given bank, counting from the first; false if there are fewer banks. */
+async function bankTo(bank: number): Promise<boolean> {
+    await bankToStart();
+    for (let step = 0; step < bank; step++) {
+        if (!(await navigateMcu("bankRight"))) return false;
+    }
+    return true;
+}
+
+/** Bank left until the display stops changing: that is the first bank. */
+async function bankToStart(): Promise<void> {
+    for (let step = 0; step < MAX_BANK_STEPS && (await navigateMcu("bankLeft")); step++) {
+        // Each step waits for Logic to redraw the strips
+    }
+}
+
+/**
+ * Strip index (0-7) for a track found in the tracks area, banking to it if
+ * needed, or for a 1-based strip number in the current bank.
+ */
+export async function resolveMcuStrip(target: {
+    track?: Pick<TrackInfo, "index" | "name">;
+    strip?: number;
+}): Promise<number> {
+    requireMcu();
+    if (target.track !== undefined) return findMcuTrackStrip(target.track);
+    if (target.strip === undefined) throw new Error("Give a track name or a strip number (1-8).");
+    if (!Number.isInteger(target.strip) || target.strip < 1 || target.strip > MCU_STRIP_COUNT) {
+        throw new Error(`Strip must be 1-${MCU_STRIP_COUNT}; got ${target.strip}.`);
+    }
+    return target.strip - 1;
+}
+
+/**
+ * Set a strip's record arm, solo, mute or select state by pressing its
+ * button when the LED shows otherwise (or always, to toggle, when `on` is
+ * undefined). Returns the state the LED reports afterwards, and whether
+ * Logic confirmed the change in time.
+ */
+export async function setMcuStripButton(
+    strip: number,
+    button: StripButton,
+    on?: boolean,
+): Promise<{ on: boolean; confirmed: boolean }> {
+    const current = requireMcu().strips[strip][button];
+    const target = on ?? !current;
+    if (current === target) return { on: current, confirmed: true };
+
+    pressMcuButton(STRIP_BUTTON_NOTES[button] + strip);
+    const confirmed = await waitForMcu((state) => state.strips[strip][button] === target);
+    return { on: requireMcu().strips[strip][button], confirmed };
+}
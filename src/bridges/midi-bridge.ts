@@ -1,105 +1,394 @@
 import midi from "midi";
+import {
+    channelPressureMessage,
+    controlChange14Messages,
+    parameterNumberMessages,
+    pitchBendMessage,
+    polyPressureMessage,
+    programChangeMessages,
+    type ParameterNumberOptions,
+} from "../midi/messages.js";
+import {
+    mmcCommandMessage,
+    mmcLocateMessage,
+    type MmcCommand,
+    type SmpteFrameRate,
+    type SmpteTime,
+} from "../midi/mmc.js";
+import { mpeConfigurationMessages, type MpeConfig } from "../midi/mpe.js";
+import {
+    bufferMessage,
+    clearInputBuffers,
+    createInputBuffers,
+    readBufferedMessages,
+} from "../midi/input-buffer.js";
+import { findPortIndex } from "../midi/ports.js";
+import { playEvents, type ScheduledEvent } from "../midi/scheduler.js";
 
-let output: InstanceType<typeof midi.Output> | null = null;
-const VIRTUAL_PORT_NAME = "Logic Pro MCP";
+const outputs = new Map<string, InstanceType<typeof midi.Output>>();
+const inputs = new Map<string, InstanceType<typeof midi.Input>>();
+export const VIRTUAL_PORT_NAME = "Logic Pro MCP";
+export const VIRTUAL_INPUT_PORT_NAME = "Logic Pro MCP In";
 
-export function openMidiPort(): void {
-    if (output) return;
-    output = new midi.Output();
-    output.openVirtualPort(VIRTUAL_PORT_NAME);
+export interface ReceivedMidiMessage {
+    /** Monotonically increasing id, usable as a cursor for polling */
+    id: number;
+    port: string;
+    /** Arrival time in ms on the monotonic clock (performance.now()) */
+    time: number;
+    /** Seconds since the previous message, as reported by RtMidi */
+    deltaTime: number;
+    bytes: number[];
 }
 
-export function closeMidiPort(): void {
-    if (!output) return;
-    output.closePort();
-    output = null;
+export type MidiInputListener = (message: ReceivedMidiMessage) => void;
+
+// Active MPE zone per output port, set by configureMpe
+const mpeConfigs = new Map<string, MpeConfig>();
+
+const inputBuffers = createInputBuffers<ReceivedMidiMessage>();
+const inputListeners = new Set<MidiInputListener>();
+let nextMessageId = 1;
+
+/**
+ * Open a MIDI output, or return the already open one with that name. A
+ * name that matches a hardware/IAC output exactly (ignoring case) opens
+ * that port; any other name creates a virtual port, so several instrument
+ * tracks can each listen to their own. Returns the name of the port.
+ */
+export function openMidiPort(portName: string = VIRTUAL_PORT_NAME): string {
+    const existing = findOpenOutput(portName);
+    if (existing) return existing;
+
+    const index = findPortIndex(listMidiOutputPorts(), portName);
+    const port = new midi.Output();
+    let name = portName;
+    if (index >= 0) {
+        name = port.getPortName(index);
+        port.openPort(index);
+    } else {
+        port.openVirtualPort(portName);
+    }
+    outputs.set(name, port);
+    return name;
+}
+
+/** Close one output, or all of them when no name is given. */
+export function closeMidiPort(portName?: string): void {
+    const names = portName === undefined ? [...outputs.keys()] : [findOpenOutput(portName)];
+    for (const name of names) {
+        if (name === undefined) continue;
+        outputs.get(name)?.closePort();
+        outputs.delete(name);
+        mpeConfigs.delete(name);
+    }
+}
+
+export function isMidiPortOpen(portName: string = VIRTUAL_PORT_NAME): boolean {
+    return findOpenOutput(portName) !== undefined;
+}
+
+/** Names of the outputs this server has open (virtual and hardware). */
+export function listOpenMidiPorts(): { outputs: string[]; inputs: string[] } {
+    return { outputs: [...outputs.keys()], inputs: [...inputs.keys()] };
+}
+
+/** Names of the MIDI outputs available on this system (hardware, IAC, other apps). */
+export function listMidiOutputPorts(): string[] {
+    return listPorts(new midi.Output());
+}
+
+function findOpenOutput(portName: string): string | undefined {
+    return findOpenPort([...outputs.keys()], portName);
+}
+
+function getOutput(portName: string = VIRTUAL_PORT_NAME): InstanceType<typeof midi.Output> {
+    const name = findOpenOutput(portName);
+    if (name === undefined) throw new Error(`MIDI port "${portName}" not open`);
+    return outputs.get(name)!;
+}
+
+export interface MidiInputOptions {
+    /** Create a virtual port with this name. Default: only for the default name */
+    virtual?: boolean;
+    /** Keep messages for midi_get_input. Default: true */
+    buffer?: boolean;
+}
+
+/**
+ * Open a MIDI input. The default name creates our virtual input port;
+ * any other name must match a hardware/IAC input exactly (ignoring case)
+ * unless `virtual` is set. Returns the name of the opened port.
+ */
+export function openMidiInput(
+    portName: string = VIRTUAL_INPUT_PORT_NAME,
+    options: MidiInputOptions = {},
+): string {
+    const existing = findOpenInput(portName);
+    if (existing) return existing;
+
+    const virtual = options.virtual ?? portName === VIRTUAL_INPUT_PORT_NAME;
+    const available = virtual ? [] : listMidiInputPorts();
+    const index = virtual ? -1 : findPortIndex(available, portName);
+    if (!virtual && index < 0) {
+        throw new Error(`MIDI input "${portName}" not found. Available: ${available.join(", ") || "none"}`);
+    }
+
+    const port = new midi.Input();
+    let name = portName;
+    if (virtual) {
+        port.openVirtualPort(portName);
+    } else {
+        name = available[index];
+        port.openPort(index);
+    }
+
+    // Receive SysEx (MMC, control surfaces) and timing (clock, MTC); skip active sensing
+    port.ignoreTypes(false, false, true);
+    const buffer = options.buffer ?? true;
+    port.on("message", (deltaTime, bytes) => {
+        handleIncomingMessage(name, deltaTime, bytes, buffer);
+    });
+    inputs.set(name, port);
+    return name;
+}
+
+/** Close one input, or all of them when no name is given. */
+export function closeMidiInput(portName?: string): void {
+    const names = portName === undefined ? [...inputs.keys()] : [findOpenInput(portName)];
+    for (const name of names) {
+        if (name === undefined) continue;
+        inputs.get(name)?.closePort();
+        inputs.delete(name);
+    }
+}
+
+export function isMidiInputOpen(portName: string = VIRTUAL_INPUT_PORT_NAME): boolean {
+    return findOpenInput(portName) !== undefined;
+}
+
+/** Names of the MIDI inputs available on this system (hardware, IAC, other apps). */
+export function listMidiInputPorts(): string[] {
+    return listPorts(new midi.Input());
+}
+
+function findOpenInput(portName: string): string | undefined {
+    return findOpenPort([...inputs.keys()], portName);
+}
+
+function findOpenPort(names: string[], portName: string): string | undefined {
+    const index = findPortIndex(names, portName);
+    return index >= 0 ? names[index] : undefined;
+}
+
+/** Port names read through a client made just for that, which is closed again. */
+function listPorts(client: InstanceType<typeof midi.Output> | InstanceType<typeof midi.Input>): string[] {
+    try {
+        return portNames(client);
+    } finally {
+        client.closePort();
+    }
+}
+
+function portNames(port: { getPortCount(): number; getPortName(index: number): string }): string[] {
+    const names: string[] = [];
+    for (let i = 0; i < port.getPortCount(); i++) {
+        names.push(port.getPortName(i));
+    }
+    return names;
+}
+
+/**
+ * Register a listener for incoming MIDI messages.
+ * Returns a function that removes the listener again.
+ */
+export function onMidiMessage(listener: MidiInputListener): () => void {
+    inputListeners.add(listener);
+    return () => {
+        inputListeners.delete(listener);
+    };
+}
+
+/**
+ * Buffered incoming messages with an id greater than `sinceId`, oldest
+ * first. Clock, MTC quarter frames and other realtime messages are left
+ * out unless `includeSync` is set.
+ */
+export function getReceivedMessages(sinceId: number = 0, includeSync: boolean = false): ReceivedMidiMessage[] {
+    return readBufferedMessages(inputBuffers, sinceId, includeSync);
 }
 
-export function isMidiPortOpen(): boolean {
-    return output !== null;
+export function clearReceivedMessages(): void {
+    clearInputBuffers(inputBuffers);
+}
+
+function handleIncomingMessage(
+    port: string,
+    deltaTime: number,
+    bytes: number[],
+    buffer: boolean,
+): void {
+    const message: ReceivedMidiMessage = {
+        id: nextMessageId++,
+        port,
+        time: performance.now(),
+        deltaTime,
+        bytes: [...bytes],
+    };
+
+    if (buffer) bufferMessage(inputBuffers, message);
+
+    for (const listener of inputListeners) {
+        try {
+            listener(message);
+        } catch (error) {
+            process.stderr.write(
+                `[logic-pro-mcp] MIDI input listener failed: ${error}\n`,
+            );
+        }
+    }
+}
+
+export function sendMessage(message: number[], port?: string): void {
+    getOutput(port).sendMessage(message);
 }
 
 export function sendNoteOn(
     channel: number,
     note: number,
     velocity: number,
+    port?: string,
 ): void {
-    if (!output) throw new Error("MIDI port not open");
-    output.sendMessage([0x90 + (channel & 0x0f), note & 0x7f, velocity & 0x7f]);
+    sendMessage([0x90 + (channel & 0x0f), note & 0x7f, velocity & 0x7f], port);
 }
 
-export function sendNoteOff(channel: number, note: number): void {
-    if (!output) throw new Error("MIDI port not open");
-    output.sendMessage([0x80 + (channel & 0x0f), note & 0x7f, 0]);
+export function sendNoteOff(channel: number, note: number, port?: string): void {
+    sendMessage([0x80 + (channel & 0x0f), note & 0x7f, 0], port);
 }
 
 export function sendCC(
     channel: number,
     controller: number,
     value: number,
+    port?: string,
 ): void {
-    if (!output) throw new Error("MIDI port not open");
-    output.sendMessage([
-        0xb0 + (channel & 0x0f),
-        controller & 0x7f,
-        value & 0x7f,
-    ]);
+    sendMessage(
+        [
+            0xb0 + (channel & 0x0f),
+            controller & 0x7f,
+            value & 0x7f,
+        ],
+        port,
+    );
 }
 
-export function sendProgramChange(channel: number, program: number): void {
-    if (!output) throw new Error("MIDI port not open");
-    output.sendMessage([0xc0 + (channel & 0x0f), program & 0x7f]);
+export function sendProgramChange(channel: number, program: number, port?: string): void {
+    sendMessage([0xc0 + (channel & 0x0f), program & 0x7f], port);
 }
 
-interface NoteEvent {
-    note: number;
-    velocity: number;
-    channel?: number;
-    duration?: number;
-    delay?: number;
+/** Bank select (MSB and/or LSB) followed by a program change. */
+export function sendBankProgramChange(
+    channel: number,
+    program: number,
+    bank: { msb?: number; lsb?: number },
+    port?: string,
+): void {
+    sendAll(programChangeMessages(channel, program, bank), port);
 }
 
-export async function sendNotes(notes: NoteEvent[]): Promise<void> {
-    if (!output) throw new Error("MIDI port not open");
+/** 14-bit pitch bend, 0-16383 with 8192 as center. */
+export function sendPitchBend(channel: number, value: number, port?: string): void {
+    sendMessage(pitchBendMessage(channel, value), port);
+}
 
-    for (const event of notes) {
-        const ch = event.channel ?? 0;
-        const dur = event.duration ?? 500;
-        const del = event.delay ?? 0;
+export function sendChannelPressure(channel: number, pressure: number, port?: string): void {
+    sendMessage(channelPressureMessage(channel, pressure), port);
+}
 
-        if (del > 0) {
-            await sleep(del);
-        }
+export function sendPolyPressure(
+    channel: number,
+    note: number,
+    pressure: number,
+    port?: string,
+): void {
+    sendMessage(polyPressureMessage(channel, note, pressure), port);
+}
 
-        sendNoteOn(ch, event.note, event.velocity);
-        await sleep(dur);
-        sendNoteOff(ch, event.note);
-    }
+/** 14-bit CC as an MSB/LSB pair (controller and controller + 32). */
+export function sendCC14(channel: number, controller: number, value: number, port?: string): void {
+    sendAll(controlChange14Messages(channel, controller, value), port);
 }
 
-export async function sendPattern(
-    notes: NoteEvent[],
-    bpm: number = 120,
-): Promise<void> {
-    if (!output) throw new Error("MIDI port not open");
+/** RPN or NRPN select followed by data entry. */
+export function sendParameterNumber(
+    channel: number,
+    parameter: number,
+    value: number,
+    options: ParameterNumberOptions = {},
+    port?: string,
+): void {
+    sendAll(parameterNumberMessages(channel, parameter, value, options), port);
+}
 
-    const beatMs = 60_000 / bpm;
+/** A complete, validated SysEx message (F0 ... F7). */
+export function sendSysex(bytes: number[], port?: string): void {
+    sendMessage(bytes, port);
+}
 
-    for (const event of notes) {
-        const ch = event.channel ?? 0;
-        const dur = event.duration ? (event.duration / 4) * beatMs : beatMs / 2;
-        const del = event.delay ? (event.delay / 4) * beatMs : 0;
+/** MIDI Machine Control transport command, addressed to all devices. */
+export function sendMmc(command: MmcCommand, port?: string): void {
+    sendMessage(mmcCommandMessage(command), port);
+}
 
-        if (del > 0) {
-            await sleep(del);
-        }
+/** MIDI Machine Control Locate to a SMPTE position. */
+export function sendMmcLocate(time: SmpteTime, frameRate: SmpteFrameRate, port?: string): void {
+    sendMessage(mmcLocateMessage(time, frameRate), port);
+}
+
+/**
+ * Switch MPE on for a zone by sending the MPE Configuration Message and
+ * pitch bend ranges. Zero member channels switches the zone off.
+ */
+export function configureMpe(config: MpeConfig, port: string = VIRTUAL_PORT_NAME): void {
+    sendAll(mpeConfigurationMessages(config), port);
+    const name = findOpenOutput(port)!;
+    if (config.memberChannels > 0) mpeConfigs.set(name, { ...config });
+    else mpeConfigs.delete(name);
+}
+
+export function getMpeConfig(port: string = VIRTUAL_PORT_NAME): MpeConfig | null {
+    const name = findOpenOutput(port);
+    return (name !== undefined && mpeConfigs.get(name)) || null;
+}
 
-        sendNoteOn(ch, event.note, event.velocity);
-        await sleep(dur);
-        sendNoteOff(ch, event.note);
+/**
+ * All Sound Off (CC 120) and All Notes Off (CC 123) on all 16 channels,
+ * on one open port or on every open output. Never opens a port.
+ */
+export function sendPanic(port?: string): void {
+    const open = port === undefined ? undefined : findOpenOutput(port);
+    if (port !== undefined && open === undefined) throw new Error(`MIDI port "${port}" not open`);
+    const names = open === undefined ? [...outputs.keys()] : [open];
+    for (const name of names) {
+        for (let channel = 0; channel < 16; channel++) {
+            sendCC(channel, 120, 0, name);
+            sendCC(channel, 123, 0, name);
+        }
     }
 }
 
-function sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+/**
+ * Send scheduled events (notes, controller curves, ...) at their times.
+ * Aborting the signal stops playback and releases held notes.
+ */
+export async function playScheduledEvents(
+    events: ScheduledEvent[],
+    options: { port?: string; signal?: AbortSignal } = {},
+): Promise<void> {
+    const output = getOutput(options.port);
+    await playEvents(events, (message) => output.sendMessage(message), { signal: options.signal });
+}
+
+function sendAll(messages: number[][], port?: string): void {
+    for (const message of messages) sendMessage(message, port);
 }
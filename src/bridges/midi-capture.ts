@@ -0,0 +1,95 @@
+import {
+    closeMidiInput,
+    isMidiInputOpen,
+    onMidiMessage,
+    openMidiInput,
+    VIRTUAL_INPUT_PORT_NAME,
+} from "./midi-bridge.js";
+import {
+    collectCapture,
+    type CapturedMessage,
+    type CaptureResult,
+} from "../midi/capture.js";
+
+interface CaptureSession {
+    port: string;
+    bpm: number;
+    channels?: number[];
+    startTime: number;
+    messages: CapturedMessage[];
+    unsubscribe: () => void;
+    /** The capture opened the port itself and closes it again when stopped */
+    ownsPort: boolean;
+}
+
+export interface CaptureOptions {
+    /** Input port name. Default: the virtual 'Logic Pro MCP In' port */
+    port?: string;
+    bpm: number;
+    channels?: number[];
+}
+
+let session: CaptureSession | null = null;
+
+export function isCapturing(): boolean {
+    return session !== null;
+}
+
+/** Start recording note/CC traffic on a MIDI input. Returns the port name. */
+export function startCapture(options: CaptureOptions): string {
+    if (session) {
+        throw new Error("A MIDI capture is already running. Stop it first.");
+    }
+
+    const requested = options.port ?? VIRTUAL_INPUT_PORT_NAME;
+    const ownsPort = !isMidiInputOpen(requested);
+    // A keyboard opened just for the capture stays out of midi_get_input
+    const port = openMidiInput(requested, { buffer: false });
+    const messages: CapturedMessage[] = [];
+    const unsubscribe = onMidiMessage((message) => {
+        if (message.port === port) {
+            messages.push({ time: message.time, bytes: message.bytes });
+        }
+    });
+
+    session = {
+        port,
+        bpm: options.bpm,
+        channels: options.channels,
+        startTime: performance.now(),
+        messages,
+        unsubscribe,
+        ownsPort,
+    };
+    return port;
+}
+
+/** What the running capture holds so far, without stopping it. */
+export function peekCapture(): CaptureResult & { port: string; bpm: number } {
+    return collectSession(requireSession());
+}
+
+export function stopCapture(): CaptureResult & { port: string; bpm: number } {
+    const current = requireSession();
+    session = null;
+    current.unsubscribe();
+    if (current.ownsPort) closeMidiInput(current.port);
+    return collectSession(current);
+}
+
+function requireSession(): CaptureSession {
+    if (!session) {
+        throw new Error("No MIDI capture is running. Start one with midi_capture_start.");
+    }
+    return session;
+}
+
+function collectSession(current: CaptureSession): CaptureResult & { port: string; bpm: number } {
+    const result = collectCapture(current.messages, {
+        startTime: current.startTime,
+        endTime: performance.now(),
+        bpm: current.bpm,
+        channels: current.channels,
+    });
+    return { ...result, port: current.port, bpm: current.bpm };
+}
@@ -0,0 +1,116 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import dgram from "node:dgram";
+import { encodeOsc, OSC_IMMEDIATELY } from "../osc/codec.js";
+import {
+    clearReceivedOscMessages,
+    closeOsc,
+    getOscStatus,
+    getReceivedOscMessages,
+    onOscMessage,
+    openOsc,
+    sendOsc,
+    subscribeOsc,
+    unsubscribeOsc,
+    type ReceivedOscMessage,
+} from "./osc-bridge.js";
+
+/** Resolve with the next `count` messages the bridge receives. */
+function nextMessages(count: number): Promise<ReceivedOscMessage[]> {
+    return new Promise((resolve, reject) => {
+        const received: ReceivedOscMessage[] = [];
+        const timer = setTimeout(() => {
+            stop();
+            reject(new Error(`Timed out after ${received.length} of ${count} OSC messages`));
+        }, 2000);
+        const stop = onOscMessage((message) => {
+            received.push(message);
+            if (received.length === count) {
+                clearTimeout(timer);
+                stop();
+                resolve(received);
+            }
+        });
+    });
+}
+
+describe("OSC bridge over UDP loopback", () => {
+    let port: number;
+
+    before(async () => {
+        // Listen on a free port and send to ourselves
+        const status = await openOsc({ listenPort: 0, listenHost: "127.0.0.1", host: "127.0.0.1", port: 9 });
+        port = status.listen.port;
+        await openOsc({ port });
+    });
+
+    after(async () => {
+        await closeOsc();
+    });
+
+    beforeEach(() => {
+        unsubscribeOsc();
+        clearReceivedOscMessages();
+    });
+
+    it("keeps the socket when only the destination changes", () => {
+        assert.deepEqual(getOscStatus(), {
+            listen: { host: "127.0.0.1", port },
+            target: { host: "127.0.0.1", port },
+            subscriptions: [],
+        });
+    });
+
+    it("sends and receives messages", async () => {
+        const received = nextMessages(1);
+        const target = await sendOsc({ address: "/logic/play", args: [{ type: "i", value: 1 }, { type: "s", value: "go" }] });
+        assert.deepEqual(target, { host: "127.0.0.1", port });
+
+        const [message] = await received;
+        assert.equal(message.address, "/logic/play");
+        assert.deepEqual(message.args, [{ type: "i", value: 1 }, { type: "s", value: "go" }]);
+        assert.deepEqual(message.from, { host: "127.0.0.1", port });
+    });
+
+    it("buffers only subscribed addresses", async () => {
+        subscribeOsc("/track/*/{mute,solo}");
+        const received = nextMessages(3);
+        await sendOsc({ address: "/track/1/mute", args: [{ type: "T", value: true }] });
+        await sendOsc({ address: "/track/1/volume", args: [{ type: "f", value: 0.5 }] });
+        await sendOsc({ address: "/track/2/solo", args: [{ type: "F", value: false }] });
+        await received;
+
+        assert.deepEqual(
+            getReceivedOscMessages().map((m) => m.address),
+            ["/track/1/mute", "/track/2/solo"],
+        );
+        const [first] = getReceivedOscMessages();
+        assert.deepEqual(getReceivedOscMessages(first.id).map((m) => m.address), ["/track/2/solo"]);
+    });
+
+    it("unpacks bundles from other senders", async () => {
+        subscribeOsc("/*");
+        const received = nextMessages(2);
+        const sender = dgram.createSocket("udp4");
+        const packet = encodeOsc({
+            timetag: OSC_IMMEDIATELY,
+            elements: [
+                { address: "/a", args: [] },
+                { address: "/b", args: [{ type: "d", value: 0.25 }] },
+            ],
+        });
+        await new Promise<void>((resolve, reject) =>
+            sender.send(packet, port, "127.0.0.1", (error) => (error ? reject(error) : resolve())),
+        );
+        const messages = await received;
+        sender.close();
+
+        assert.deepEqual(messages.map((m) => [m.address, m.timetag]), [["/a", OSC_IMMEDIATELY], ["/b", OSC_IMMEDIATELY]]);
+        assert.equal(getReceivedOscMessages().length, 2);
+    });
+
+    it("rejects malformed subscriptions", () => {
+        assert.throws(() => subscribeOsc("track"), /start with/);
+        assert.throws(() => subscribeOsc("/track/[1"), /Unclosed/);
+    });
+});
@@ -0,0 +1,220 @@
+import dgram from "node:dgram";
+import {
+    decodeOsc,
+    encodeOsc,
+    flattenOsc,
+    matchOscAddress,
+    type OscArgument,
+    type OscPacket,
+} from "../osc/codec.js";
+
+/** Where osc_send goes unless told otherwise, and where replies are expected. */
+export const DEFAULT_OSC_HOST = "127.0.0.1";
+export const DEFAULT_OSC_PORT = 8000;
+export const DEFAULT_OSC_LISTEN_PORT = 9000;
+
+// Keep the most recent messages only, so a chatty surface can't grow unbounded
+const RECEIVE_BUFFER_SIZE = 2000;
+
+export interface OscEndpoint {
+    host: string;
+    port: number;
+}
+
+export interface OscOptions {
+    /** UDP port to receive on; 0 picks a free one. Default: 9000 */
+    listenPort?: number;
+    /** Interface to receive on. Default: 127.0.0.1 (this Mac only) */
+    listenHost?: string;
+    /** Default destination for sent packets. Default: 127.0.0.1:8000 */
+    host?: string;
+    port?: number;
+}
+
+export interface OscStatus {
+    listen: OscEndpoint;
+    target: OscEndpoint;
+    subscriptions: string[];
+}
+
+export interface ReceivedOscMessage {
+    /** Monotonically increasing id, usable as a cursor for polling */
+    id: number;
+    /** Arrival time in ms on the monotonic clock (performance.now()) */
+    time: number;
+    from: OscEndpoint;
+    address: string;
+    args: OscArgument[];
+    /** Time tag of the enclosing bundle, if the message came in one */
+    timetag?: bigint;
+}
+
+export type OscListener = (message: ReceivedOscMessage) => void;
+
+interface OscSession {
+    socket: dgram.Socket;
+    listen: OscEndpoint;
+    target: OscEndpoint;
+}
+
+let session: OscSession | null = null;
+const subscriptions = new Set<string>();
+const receiveBuffer: ReceivedOscMessage[] = [];
+const listeners = new Set<OscListener>();
+let nextMessageId = 1;
+
+/**
+ * Bind the UDP socket and set the default destination. If it is already
+ * open, only the destination changes unless a different listen port or
+ * host is asked for, in which case the socket is reopened.
+ */
+export async function openOsc(options: OscOptions = {}): Promise<OscStatus> {
+    const target = {
+        host: options.host ?? session?.target.host ?? DEFAULT_OSC_HOST,
+        port: validatePort(options.port ?? session?.target.port ?? DEFAULT_OSC_PORT, "port", 1),
+    };
+    const listenHost = options.listenHost ?? session?.listen.host ?? DEFAULT_OSC_HOST;
+    const listenPort = validatePort(options.listenPort ?? session?.listen.port ?? DEFAULT_OSC_LISTEN_PORT, "listen port");
+
+    if (session && session.listen.host === listenHost && session.listen.port === listenPort) {
+        session.target = target;
+        return getOscStatus()!;
+    }
+    await closeOsc();
+
+    const socket = dgram.createSocket("udp4");
+    await new Promise<void>((resolve, reject) => {
+        const fail = (error: Error) => {
+            socket.close();
+            reject(new Error(`Could not listen for OSC on ${listenHost}:${listenPort}: ${error.message}`));
+        };
+        socket.once("error", fail);
+        socket.bind(listenPort, listenHost, () => {
+            socket.off("error", fail);
+            resolve();
+        });
+    });
+
+    socket.on("message", (data, remote) => handlePacket(data, { host: remote.address, port: remote.port }));
+    socket.on("error", (error) => {
+        process.stderr.write(`[logic-pro-mcp] OSC socket error: ${error}\n`);
+    });
+    session = { socket, listen: { host: listenHost, port: socket.address().port }, target };
+    return getOscStatus()!;
+}
+
+/** Close the socket. Subscriptions and buffered messages are kept. */
+export function closeOsc(): Promise<void> {
+    const current = session;
+    session = null;
+    if (!current) return Promise.resolve();
+    return new Promise((resolve) => current.socket.close(() => resolve()));
+}
+
+export function getOscStatus(): OscStatus | undefined {
+    if (!session) return undefined;
+    return {
+        listen: { ...session.listen },
+        target: { ...session.target },
+        subscriptions: [...subscriptions],
+    };
+}
+
+/** Send a message or bundle, opening the socket with defaults if needed. */
+export async function sendOsc(packet: OscPacket, target?: Partial<OscEndpoint>): Promise<OscEndpoint> {
+    if (!session) await openOsc();
+    const current = session!;
+    const destination = {
+        host: target?.host ?? current.target.host,
+        port: validatePort(target?.port ?? current.target.port, "port", 1),
+    };
+    const data = encodeOsc(packet);
+    await new Promise<void>((resolve, reject) => {
+        current.socket.send(data, destination.port, destination.host, (error) => (error ? reject(error) : resolve()));
+    });
+    return destination;
+}
+
+/**
+ * Buffer incoming messages whose address matches an OSC pattern such as
+ * "/track/{mute,solo}". Messages that match no subscription are dropped.
+ */
+export function subscribeOsc(pattern: string): void {
+    if (!pattern.startsWith("/")) throw new Error(`OSC patterns start with "/"; got "${pattern}".`);
+    // Compile once so a malformed pattern fails here rather than on every message
+    matchOscAddress(pattern, "/");
+    subscriptions.add(pattern);
+}
+
+/** Remove one subscription, or all of them. Returns how many were removed. */
+export function unsubscribeOsc(pattern?: string): number {
+    if (pattern === undefined) {
+        const count = subscriptions.size;
+        subscriptions.clear();
+        return count;
+    }
+    return subscriptions.delete(pattern) ? 1 : 0;
+}
+
+/**
+ * Register a listener for every incoming message, subscribed or not.
+ * Returns a function that removes the listener again.
+ */
+export function onOscMessage(listener: OscListener): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+/** Buffered messages with an id greater than `sinceId`, oldest first. */
+export function getReceivedOscMessages(sinceId: number = 0): ReceivedOscMessage[] {
+    return receiveBuffer.filter((m) => m.id > sinceId);
+}
+
+export function clearReceivedOscMessages(): void {
+    receiveBuffer.length = 0;
+}
+
+function handlePacket(data: Buffer, from: OscEndpoint): void {
+    let packet: OscPacket;
+    try {
+        packet = decodeOsc(data);
+    } catch (error) {
+        process.stderr.write(`[logic-pro-mcp] Ignoring malformed OSC packet from ${from.host}:${from.port}: ${error}\n`);
+        return;
+    }
+
+    for (const { message, timetag } of flattenOsc(packet)) {
+        const received: ReceivedOscMessage = {
+            id: nextMessageId++,
+            time: performance.now(),
+            from,
+            address: message.address,
+            args: message.args,
+            ...(timetag !== undefined && { timetag }),
+        };
+
+        if ([...subscriptions].some((pattern) => matchOscAddress(pattern, message.address))) {
+            receiveBuffer.push(received);
+            if (receiveBuffer.length > RECEIVE_BUFFER_SIZE) {
+                receiveBuffer.splice(0, receiveBuffer.length - RECEIVE_BUFFER_SIZE);
+            }
+        }
+
+        for (const listener of listeners) {
+            try {
+                listener(received);
+            } catch (error) {
+                process.stderr.write(`[logic-pro-mcp] OSC listener failed: ${error}\n`);
+            }
+        }
+    }
+}
+
+function validatePort(port: number, label: string, min: number = 0): number {
+    if (!Number.isInteger(port) || port < min || port > 65535) {
+        throw new Error(`OSC ${label} must be ${min}-65535; got ${port}.`);
+    }
+    return port;
+}
@@ -0,0 +1,54 @@
+import {
+    onMidiMessage,
+    openMidiInput,
+    VIRTUAL_INPUT_PORT_NAME,
+} from "./midi-bridge.js";
+import {
+    describeTransport,
+    initialTransportState,
+    updateTransportState,
+    type TransportSnapshot,
+    type TransportState,
+} from "../midi/transport-state.js";
+
+interface TrackerSession {
+    port: string;
+    state: TransportState;
+    unsubscribe: () => void;
+}
+
+let session: TrackerSession | null = null;
+
+/**
+ * Follow the MIDI Clock, MTC and MMC that Logic sends to an input port.
+ * Returns the port name; restarting on another port resets the state.
+ */
+export function startTransportTracking(port: string = VIRTUAL_INPUT_PORT_NAME): string {
+    const opened = openMidiInput(port);
+    if (session?.port === opened) return opened;
+    stopTransportTracking();
+
+    const current: TrackerSession = {
+        port: opened,
+        state: initialTransportState(),
+        unsubscribe: () => {},
+    };
+    current.unsubscribe = onMidiMessage((message) => {
+        if (message.port === opened) {
+            current.state = updateTransportState(current.state, message.bytes, message.time);
+        }
+    });
+    session = current;
+    return opened;
+}
+
+export function stopTransportTracking(): void {
+    session?.unsubscribe();
+    session = null;
+}
+
+/** Current transport state, or undefined when tracking is not running. */
+export function getTransportSnapshot(): (TransportSnapshot & { port: string }) | undefined {
+    if (!session) return undefined;
+    return { ...describeTransport(session.state, performance.now()), port: session.port };
+}
@@ -7,13 +7,31 @@ import {
     ListToolsRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 
-import { openMidiPort, closeMidiPort } from "./bridges/midi-bridge.js";
+import {
+    openMidiPort,
+    closeMidiPort,
+    openMidiInput,
+    closeMidiInput,
+    sendPanic,
+    VIRTUAL_PORT_NAME,
+} from "./bridges/midi-bridge.js";
+import {
+    MCU_INPUT_PORT_NAME,
+    MCU_OUTPUT_PORT_NAME,
+    startMcu,
+    stopMcu,
+} from "./bridges/mcu-bridge.js";
+import { startTransportTracking, stopTransportTracking } from "./bridges/transport-tracker.js";
+import { closeOsc } from "./bridges/osc-bridge.js";
+import { closeAccessibilityHelper } from "./bridges/accessibility.js";
+import { stopAllJobs } from "./midi/jobs.js";
 import { transportTools } from "./tools/transport.js";
 import { trackTools } from "./tools/tracks.js";
 import { pluginTools } from "./tools/plugins.js";
 import { midiTools } from "./tools/midi.js";
 import { projectTools } from "./tools/project.js";
 import { mixerTools } from "./tools/mixer.js";
+import { oscTools } from "./tools/osc.js";
 
 const ALL_TOOLS = [
     ...transportTools,
@@ -22,6 +40,7 @@ const ALL_TOOLS = [
     ...midiTools,
     ...projectTools,
     ...mixerTools,
+    ...oscTools,
 ];
 
 const toolMap = new Map(ALL_TOOLS.map((t) => [t.name, t]));
@@ -69,23 +88,54 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 });
 
 async function main(): Promise<void> {
-    // Open virtual MIDI port
+    // Open the default virtual MIDI port plus any configured in LOGIC_PRO_MCP_PORTS
+    // (comma-separated, e.g. "MCP Keys,MCP Drums"); others are created on demand
+    const portNames = (process.env.LOGIC_PRO_MCP_PORTS ?? "")
+        .split(",")
+        .map((name) => name.trim())
+        .filter((name) => name.length > 0);
+    for (const name of [undefined, ...portNames]) {
+        try {
+            const opened = openMidiPort(name);
+            process.stderr.write(`[logic-pro-mcp] Virtual MIDI port opened: '${opened}'\n`);
+        } catch (error) {
+            process.stderr.write(
+                `[logic-pro-mcp] Warning: Could not open MIDI port '${name ?? VIRTUAL_PORT_NAME}': ${error}\n`,
+            );
+        }
+    }
+
+    // Open virtual MIDI input port (feedback from Logic Pro)
+    try {
+        openMidiInput();
+        process.stderr.write("[logic-pro-mcp] Virtual MIDI input opened: 'Logic Pro MCP In'\n");
+        // Follow the clock/MTC Logic sends there for transport_get_state
+        startTransportTracking();
+    } catch (error) {
+        process.stderr.write(
+            `[logic-pro-mcp] Warning: Could not open MIDI input: ${error}\n`,
+        );
+    }
+
+    // Mackie Control surface ports for the mixer and track tools
     try {
-        openMidiPort();
-        process.stderr.write("[logic-pro-mcp] Virtual MIDI port opened: 'Logic Pro MCP'\n");
+        startMcu();
+        process.stderr.write(
+            `[logic-pro-mcp] Mackie Control ports opened: '${MCU_OUTPUT_PORT_NAME}' / '${MCU_INPUT_PORT_NAME}'\n`,
+        );
     } catch (error) {
         process.stderr.write(
-            `[logic-pro-mcp] Warning: Could not open MIDI port: ${error}\n`,
+            `[logic-pro-mcp] Warning: Could not open Mackie Control ports: ${error}\n`,
         );
     }
 
     // Clean up on exit
     process.on("SIGINT", () => {
-        closeMidiPort();
+        shutdown();
         process.exit(0);
     });
     process.on("SIGTERM", () => {
-        closeMidiPort();
+        shutdown();
         process.exit(0);
     });
 
@@ -96,8 +146,24 @@ async function main(): Promise<void> {
     );
 }
 
+/** Stop playback and silence every channel so no notes are left stuck. */
+function shutdown(): void {
+    stopAllJobs();
+    try {
+        sendPanic();
+    } catch {
+        // Ports are going away anyway
+    }
+    stopTransportTracking();
+    stopMcu();
+    void closeOsc();
+    closeAccessibilityHelper();
+    closeMidiInput();
+    closeMidiPort();
+}
+
 main().catch((error) => {
     process.stderr.write(`[logic-pro-mcp] Fatal error: ${error}\n`);
-    closeMidiPort();
+    shutdown();
     process.exit(1);
 });
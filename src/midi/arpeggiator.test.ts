@@ -0,0 +1,54 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { arpeggiate, arpeggioSequence } from "./arpeggiator.js";
+
+const C_MAJOR = [64, 60, 67];
+
+describe("arpeggioSequence", () => {
+    it("orders notes for each mode", () => {
+        assert.deepEqual(arpeggioSequence(C_MAJOR, "up"), [60, 64, 67]);
+        assert.deepEqual(arpeggioSequence(C_MAJOR, "down"), [67, 64, 60]);
+        assert.deepEqual(arpeggioSequence(C_MAJOR, "upDown"), [60, 64, 67, 64]);
+        assert.deepEqual(arpeggioSequence(C_MAJOR, "asPlayed"), [64, 60, 67]);
+    });
+
+    it("spans several octaves", () => {
+        assert.deepEqual(arpeggioSequence(C_MAJOR, "up", 2), [60, 64, 67, 72, 76, 79]);
+        assert.deepEqual(arpeggioSequence(C_MAJOR, "asPlayed", 2), [64, 60, 67, 76, 72, 79]);
+        assert.throws(() => arpeggioSequence([120], "up", 2), /outside the MIDI range/);
+    });
+
+    it("picks random notes from the chord", () => {
+        const sequence = arpeggioSequence(C_MAJOR, "random", 1, () => 0.99);
+        assert.deepEqual(sequence, [67, 67, 67]);
+    });
+});
+
+describe("arpeggiate", () => {
+    it("places notes at the rate with the gate length", () => {
+        const notes = arpeggiate(C_MAJOR, { rate: 0.5, gate: 0.5, repeats: 2, velocity: 90, channel: 2 });
+        assert.deepEqual(
+            notes.map((n) => [n.note, n.start, n.duration]),
+            [
+                [60, 0, 0.25],
+                [64, 0.5, 0.25],
+                [67, 1, 0.25],
+                [60, 1.5, 0.25],
+                [64, 2, 0.25],
+                [67, 2.5, 0.25],
+            ],
+        );
+        assert.ok(notes.every((n) => n.velocity === 90 && n.channel === 2));
+    });
+
+    it("reproduces random arpeggios with a seed", () => {
+        const a = arpeggiate(C_MAJOR, { mode: "random", repeats: 4, seed: 3 });
+        assert.deepEqual(a, arpeggiate(C_MAJOR, { mode: "random", repeats: 4, seed: 3 }));
+    });
+
+    it("validates its options", () => {
+        assert.throws(() => arpeggiate([], {}), /at least one note/);
+        assert.throws(() => arpeggiate(C_MAJOR, { repeats: 0 }), /repeats/);
+        assert.throws(() => arpeggiate(C_MAJOR, { rate: 0 }), /rate/);
+    });
+});
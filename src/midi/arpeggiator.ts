@@ -0,0 +1,90 @@
+/**
+ * Arpeggiator: turns a chord into a stream of beat-positioned notes.
+ */
+
+import { createRandom } from "./random.js";
+import { roundBeats, type TimedNote } from "./timeline.js";
+
+export type ArpeggioMode = "up" | "down" | "upDown" | "random" | "asPlayed";
+
+export const ARPEGGIO_MODES: ArpeggioMode[] = ["up", "down", "upDown", "random", "asPlayed"];
+
+export interface ArpeggioOptions {
+    /** Default: "up" */
+    mode?: ArpeggioMode;
+    /** Octaves the pattern spans, each an octave above the last. Default: 1 */
+    octaves?: number;
+    /** Beats between notes. Default: 0.25 */
+    rate?: number;
+    /** Note length as a fraction of the rate. Default: 0.8 */
+    gate?: number;
+    /** How many times the whole pattern plays. Default: 1 */
+    repeats?: number;
+    /** Default: 100 */
+    velocity?: number;
+    /** Default: 0 */
+    channel?: number;
+    /** Seed for the random mode */
+    seed?: number;
+}
+
+/** The note order of one pass through the pattern. */
+export function arpeggioSequence(
+    notes: number[],
+    mode: ArpeggioMode,
+    octaves: number = 1,
+    random: () => number = Math.random,
+): number[] {
+    if (notes.length === 0) throw new Error("Arpeggiator needs at least one note.");
+    if (!Number.isInteger(octaves) || octaves < 1) throw new Error("octaves must be a positive integer.");
+
+    const played: number[] = [];
+    for (let octave = 0; octave < octaves; octave++) {
+        for (const note of notes) played.push(note + octave * 12);
+    }
+    const outOfRange = played.find((n) => n < 0 || n > 127);
+    if (outOfRange !== undefined) {
+        throw new Error(`Arpeggio note ${outOfRange} is outside the MIDI range 0-127. Use fewer octaves.`);
+    }
+
+    const ascending = [...new Set(played)].sort((a, b) => a - b);
+    switch (mode) {
+        case "up":
+            return ascending;
+        case "down":
+            return [...ascending].reverse();
+        case "upDown":
+            // Top and bottom notes are not repeated at the turnarounds
+            return [...ascending, ...ascending.slice(1, -1).reverse()];
+        case "random":
+            return ascending.map(() => ascending[Math.floor(random() * ascending.length)]);
+        case "asPlayed":
+            return played;
+    }
+}
+
+/** Lay the arpeggio out on the beat grid, `repeats` times over. */
+export function arpeggiate(notes: number[], options: ArpeggioOptions = {}): TimedNote[] {
+    const rate = options.rate ?? 0.25;
+    const gate = options.gate ?? 0.8;
+    const repeats = options.repeats ?? 1;
+    if (!(rate > 0)) throw new Error("rate must be positive.");
+    if (!(gate > 0)) throw new Error("gate must be positive.");
+    if (!Number.isInteger(repeats) || repeats < 1) throw new Error("repeats must be a positive integer.");
+
+    const random = createRandom(options.seed);
+    const result: TimedNote[] = [];
+    for (let pass = 0; pass < repeats; pass++) {
+        // Random mode draws a fresh order on every pass
+        for (const note of arpeggioSequence(notes, options.mode ?? "up", options.octaves, random)) {
+            result.push({
+                note,
+                velocity: options.velocity ?? 100,
+                channel: options.channel ?? 0,
+                start: roundBeats(result.length * rate),
+                duration: roundBeats(rate * gate),
+            });
+        }
+    }
+    return result;
+}
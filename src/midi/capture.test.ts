@@ -0,0 +1,64 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { collectCapture } from "./capture.js";
+
+// At 120 BPM one beat is 500ms
+const BPM = 120;
+
+describe("collectCapture", () => {
+    it("pairs note on with note off in beats", () => {
+        const result = collectCapture(
+            [
+                { time: 1000, bytes: [0x90, 60, 100] },
+                { time: 1500, bytes: [0x80, 60, 0] },
+                { time: 1500, bytes: [0x90, 62, 90] },
+                { time: 1750, bytes: [0x90, 62, 0] },
+            ],
+            { startTime: 1000, endTime: 3000, bpm: BPM },
+        );
+
+        assert.deepEqual(result.notes, [
+            { note: 60, velocity: 100, channel: 0, start: 0, duration: 1 },
+            { note: 62, velocity: 90, channel: 0, start: 1, duration: 0.5 },
+        ]);
+        assert.equal(result.length, 4);
+    });
+
+    it("closes held notes at the end of the capture", () => {
+        const result = collectCapture(
+            [{ time: 500, bytes: [0x91, 48, 80] }],
+            { startTime: 0, endTime: 1500, bpm: BPM },
+        );
+
+        assert.deepEqual(result.notes, [
+            { note: 48, velocity: 80, channel: 1, start: 1, duration: 2 },
+        ]);
+    });
+
+    it("records CC events and filters by channel", () => {
+        const result = collectCapture(
+            [
+                { time: 250, bytes: [0xb0, 64, 127] },
+                { time: 250, bytes: [0xb2, 1, 40] },
+                { time: 300, bytes: [0x92, 60, 100] },
+            ],
+            { startTime: 0, endTime: 1000, bpm: BPM, channels: [0] },
+        );
+
+        assert.deepEqual(result.controllers, [
+            { controller: 64, value: 127, channel: 0, time: 0.5 },
+        ]);
+        assert.equal(result.notes.length, 0);
+    });
+
+    it("ignores messages outside the capture window", () => {
+        const result = collectCapture(
+            [
+                { time: 100, bytes: [0x90, 60, 100] },
+                { time: 200, bytes: [0x80, 60, 0] },
+            ],
+            { startTime: 1000, endTime: 2000, bpm: BPM },
+        );
+        assert.equal(result.notes.length, 0);
+    });
+});
@@ -0,0 +1,94 @@
+import { decodeMidiMessage } from "./messages.js";
+import {
+    roundBeats,
+    type TimedController,
+    type TimedNote,
+} from "./timeline.js";
+
+export interface CapturedMessage {
+    /** Arrival time in ms on the same clock as `startTime`/`endTime` */
+    time: number;
+    bytes: number[];
+}
+
+export interface CaptureOptions {
+    startTime: number;
+    endTime: number;
+    bpm: number;
+    /** Only keep messages on these channels (0-15). Default: all */
+    channels?: number[];
+}
+
+export interface CaptureResult {
+    notes: TimedNote[];
+    controllers: TimedController[];
+    /** Length of the capture in beats */
+    length: number;
+}
+
+/**
+ * Turn a stream of timestamped MIDI messages into notes and controller
+ * events with beat-relative timing. Note-ons are paired with the next
+ * note-off for the same channel/note; notes still held when the capture
+ * ends are closed at `endTime`.
+ */
+export function collectCapture(
+    messages: CapturedMessage[],
+    options: CaptureOptions,
+): CaptureResult {
+    const beatMs = 60_000 / options.bpm;
+    const toBeats = (time: number) => (time - options.startTime) / beatMs;
+    const pending = new Map<string, { time: number; velocity: number }[]>();
+    const notes: TimedNote[] = [];
+    const controllers: TimedController[] = [];
+
+    const closeNote = (channel: number, note: number, offTime: number) => {
+        const held = pending.get(`${channel}:${note}`);
+        const on = held?.shift();
+        if (!on) return;
+        notes.push({
+            note,
+            velocity: on.velocity,
+            channel,
+            start: roundBeats(toBeats(on.time)),
+            duration: roundBeats((offTime - on.time) / beatMs),
+        });
+    };
+
+    for (const message of messages) {
+        if (message.time < options.startTime || message.time > options.endTime) continue;
+
+        const decoded = decodeMidiMessage(message.bytes);
+        if (decoded.channel === undefined) continue;
+        if (options.channels && !options.channels.includes(decoded.channel)) continue;
+
+        if (decoded.type === "noteOn") {
+            const key = `${decoded.channel}:${decoded.note}`;
+            const held = pending.get(key) ?? [];
+            held.push({ time: message.time, velocity: decoded.velocity! });
+            pending.set(key, held);
+        } else if (decoded.type === "noteOff") {
+            closeNote(decoded.channel, decoded.note!, message.time);
+        } else if (decoded.type === "controlChange") {
+            controllers.push({
+                controller: decoded.controller!,
+                value: decoded.value!,
+                channel: decoded.channel,
+                time: roundBeats(toBeats(message.time)),
+            });
+        }
+    }
+
+    for (const [key, held] of pending) {
+        const [channel, note] = key.split(":").map(Number);
+        while (held.length > 0) closeNote(channel, note, options.endTime);
+    }
+
+    notes.sort((a, b) => a.start - b.start || a.note - b.note);
+
+    return {
+        notes,
+        controllers,
+        length: roundBeats(toBeats(options.endTime)),
+    };
+}
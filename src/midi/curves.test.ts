@@ -0,0 +1,93 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseSyncedRate, renderLfo, renderRamp } from "./curves.js";
+
+describe("renderRamp", () => {
+    it("renders a linear ramp and drops repeated values", () => {
+        const points = renderRamp({ shape: "linear", from: 0, to: 10, duration: 100, interval: 5 });
+        assert.deepEqual(points.map((p) => p.value), [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+        assert.equal(points[0].time, 0);
+        assert.ok(points[points.length - 1].time <= 100);
+    });
+
+    it("rises slowly at first on an exponential ramp", () => {
+        const points = renderRamp({ shape: "exponential", from: 0, to: 127, duration: 1000 });
+        const halfway = points.filter((p) => p.time <= 500).pop()!;
+        assert.ok(halfway.value < 20, `value at half time was ${halfway.value}`);
+        assert.equal(points[points.length - 1].value, 127);
+    });
+
+    it("is symmetric on an s-curve and can ramp down", () => {
+        const points = renderRamp({ shape: "scurve", from: 100, to: 0, duration: 1000 });
+        const halfway = points.find((p) => p.time >= 500)!;
+        assert.equal(halfway.value, 50);
+        assert.equal(points[points.length - 1].value, 0);
+    });
+
+    it("holds values on a stepped ramp", () => {
+        const points = renderRamp({ shape: "stepped", from: 0, to: 90, duration: 400, steps: 4 });
+        assert.deepEqual(points, [
+            { time: 0, value: 0 },
+            { time: 100, value: 30 },
+            { time: 200, value: 60 },
+            { time: 300, value: 90 },
+        ]);
+        assert.throws(() => renderRamp({ shape: "stepped", from: 0, to: 1, duration: 10, steps: 1 }));
+    });
+
+    it("rejects invalid durations and intervals", () => {
+        assert.throws(() => renderRamp({ shape: "linear", from: 0, to: 1, duration: 0 }), /duration/);
+        assert.throws(
+            () => renderRamp({ shape: "linear", from: 0, to: 1, duration: 10, interval: 0 }),
+            /interval/,
+        );
+        assert.throws(
+            () => renderRamp({ shape: "linear", from: 0, to: 127, duration: 3_600_000, interval: 1 }),
+            /needs 3600000 values; the limit is 100000/,
+        );
+    });
+});
+
+describe("renderLfo", () => {
+    it("swings a sine between min and max once per cycle", () => {
+        const points = renderLfo({ shape: "sine", min: 0, max: 100, duration: 1000, cycle: 1000 });
+        const at = (time: number) => points.filter((p) => p.time <= time).pop()!.value;
+        assert.equal(at(0), 50);
+        assert.equal(at(250), 100);
+        assert.equal(at(750), 0);
+    });
+
+    it("starts a triangle at center and a square at the top", () => {
+        const triangle = renderLfo({ shape: "triangle", min: 0, max: 100, duration: 100, cycle: 100 });
+        assert.equal(triangle[0].value, 50);
+        const square = renderLfo({ shape: "square", min: 20, max: 80, duration: 200, cycle: 100 });
+        assert.deepEqual(square.map((p) => [p.time, p.value]), [
+            [0, 80],
+            [50, 20],
+            [100, 80],
+            [150, 20],
+            [200, 80],
+        ]);
+    });
+
+    it("holds one seeded random value per cycle", () => {
+        const options = { shape: "sampleHold" as const, min: 0, max: 127, duration: 390, cycle: 100, seed: 7 };
+        const points = renderLfo(options);
+        assert.ok(points.length <= 4);
+        assert.ok(points.every((p) => p.time % 100 === 0));
+        assert.deepEqual(renderLfo(options), points);
+    });
+});
+
+describe("parseSyncedRate", () => {
+    it("converts note values, bars and beats to beats per cycle", () => {
+        assert.equal(parseSyncedRate("1/4"), 1);
+        assert.equal(parseSyncedRate("1/8"), 0.5);
+        assert.equal(parseSyncedRate("1/8T"), 1 / 3);
+        assert.equal(parseSyncedRate("1/8."), 0.75);
+        assert.equal(parseSyncedRate("1 bar"), 4);
+        assert.equal(parseSyncedRate("2 bars", 3), 6);
+        assert.equal(parseSyncedRate("3 beats"), 3);
+        assert.throws(() => parseSyncedRate("fast"), /Invalid LFO rate/);
+    });
+});
@@ -0,0 +1,163 @@
+/**
+ * Controller curves: ramps and LFOs rendered into rate-limited value
+ * streams. Times are in milliseconds; values are integers between the
+ * curve's bounds. Consecutive duplicate values are dropped so a slow sweep
+ * sends only as many messages as it needs.
+ */
+
+import { createRandom } from "./random.js";
+
+export type RampShape = "linear" | "exponential" | "scurve" | "stepped";
+export type LfoShape = "sine" | "triangle" | "square" | "sampleHold";
+export type CurveShape = RampShape | LfoShape;
+
+export const RAMP_SHAPES: RampShape[] = ["linear", "exponential", "scurve", "stepped"];
+export const LFO_SHAPES: LfoShape[] = ["sine", "triangle", "square", "sampleHold"];
+
+export interface CurvePoint {
+    /** Milliseconds from the start of the curve */
+    time: number;
+    value: number;
+}
+
+export interface RampOptions {
+    shape: RampShape;
+    from: number;
+    to: number;
+    /** Length in ms */
+    duration: number;
+    /** Number of steps for the stepped shape. Default: 4 */
+    steps?: number;
+    /** Minimum ms between values. Default: 10 */
+    interval?: number;
+}
+
+export interface LfoOptions {
+    shape: LfoShape;
+    /** Value at the bottom of the wave */
+    min: number;
+    /** Value at the top of the wave */
+    max: number;
+    /** Length in ms */
+    duration: number;
+    /** Length of one cycle in ms */
+    cycle: number;
+    /** Start phase, 0-1. Default: 0 */
+    phase?: number;
+    /** Seed for sample-and-hold values */
+    seed?: number;
+    /** Minimum ms between values. Default: 10 */
+    interval?: number;
+}
+
+const DEFAULT_INTERVAL = 10;
+// Sampling runs on the server's event loop: 100k steps is over 16 minutes at 10 ms
+const MAX_STEPS = 100_000;
+// Steepness of the exponential ramp; e^4 gives a natural-sounding swell
+const EXPONENTIAL_CURVATURE = 4;
+
+export function isRampShape(shape: string): shape is RampShape {
+    return (RAMP_SHAPES as string[]).includes(shape);
+}
+
+export function renderRamp(options: RampOptions): CurvePoint[] {
+    const steps = options.steps ?? 4;
+    if (options.shape === "stepped" && (!Number.isInteger(steps) || steps < 2)) {
+        throw new Error("Stepped ramps need at least 2 steps.");
+    }
+    const points = sample(options.duration, options.interval, (t) => {
+        const progress = rampProgress(options.shape, t / options.duration, steps);
+        return options.from + (options.to - options.from) * progress;
+    });
+    // Always land exactly on the target
+    const last = points[points.length - 1];
+    if (last.value !== options.to) points.push({ time: options.duration, value: options.to });
+    return points;
+}
+
+export function renderLfo(options: LfoOptions): CurvePoint[] {
+    if (options.cycle <= 0) throw new Error("LFO cycle length must be positive.");
+    const random = createRandom(options.seed);
+    const held: number[] = [];
+    const phase = options.phase ?? 0;
+
+    return sample(options.duration, options.interval, (t) => {
+        const position = t / options.cycle + phase;
+        const p = position - Math.floor(position);
+        let unit: number;
+        switch (options.shape) {
+            case "sine":
+                unit = 0.5 + 0.5 * Math.sin(2 * Math.PI * p);
+                break;
+            case "triangle":
+                unit = 1 - Math.abs(((p + 0.25) % 1) * 2 - 1);
+                break;
+            case "square":
+                unit = p < 0.5 ? 1 : 0;
+                break;
+            case "sampleHold": {
+                const cycleIndex = Math.floor(position);
+                while (held.length <= cycleIndex) held.push(random());
+                unit = held[cycleIndex];
+                break;
+            }
+        }
+        return options.min + (options.max - options.min) * unit;
+    });
+}
+
+/**
+ * Parse a tempo-synced rate into beats per cycle: note values ("1/4",
+ * "1/8T" triplet, "1/8." dotted), "2 beats" or "1 bar".
+ */
+export function parseSyncedRate(rate: string, beatsPerBar: number = 4): number {
+    const text = rate.trim().toLowerCase();
+    const note = text.match(/^(\d+)\/(\d+)(t|\.)?$/);
+    if (note) {
+        const beats = (4 * Number(note[1])) / Number(note[2]);
+        if (note[3] === "t") return (beats * 2) / 3;
+        if (note[3] === ".") return beats * 1.5;
+        return beats;
+    }
+    const count = text.match(/^(\d+(?:\.\d+)?)\s*(bars?|beats?)$/);
+    if (count) {
+        return Number(count[1]) * (count[2].startsWith("bar") ? beatsPerBar : 1);
+    }
+    throw new Error(`Invalid LFO rate "${rate}". Use a note value ("1/4", "1/8T", "1/8."), "2 beats", "1 bar" or a rate in Hz.`);
+}
+
+function rampProgress(shape: RampShape, t: number, steps: number): number {
+    switch (shape) {
+        case "linear":
+            return t;
+        case "exponential":
+            return (Math.exp(EXPONENTIAL_CURVATURE * t) - 1) / (Math.exp(EXPONENTIAL_CURVATURE) - 1);
+        case "scurve":
+            return 0.5 - 0.5 * Math.cos(Math.PI * t);
+        case "stepped":
+            return Math.min(1, Math.floor(t * steps) / (steps - 1));
+    }
+}
+
+function sample(
+    duration: number,
+    interval: number = DEFAULT_INTERVAL,
+    valueAt: (t: number) => number,
+): CurvePoint[] {
+    if (!(duration > 0)) throw new Error("Curve duration must be positive.");
+    if (!(interval >= 1)) throw new Error("Curve interval must be at least 1 ms.");
+    if (duration / interval > MAX_STEPS) {
+        throw new Error(
+            `A ${duration} ms curve at ${interval} ms steps needs ${Math.ceil(duration / interval)} values; the limit is ${MAX_STEPS}. Use a larger interval or a shorter curve.`,
+        );
+    }
+
+    const points: CurvePoint[] = [];
+    for (let time = 0; time <= duration; time += interval) {
+        const value = Math.round(valueAt(time));
+        if (points.length === 0 || points[points.length - 1].value !== value) {
+            points.push({ time: Math.round(time * 1000) / 1000, value });
+        }
+    }
+    return points;
+}
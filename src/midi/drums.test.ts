@@ -0,0 +1,78 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { compileDrumPattern, parseDrumGrid, resolveDrumNote } from "./drums.js";
+
+describe("resolveDrumNote", () => {
+    it("maps GM drum names and aliases", () => {
+        assert.equal(resolveDrumNote("kick"), 36);
+        assert.equal(resolveDrumNote("Snare"), 38);
+        assert.equal(resolveDrumNote("open-hat"), 46);
+        assert.equal(resolveDrumNote("hh"), 42);
+    });
+
+    it("prefers overrides and falls back to notes", () => {
+        assert.equal(resolveDrumNote("kick", { Kick: 35 }), 35);
+        assert.equal(resolveDrumNote("perc", { perc: "C#3" }), 61);
+        assert.equal(resolveDrumNote("40"), 40);
+        assert.throws(() => resolveDrumNote("blorp"), /Unknown drum lane/);
+    });
+});
+
+describe("parseDrumGrid", () => {
+    it("reads lanes, accents, ghosts and velocity digits", () => {
+        const lanes = parseDrumGrid("kick: x...|X...\n# comment\nsnare: o.9.", {
+            velocities: { normal: 90 },
+        });
+        assert.deepEqual(lanes, [
+            { name: "kick", note: 36, steps: [90, 0, 0, 0, 127, 0, 0, 0] },
+            { name: "snare", note: 38, steps: [50, 0, 127, 0] },
+        ]);
+    });
+
+    it("rejects unnamed lanes and unknown step characters", () => {
+        assert.throws(() => parseDrumGrid("x...x..."), /needs a name/);
+        assert.throws(() => parseDrumGrid("kick: x.?."), /Invalid step "\?"/);
+        assert.throws(() => parseDrumGrid("  \n"), /empty/);
+    });
+});
+
+describe("compileDrumPattern", () => {
+    it("places sixteenth steps on the beat grid on GM channel 10", () => {
+        const { notes, bars, length } = compileDrumPattern(
+            parseDrumGrid(["kick: x...x...x...x...", "snare: ....x.......x..."]),
+        );
+        assert.equal(bars, 1);
+        assert.equal(length, 4);
+        assert.deepEqual(
+            notes.map((n) => [n.note, n.start]),
+            [[36, 0], [36, 1], [38, 1], [36, 2], [36, 3], [38, 3]],
+        );
+        assert.ok(notes.every((n) => n.channel === 9 && n.duration === 0.25));
+    });
+
+    it("loops short lanes and repeats the grid to fill bars", () => {
+        const { notes } = compileDrumPattern(
+            parseDrumGrid(["hihat: x.", "kick: x..............."]),
+            { bars: 2, stepsPerBar: 16 },
+        );
+        assert.equal(notes.filter((n) => n.note === 42).length, 16);
+        assert.deepEqual(
+            notes.filter((n) => n.note === 36).map((n) => n.start),
+            [0, 4],
+        );
+    });
+
+    it("delays offbeat steps by the swing amount", () => {
+        const { notes } = compileDrumPattern(parseDrumGrid("hihat: xxxx"), {
+            stepsPerBar: 4,
+            beatsPerBar: 2,
+            swing: 75,
+        });
+        // Steps are half a beat; 75% swing moves offbeats a quarter beat later
+        assert.deepEqual(
+            notes.map((n) => [n.start, n.duration]),
+            [[0, 0.5], [0.75, 0.25], [1, 0.5], [1.75, 0.25]],
+        );
+        assert.throws(() => compileDrumPattern([], { swing: 80 }), /swing/);
+    });
+});
@@ -0,0 +1,213 @@
+/**
+ * Drum grid DSL: one lane per line, one character per step.
+ *
+ *   kick:  x...x...x...x...
+ *   snare: ....X.......X..o
+ *   hihat: x.x.x.x.x.x.x.x.
+ *
+ * `x` is a normal hit, `X` an accent, `o` a ghost note and `1`-`9` an
+ * explicit velocity level; `.` and `-` are rests, `|` and spaces are
+ * ignored so bars can be separated visually. Lane names resolve through
+ * the General MIDI / Logic Drum Kit map, or can be note numbers/names.
+ */
+
+import { parseNote, type NoteValue } from "./note-names.js";
+import { roundBeats, type TimedNote } from "./timeline.js";
+
+/** General MIDI percussion map, which Logic's Drum Kits and Drum Machine Designer follow. */
+export const GM_DRUM_MAP: Record<string, number> = {
+    kick: 36,
+    bd: 36,
+    kick2: 35,
+    rim: 37,
+    sidestick: 37,
+    snare: 38,
+    sd: 38,
+    clap: 39,
+    snare2: 40,
+    lowtom: 41,
+    floortom: 41,
+    hihat: 42,
+    hh: 42,
+    chh: 42,
+    tom3: 43,
+    pedalhat: 44,
+    phh: 44,
+    tom2: 45,
+    openhat: 46,
+    ohh: 46,
+    midtom: 47,
+    tom1: 48,
+    hitom: 50,
+    crash: 49,
+    ride: 51,
+    china: 52,
+    ridebell: 53,
+    tambourine: 54,
+    tamb: 54,
+    splash: 55,
+    cowbell: 56,
+    crash2: 57,
+    vibraslap: 58,
+    ride2: 59,
+    hibongo: 60,
+    lobongo: 61,
+    conga: 63,
+    timbale: 65,
+    agogo: 67,
+    cabasa: 69,
+    shaker: 70,
+    maracas: 70,
+    claves: 75,
+    woodblock: 76,
+    triangle: 81,
+};
+
+export interface DrumVelocities {
+    /** Velocity of `x`. Default: 100 */
+    normal?: number;
+    /** Velocity of `X`. Default: 127 */
+    accent?: number;
+    /** Velocity of `o`. Default: 50 */
+    ghost?: number;
+}
+
+export interface DrumLane {
+    name: string;
+    note: number;
+    /** Velocity per step, 0 for a rest */
+    steps: number[];
+}
+
+export interface DrumPatternOptions {
+    /** Steps in one bar. Default: 16 */
+    stepsPerBar?: number;
+    /** Beats in one bar. Default: 4 */
+    beatsPerBar?: number;
+    /** Total bars; the grid repeats to fill them. Default: the grid's own length */
+    bars?: number;
+    /**
+     * Swing in percent, 50 (straight) to 75: where the second step of each
+     * pair lands within the pair. 66.7 is a triplet feel.
+     */
+    swing?: number;
+    /** MIDI channel, 0-15. Default: 9 (GM drums, channel 10) */
+    channel?: number;
+}
+
+const DEFAULT_VELOCITIES: Required<DrumVelocities> = { normal: 100, accent: 127, ghost: 50 };
+
+/** Resolve a lane name through the drum map, falling back to a note number or name. */
+export function resolveDrumNote(
+    name: string,
+    overrides: Record<string, NoteValue> = {},
+): number {
+    const key = normalizeLaneName(name);
+    for (const [lane, note] of Object.entries(overrides)) {
+        if (normalizeLaneName(lane) === key) return parseNote(note);
+    }
+    if (key in GM_DRUM_MAP) return GM_DRUM_MAP[key];
+    try {
+        return parseNote(name);
+    } catch {
+        throw new Error(
+            `Unknown drum lane "${name}". Use a drum name (kick, snare, hihat, openhat, clap, ride, crash, ...), a note, or add it to the drum map.`,
+        );
+    }
+}
+
+/** Parse a grid into lanes. Lines may be given as one string or an array. */
+export function parseDrumGrid(
+    grid: string | string[],
+    options: { map?: Record<string, NoteValue>; velocities?: DrumVelocities } = {},
+): DrumLane[] {
+    const velocities = { ...DEFAULT_VELOCITIES, ...options.velocities };
+    const lines = (Array.isArray(grid) ? grid : grid.split("\n"))
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0 && !line.startsWith("#"));
+    if (lines.length === 0) throw new Error("Drum pattern is empty.");
+
+    return lines.map((line) => {
+        const colon = line.indexOf(":");
+        if (colon <= 0) {
+            throw new Error(`Drum lane "${line}" needs a name, e.g. "kick: x...x...".`);
+        }
+        const name = line.slice(0, colon).trim();
+        const cells = line.slice(colon + 1).replace(/[\s|]/g, "");
+        if (cells.length === 0) throw new Error(`Drum lane "${name}" has no steps.`);
+
+        const steps = [...cells].map((cell) => stepVelocity(cell, velocities, name));
+        return { name, note: resolveDrumNote(name, options.map), steps };
+    });
+}
+
+/**
+ * Lay lanes out on the beat grid. Step length is beatsPerBar / stepsPerBar;
+ * shorter lanes loop to the length of the longest one, and the whole
+ * pattern repeats to fill `bars`.
+ */
+export function compileDrumPattern(
+    lanes: DrumLane[],
+    options: DrumPatternOptions = {},
+): { notes: TimedNote[]; bars: number; length: number } {
+    const stepsPerBar = options.stepsPerBar ?? 16;
+    const beatsPerBar = options.beatsPerBar ?? 4;
+    const swing = options.swing ?? 50;
+    const channel = options.channel ?? 9;
+    if (!Number.isInteger(stepsPerBar) || stepsPerBar < 1) {
+        throw new Error("stepsPerBar must be a positive integer.");
+    }
+    if (swing < 50 || swing > 75) {
+        throw new Error("swing must be between 50 (straight) and 75 percent.");
+    }
+
+    const stepLength = beatsPerBar / stepsPerBar;
+    const gridSteps = Math.max(...lanes.map((lane) => lane.steps.length));
+    const bars = options.bars ?? Math.ceil(gridSteps / stepsPerBar);
+    const totalSteps = bars * stepsPerBar;
+    // Offbeat steps move from the middle of their pair towards its end
+    const swingOffset = ((swing - 50) / 50) * stepLength;
+
+    const notes: TimedNote[] = [];
+    for (const lane of lanes) {
+        for (let step = 0; step < totalSteps; step++) {
+            const velocity = lane.steps[step % lane.steps.length];
+            if (velocity === 0) continue;
+            const offbeat = step % 2 === 1;
+            notes.push({
+                note: lane.note,
+                velocity,
+                channel,
+                start: roundBeats(step * stepLength + (offbeat ? swingOffset : 0)),
+                duration: roundBeats(offbeat ? stepLength - swingOffset : stepLength),
+            });
+        }
+    }
+    notes.sort((a, b) => a.start - b.start || a.note - b.note);
+
+    return { notes, bars, length: bars * beatsPerBar };
+}
+
+function stepVelocity(cell: string, velocities: Required<DrumVelocities>, lane: string): number {
+    switch (cell) {
+        case ".":
+        case "-":
+        case "_":
+            return 0;
+        case "x":
+            return velocities.normal;
+        case "X":
+            return velocities.accent;
+        case "o":
+        case "g":
+            return velocities.ghost;
+    }
+    if (/^[1-9]$/.test(cell)) return Math.round((Number(cell) * 127) / 9);
+    throw new Error(
+        `Invalid step "${cell}" in drum lane "${lane}". Use x (hit), X (accent), o (ghost), 1-9 (velocity level) or . (rest).`,
+    );
+}
+
+function normalizeLaneName(name: string): string {
+    return name.toLowerCase().replace(/[\s_-]/g, "");
+}
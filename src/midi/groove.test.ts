@@ -0,0 +1,86 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+    applyGroove,
+    humanize,
+    legato,
+    quantize,
+    scaleLength,
+    shapeVelocity,
+    swing,
+    transpose,
+} from "./groove.js";
+import type { TimedNote } from "./timeline.js";
+
+function notesAt(...starts: number[]): TimedNote[] {
+    return starts.map((start) => ({ note: 60, velocity: 100, channel: 0, start, duration: 0.25 }));
+}
+
+describe("quantize", () => {
+    it("snaps starts to the grid", () => {
+        assert.deepEqual(
+            quantize(notesAt(0.1, 0.3, 0.62), 0.25).map((n) => n.start),
+            [0, 0.25, 0.5],
+        );
+    });
+
+    it("moves part of the way with a strength below 1", () => {
+        assert.deepEqual(quantize(notesAt(0.1), 0.25, 0.5).map((n) => n.start), [0.05]);
+        assert.throws(() => quantize(notesAt(0), 0.25, 2), /strength/);
+    });
+});
+
+describe("swing", () => {
+    it("delays offbeat sixteenths and leaves downbeats alone", () => {
+        assert.deepEqual(
+            swing(notesAt(0, 0.25, 0.5, 0.75), 66, 0.25).map((n) => n.start),
+            [0, 0.33, 0.5, 0.83],
+        );
+    });
+
+    it("stretches positions between grid lines without reordering", () => {
+        const starts = swing(notesAt(0.125, 0.375), 75, 0.25).map((n) => n.start);
+        assert.deepEqual(starts, [0.188, 0.438]);
+        assert.throws(() => swing(notesAt(0), 80, 0.25), /Swing/);
+    });
+});
+
+describe("humanize", () => {
+    it("is reproducible with a seed and stays within range", () => {
+        const notes = notesAt(1, 2, 3, 4);
+        const a = humanize(notes, { timing: 0.05, velocity: 10, seed: 42 });
+        const b = humanize(notes, { timing: 0.05, velocity: 10, seed: 42 });
+        assert.deepEqual(a, b);
+        a.forEach((n, i) => {
+            assert.ok(Math.abs(n.start - notes[i].start) <= 0.05);
+            assert.ok(Math.abs(n.velocity - 100) <= 10);
+        });
+        assert.notDeepEqual(a, humanize(notes, { timing: 0.05, velocity: 10, seed: 43 }));
+    });
+});
+
+describe("velocity, pitch and length", () => {
+    it("compresses and expands velocities around 64", () => {
+        const notes = [40, 64, 120].map((velocity, i) => ({ ...notesAt(i)[0], velocity }));
+        assert.deepEqual(shapeVelocity(notes, 0.5).map((n) => n.velocity), [52, 64, 92]);
+        assert.deepEqual(shapeVelocity(notes, 2).map((n) => n.velocity), [16, 64, 127]);
+        assert.deepEqual(shapeVelocity(notes, 1, -50).map((n) => n.velocity), [1, 14, 70]);
+    });
+
+    it("transposes within the MIDI range", () => {
+        assert.equal(transpose(notesAt(0), -12)[0].note, 48);
+        assert.throws(() => transpose(notesAt(0), 70), /MIDI range/);
+    });
+
+    it("scales lengths and extends notes to the next start", () => {
+        assert.equal(scaleLength(notesAt(0), 0.5)[0].duration, 0.125);
+        assert.deepEqual(legato(notesAt(0, 1, 3)).map((n) => n.duration), [1, 2, 0.25]);
+    });
+});
+
+describe("applyGroove", () => {
+    it("quantizes before swinging", () => {
+        const result = applyGroove(notesAt(0.02, 0.27), { quantize: "1/16", swing: 75 });
+        assert.deepEqual(result.map((n) => n.start), [0, 0.375]);
+    });
+});
@@ -0,0 +1,159 @@
+/**
+ * Groove transforms over beat-positioned notes: transpose, quantize,
+ * swing, humanize, velocity dynamics and note length. Every transform is
+ * pure and returns new notes; humanize takes a seed so a "take" can be
+ * reproduced.
+ */
+
+import { parseSyncedRate } from "./curves.js";
+import { createRandom } from "./random.js";
+import { roundBeats, type TimedNote } from "./timeline.js";
+
+/** A grid given in beats (0.25) or as a note value ("1/16", "1/8T"). */
+export type GridValue = number | string;
+
+export interface GrooveOptions {
+    /** Semitones to shift every note by */
+    transpose?: number;
+    /** Grid to quantize note starts to */
+    quantize?: GridValue;
+    /** How far to move notes towards the grid, 0-1. Default: 1 */
+    quantizeStrength?: number;
+    /** Swing percentage, 50 (straight) to 75 */
+    swing?: number;
+    /** Grid whose offbeats are swung. Default: "1/16" */
+    swingGrid?: GridValue;
+    /** Maximum random timing offset in beats */
+    humanizeTiming?: number;
+    /** Maximum random velocity offset */
+    humanizeVelocity?: number;
+    /** Seed for humanize, so results can be reproduced */
+    seed?: number;
+    /**
+     * Velocity dynamics around 64: below 1 compresses (evens out), above 1
+     * expands (exaggerates accents). Default: 1
+     */
+    dynamics?: number;
+    /** Added to every velocity after dynamics */
+    velocityOffset?: number;
+    /** Multiply note lengths: below 1 is staccato, above 1 legato */
+    lengthScale?: number;
+    /** Extend every note to the start of the next note on its channel */
+    legato?: boolean;
+}
+
+const VELOCITY_CENTER = 64;
+
+/** Apply all requested transforms, in a fixed musical order. */
+export function applyGroove(notes: TimedNote[], options: GrooveOptions): TimedNote[] {
+    let result = notes.map((n) => ({ ...n }));
+    if (options.transpose) result = transpose(result, options.transpose);
+    if (options.quantize !== undefined) {
+        result = quantize(result, gridBeats(options.quantize), options.quantizeStrength ?? 1);
+    }
+    if (options.swing !== undefined) {
+        result = swing(result, options.swing, gridBeats(options.swingGrid ?? "1/16"));
+    }
+    if (options.humanizeTiming || options.humanizeVelocity) {
+        result = humanize(result, {
+            timing: options.humanizeTiming ?? 0,
+            velocity: options.humanizeVelocity ?? 0,
+            seed: options.seed,
+        });
+    }
+    if (options.dynamics !== undefined || options.velocityOffset) {
+        result = shapeVelocity(result, options.dynamics ?? 1, options.velocityOffset ?? 0);
+    }
+    if (options.legato) result = legato(result);
+    if (options.lengthScale !== undefined) result = scaleLength(result, options.lengthScale);
+    return result;
+}
+
+export function transpose(notes: TimedNote[], semitones: number): TimedNote[] {
+    return notes.map((n) => {
+        const note = n.note + semitones;
+        if (note < 0 || note > 127) {
+            throw new Error(`Transposing note ${n.note} by ${semitones} leaves the MIDI range 0-127.`);
+        }
+        return { ...n, note };
+    });
+}
+
+/** Move note starts towards the nearest grid line by `strength` (0-1). */
+export function quantize(notes: TimedNote[], grid: number, strength: number = 1): TimedNote[] {
+    if (strength < 0 || strength > 1) throw new Error("Quantize strength must be between 0 and 1.");
+    return notes.map((n) => {
+        const target = Math.round(n.start / grid) * grid;
+        return { ...n, start: roundBeats(n.start + (target - n.start) * strength) };
+    });
+}
+
+/**
+ * Delay offbeat grid positions: with swing s, the second `grid` step of
+ * each pair lands at s% of the pair. Positions between grid lines are
+ * stretched proportionally so the order of notes never changes.
+ */
+export function swing(notes: TimedNote[], percent: number, grid: number): TimedNote[] {
+    if (percent < 50 || percent > 75) {
+        throw new Error("Swing must be between 50 (straight) and 75 percent.");
+    }
+    const pair = grid * 2;
+    const offbeat = (pair * percent) / 100;
+    return notes.map((n) => {
+        const pairStart = Math.floor(n.start / pair + 1e-9) * pair;
+        const x = n.start - pairStart;
+        const swung = x < grid ? (x * offbeat) / grid : offbeat + ((x - grid) * (pair - offbeat)) / grid;
+        return { ...n, start: roundBeats(pairStart + swung) };
+    });
+}
+
+/** Random timing (± beats) and velocity (±) jitter, reproducible with a seed. */
+export function humanize(
+    notes: TimedNote[],
+    amount: { timing: number; velocity: number; seed?: number },
+): TimedNote[] {
+    const random = createRandom(amount.seed);
+    const jitter = (range: number) => (random() * 2 - 1) * range;
+    return notes.map((n) => ({
+        ...n,
+        start: roundBeats(Math.max(0, n.start + jitter(amount.timing))),
+        velocity: clampVelocity(n.velocity + Math.round(jitter(amount.velocity))),
+    }));
+}
+
+/** Compress (< 1) or expand (> 1) velocities around the center, then offset them. */
+export function shapeVelocity(notes: TimedNote[], dynamics: number, offset: number = 0): TimedNote[] {
+    if (dynamics < 0) throw new Error("Dynamics must not be negative.");
+    return notes.map((n) => ({
+        ...n,
+        velocity: clampVelocity(
+            Math.round(VELOCITY_CENTER + (n.velocity - VELOCITY_CENTER) * dynamics + offset),
+        ),
+    }));
+}
+
+export function scaleLength(notes: TimedNote[], factor: number): TimedNote[] {
+    if (!(factor > 0)) throw new Error("Length scale must be positive.");
+    return notes.map((n) => ({ ...n, duration: roundBeats(n.duration * factor) }));
+}
+
+/** Extend each note up to the next later start on the same channel. */
+export function legato(notes: TimedNote[]): TimedNote[] {
+    return notes.map((n) => {
+        const next = notes
+            .filter((other) => other.channel === n.channel && other.start > n.start)
+            .reduce((min, other) => Math.min(min, other.start), Infinity);
+        return Number.isFinite(next) ? { ...n, duration: roundBeats(next - n.start) } : n;
+    });
+}
+
+/** Grid size in beats from a number of beats or a note value. */
+export function gridBeats(grid: GridValue): number {
+    const beats = typeof grid === "number" ? grid : parseSyncedRate(grid);
+    if (!(beats > 0)) throw new Error(`Invalid grid "${grid}".`);
+    return beats;
+}
+
+function clampVelocity(velocity: number): number {
+    return Math.min(127, Math.max(1, velocity));
+}
@@ -0,0 +1,79 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+    bufferMessage,
+    clearInputBuffers,
+    createInputBuffers,
+    INPUT_BUFFER_SIZE,
+    isSyncMessage,
+    readBufferedMessages,
+    SYNC_BUFFER_SIZE,
+    type BufferedMidiMessage,
+} from "./input-buffer.js";
+
+describe("MIDI input buffer", () => {
+    it("tells sync messages from the rest", () => {
+        assert.equal(isSyncMessage([0xf8]), true);
+        assert.equal(isSyncMessage([0xf1, 0x23]), true);
+        assert.equal(isSyncMessage([0xfc]), false);
+        assert.equal(isSyncMessage([0x90, 60, 100]), false);
+        assert.equal(isSyncMessage([0xf0, 0x7f, 0x7f, 0x06, 0x02, 0xf7]), false);
+        assert.equal(isSyncMessage([0xf2, 0, 0]), false);
+    });
+
+    it("keeps played notes through a long clock stream", () => {
+        const buffers = createInputBuffers<BufferedMidiMessage>();
+        let id = 1;
+        bufferMessage(buffers, { id: id++, bytes: [0x90, 60, 100] });
+        // A minute of clock at 120 BPM with MTC quarter frames alongside
+        for (let i = 0; i < 60 * 48; i++) {
+            bufferMessage(buffers, { id: id++, bytes: [0xf8] });
+            bufferMessage(buffers, { id: id++, bytes: [0xf1, (i % 8) << 4] });
+        }
+        bufferMessage(buffers, { id: id++, bytes: [0x80, 60, 0] });
+
+        const notes = readBufferedMessages(buffers, 0, false);
+        assert.deepEqual(
+            notes.map((m) => m.bytes),
+            [
+                [0x90, 60, 100],
+                [0x80, 60, 0],
+            ],
+        );
+        assert.equal(buffers.sync.length, SYNC_BUFFER_SIZE);
+    });
+
+    it("merges sync messages in id order when asked for", () => {
+        const buffers = createInputBuffers<BufferedMidiMessage>();
+        bufferMessage(buffers, { id: 1, bytes: [0xfa] });
+        bufferMessage(buffers, { id: 2, bytes: [0x90, 60, 100] });
+        bufferMessage(buffers, { id: 3, bytes: [0xf8] });
+        bufferMessage(buffers, { id: 4, bytes: [0x80, 60, 0] });
+
+        assert.deepEqual(
+            readBufferedMessages(buffers, 0, true).map((m) => m.id),
+            [1, 2, 3, 4],
+        );
+        assert.deepEqual(
+            readBufferedMessages(buffers, 2, true).map((m) => m.id),
+            [3, 4],
+        );
+        assert.deepEqual(
+            readBufferedMessages(buffers, 0, false).map((m) => m.id),
+            [1, 2, 4],
+        );
+
+        clearInputBuffers(buffers);
+        assert.deepEqual(readBufferedMessages(buffers, 0, true), []);
+    });
+
+    it("drops the oldest messages beyond the buffer size", () => {
+        const buffers = createInputBuffers<BufferedMidiMessage>();
+        for (let id = 1; id <= INPUT_BUFFER_SIZE + 5; id++) {
+            bufferMessage(buffers, { id, bytes: [0x90, 60, 100] });
+        }
+        const messages = readBufferedMessages(buffers, 0, false);
+        assert.equal(messages.length, INPUT_BUFFER_SIZE);
+        assert.equal(messages[0].id, 6);
+    });
+});
@@ -0,0 +1,64 @@
+/**
+ * The buffer behind midi_get_input. MIDI Clock and MTC quarter frames
+ * arrive 50-100 times a second while Logic plays, so they are kept in a
+ * short buffer of their own; in the main one they would push played notes,
+ * MMC and surface feedback out within seconds.
+ */
+
+import type { MidiMessageType } from "./messages.js";
+
+export interface BufferedMidiMessage {
+    /** Increasing id; both buffers share one sequence */
+    id: number;
+    bytes: number[];
+}
+
+export interface InputBuffers<T extends BufferedMidiMessage> {
+    messages: T[];
+    sync: T[];
+}
+
+// Keep the most recent messages only, so an idle listener can't grow unbounded
+export const INPUT_BUFFER_SIZE = 2000;
+// A couple of seconds of clock and MTC
+export const SYNC_BUFFER_SIZE = 200;
+
+export function createInputBuffers<T extends BufferedMidiMessage>(): InputBuffers<T> {
+    return { messages: [], sync: [] };
+}
+
+// Clock, MTC quarter frame, the undefined 0xF9 tick and active sensing. Start,
+// Continue, Stop and Reset are rare and stay with the other messages.
+const SYNC_STATUS_BYTES = new Set([0xf1, 0xf8, 0xf9, 0xfe]);
+
+/** Decoded types of the sync messages, for callers that filter by type. */
+export const SYNC_MESSAGE_TYPES: MidiMessageType[] = ["mtcQuarterFrame", "clock", "activeSensing"];
+
+/** Whether a message is one of the steady timing messages kept apart. */
+export function isSyncMessage(bytes: number[]): boolean {
+    return SYNC_STATUS_BYTES.has(bytes[0]);
+}
+
+export function bufferMessage<T extends BufferedMidiMessage>(buffers: InputBuffers<T>, message: T): void {
+    const sync = isSyncMessage(message.bytes);
+    const buffer = sync ? buffers.sync : buffers.messages;
+    const size = sync ? SYNC_BUFFER_SIZE : INPUT_BUFFER_SIZE;
+    buffer.push(message);
+    if (buffer.length > size) buffer.splice(0, buffer.length - size);
+}
+
+/** Messages with an id greater than `sinceId`, oldest first; sync messages only when asked for. */
+export function readBufferedMessages<T extends BufferedMidiMessage>(
+    buffers: InputBuffers<T>,
+    sinceId: number,
+    includeSync: boolean,
+): T[] {
+    const messages = buffers.messages.filter((m) => m.id > sinceId);
+    if (!includeSync) return messages;
+    return [...messages, ...buffers.sync.filter((m) => m.id > sinceId)].sort((a, b) => a.id - b.id);
+}
+
+export function clearInputBuffers<T extends BufferedMidiMessage>(buffers: InputBuffers<T>): void {
+    buffers.messages.length = 0;
+    buffers.sync.length = 0;
+}
@@ -0,0 +1,46 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { getJob, startJob, stopAllJobs, stopJob, waitForJob } from "./jobs.js";
+
+function waitForAbort(signal: AbortSignal): Promise<void> {
+    return new Promise((resolve) => signal.addEventListener("abort", () => resolve()));
+}
+
+describe("playback jobs", () => {
+    it("marks a job finished when its playback resolves", async () => {
+        const job = startJob("short", 0, async () => {});
+        assert.equal(job.state, "running");
+
+        await waitForJob(job.id);
+        assert.equal(getJob(job.id)?.state, "finished");
+        assert.ok(job.endedAt !== undefined);
+    });
+
+    it("stops a running job through its abort signal", async () => {
+        const job = startJob("long", 60_000, waitForAbort);
+
+        assert.equal(stopJob(job.id), true);
+        await waitForJob(job.id);
+        assert.equal(job.state, "stopped");
+        assert.equal(stopJob(job.id), false);
+    });
+
+    it("stops all running jobs", async () => {
+        const a = startJob("a", 60_000, waitForAbort);
+        const b = startJob("b", 60_000, waitForAbort);
+
+        assert.equal(stopAllJobs(), 2);
+        await Promise.all([waitForJob(a.id), waitForJob(b.id)]);
+        assert.deepEqual([a.state, b.state], ["stopped", "stopped"]);
+    });
+
+    it("records failures", async () => {
+        const job = startJob("broken", 0, async () => {
+            throw new Error("MIDI port not open");
+        });
+
+        await assert.rejects(waitForJob(job.id), /MIDI port not open/);
+        assert.equal(job.state, "failed");
+        assert.equal(job.error, "MIDI port not open");
+    });
+});
@@ -0,0 +1,107 @@
+/**
+ * Registry of background playback jobs.
+ *
+ * A job wraps any long-running playback function that honours an
+ * AbortSignal. Jobs can be awaited (foreground playback), polled for
+ * status and stopped individually or all at once.
+ */
+
+export type JobState = "running" | "finished" | "stopped" | "failed";
+
+export interface PlaybackJob {
+    id: string;
+    description: string;
+    state: JobState;
+    /** Wall-clock start time (ms since epoch) */
+    startedAt: number;
+    /** Expected length in ms */
+    duration: number;
+    endedAt?: number;
+    error?: string;
+}
+
+interface JobEntry {
+    job: PlaybackJob;
+    controller: AbortController;
+    done: Promise<void>;
+}
+
+// Finished jobs are kept around for status queries, up to this many
+const MAX_FINISHED_JOBS = 20;
+
+const jobs = new Map<string, JobEntry>();
+let nextJobId = 1;
+
+export function startJob(
+    description: string,
+    duration: number,
+    run: (signal: AbortSignal) => Promise<void>,
+): PlaybackJob {
+    const controller = new AbortController();
+    const job: PlaybackJob = {
+        id: `job-${nextJobId++}`,
+        description,
+        state: "running",
+        startedAt: Date.now(),
+        duration: Math.round(duration),
+    };
+
+    const done = run(controller.signal).then(
+        () => {
+            job.state = controller.signal.aborted ? "stopped" : "finished";
+            job.endedAt = Date.now();
+        },
+        (error: unknown) => {
+            job.state = "failed";
+            job.error = error instanceof Error ? error.message : String(error);
+            job.endedAt = Date.now();
+        },
+    );
+
+    jobs.set(job.id, { job, controller, done });
+    pruneFinishedJobs();
+    return job;
+}
+
+/** Resolves when the job ends; rejects if it failed. */
+export async function waitForJob(id: string): Promise<PlaybackJob> {
+    const entry = jobs.get(id);
+    if (!entry) throw new Error(`Unknown job: ${id}`);
+    await entry.done;
+    if (entry.job.state === "failed") {
+        throw new Error(entry.job.error);
+    }
+    return entry.job;
+}
+
+export function getJob(id: string): PlaybackJob | undefined {
+    return jobs.get(id)?.job;
+}
+
+export function listJobs(): PlaybackJob[] {
+    return [...jobs.values()].map((entry) => entry.job);
+}
+
+/** Stop a running job. Returns false if it is unknown or already ended. */
+export function stopJob(id: string): boolean {
+    const entry = jobs.get(id);
+    if (!entry || entry.job.state !== "running") return false;
+    entry.controller.abort();
+    return true;
+}
+
+/** Stop every running job and return how many were stopped. */
+export function stopAllJobs(): number {
+    let stopped = 0;
+    for (const id of jobs.keys()) {
+        if (stopJob(id)) stopped++;
+    }
+    return stopped;
+}
+
+function pruneFinishedJobs(): void {
+    const finished = [...jobs.values()].filter((e) => e.job.state !== "running");
+    for (const entry of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+        jobs.delete(entry.job.id);
+    }
+}
@@ -0,0 +1,175 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+    buttonPressMessages,
+    dbToFader,
+    decodeDisplayChar,
+    faderMoveMessages,
+    faderToDb,
+    findStripByName,
+    formatDb,
+    formatTimecodeDisplay,
+    initialMcuState,
+    matchStripNames,
+    updateMcuState,
+    type McuState,
+} from "./mcu.js";
+
+const HEADER = [0xf0, 0x00, 0x00, 0x66, 0x14];
+
+/** Apply messages from Logic, collecting replies. */
+function receive(messages: number[][], state: McuState = initialMcuState()) {
+    const replies: number[][] = [];
+    for (const message of messages) {
+        const result = updateMcuState(state, message);
+        state = result.state;
+        replies.push(...result.replies);
+    }
+    return { state, replies };
+}
+
+function lcd(offset: number, text: string): number[] {
+    return [...HEADER, 0x12, offset, ...Buffer.from(text, "ascii"), 0xf7];
+}
+
+describe("updateMcuState", () => {
+    it("answers the connection handshake", () => {
+        const { state, replies } = receive([
+            [...HEADER, 0x00, 0xf7],
+            [...HEADER, 0x02, 0x4c, 0x50, 0x4d, 0x43, 0x50, 0x30, 0x31, 0x11, 0x22, 0x33, 0x44, 0xf7],
+        ]);
+        assert.equal(state.connected, true);
+        assert.deepEqual(replies[0].slice(0, 6), [...HEADER, 0x01]);
+        assert.equal(replies[0].length, 6 + 7 + 4 + 1);
+        assert.deepEqual(replies[1], [...HEADER, 0x03, 0x4c, 0x50, 0x4d, 0x43, 0x50, 0x30, 0x31, 0xf7]);
+    });
+
+    it("fills strip names and values from LCD writes", () => {
+        const { state } = receive([lcd(0, "Kick   Snare  "), lcd(56, " <C>   -12  ")]);
+        assert.equal(state.connected, true);
+        assert.deepEqual(
+            state.strips.slice(0, 3).map((s) => [s.name, s.value]),
+            [["Kick", "<C>"], ["Snare", "-12"], ["", ""]],
+        );
+
+        const renamed = receive([lcd(7, "Clap   ")], state).state;
+        assert.equal(renamed.strips[1].name, "Clap");
+        assert.equal(renamed.strips[0].name, "Kick");
+    });
+
+    it("follows strip LEDs, faders and meters", () => {
+        const { state } = receive([
+            [0x90, 0x12, 0x7f], // mute strip 3
+            [0x90, 0x08, 0x01], // solo strip 1 blinking
+            [0x90, 0x1f, 0x7f], // select strip 8
+            [0xe1, 0x7f, 0x7f], // fader strip 2 at the top
+            [0xe8, 0x00, 0x40], // master fader
+            [0xd0, 0x25], // strip 3 meter 5
+        ]);
+        assert.equal(state.strips[2].mute, true);
+        assert.equal(state.strips[0].solo, true);
+        assert.equal(state.leds[0x08], "blink");
+        assert.equal(state.strips[7].selected, true);
+        assert.equal(state.strips[1].fader, 0x3fff);
+        assert.equal(state.masterFader, 0x2000);
+        assert.equal(state.strips[2].meter, 5);
+
+        const unmuted = receive([[0x90, 0x12, 0x00]], state).state;
+        assert.equal(unmuted.strips[2].mute, false);
+    });
+
+    it("reads the timecode display right to left", () => {
+        // "  1 2 3  4" in BBT mode: bar 1, beat 2, division 3, tick 4
+        const digits = [" ", " ", "1", " ", "2", " ", "3", " ", " ", "4"];
+        const messages = digits.map((d, i) => [0xb0, 0x49 - i, d.charCodeAt(0)]);
+        const { state } = receive([[0x90, 0x72, 0x7f], ...messages]);
+        assert.equal(state.timecodeMode, "beats");
+        assert.equal(formatTimecodeDisplay(state), "1.2.3.4");
+    });
+
+    it("leaves the state alone for unrelated messages", () => {
+        const state = initialMcuState();
+        assert.equal(updateMcuState(state, [0xf8]).state, state);
+    });
+});
+
+describe("surface messages", () => {
+    it("presses and releases buttons", () => {
+        assert.deepEqual(buttonPressMessages(0x2f), [
+            [0x90, 0x2f, 0x7f],
+            [0x90, 0x2f, 0x00],
+        ]);
+    });
+
+    it("touches, moves and releases a fader", () => {
+        assert.deepEqual(faderMoveMessages(2, 0x2000), [
+            [0x90, 0x6a, 0x7f],
+            [0xe2, 0x00, 0x40],
+            [0x90, 0x6a, 0x00],
+        ]);
+        assert.deepEqual(faderMoveMessages(8, 0)[0], [0x90, 0x70, 0x7f]);
+        assert.throws(() => faderMoveMessages(9, 0), /strip/);
+    });
+});
+
+describe("fader taper", () => {
+    it("round-trips dB through fader positions", () => {
+        for (const db of [-60, -42.5, -12, -3, 0, 4.5, 6]) {
+            assert.ok(Math.abs(faderToDb(dbToFader(db)) - db) <= 0.1, `${db} dB`);
+        }
+    });
+
+    it("maps the ends of the fader", () => {
+        assert.equal(dbToFader(-Infinity), 0);
+        assert.equal(faderToDb(0), -Infinity);
+        assert.equal(dbToFader(6), 0x3fff);
+        assert.throws(() => dbToFader(7), /between -60 and \+6/);
+    });
+
+    it("formats levels", () => {
+        assert.equal(formatDb(-Infinity), "-inf dB");
+        assert.equal(formatDb(3), "+3.0 dB");
+        assert.equal(formatDb(-6.25), "-6.3 dB");
+    });
+});
+
+describe("findStripByName", () => {
+    const strips = ["Kick", "LeadVcl", "Bass", "Bass 2", ""].map((name) => ({
+        ...initialMcuState().strips[0],
+        name,
+    }));
+
+    it("prefers exact matches", () => {
+        assert.equal(findStripByName(strips, "bass 2"), 3);
+        assert.equal(findStripByName(strips, "Bass"), 2);
+    });
+
+    it("matches Logic's abbreviations", () => {
+        assert.equal(findStripByName(strips, "Lead Vocal"), 1);
+        assert.equal(findStripByName(strips, "Kick In"), 0);
+        assert.equal(findStripByName(strips, "Snare"), -1);
+    });
+
+    it("does not take a shorter name for a longer one", () => {
+        const vox = ["Vox 1", "Vox 10"].map((name) => ({ ...initialMcuState().strips[0], name }));
+        assert.equal(findStripByName(vox, "Vox 10"), 1);
+        assert.equal(findStripByName(vox, "vox 1"), 0);
+    });
+
+    it("rejects a name that several strips could stand for", () => {
+        const backing = ["Back", "BkVcls", "Kick"].map((name) => ({ ...initialMcuState().strips[0], name }));
+        assert.deepEqual(matchStripNames(backing, "Backing Vocals"), { exact: [], loose: [0, 1] });
+        assert.throws(
+            () => findStripByName(backing, "Backing Vocals"),
+            /"Backing Vocals" could be any of 2 mixer strips: "Back", "BkVcls"/,
+        );
+    });
+});
+
+describe("decodeDisplayChar", () => {
+    it("maps the 6-bit character set", () => {
+        assert.equal(decodeDisplayChar(0x01), "A");
+        assert.equal(decodeDisplayChar(0x35), "5");
+        assert.equal(decodeDisplayChar(0x75), "5");
+    });
+});
@@ -0,0 +1,370 @@
+/**
+ * Mackie Control Universal (MCU) protocol, surface side.
+ *
+ * Logic Pro drives an MCU over a MIDI port pair: it fills two 56-character
+ * LCD rows (7 characters per strip, track names on top), positions the
+ * motor faders with pitch bend (one channel per strip, channel 8 for the
+ * master), lights button LEDs with note-ons and writes the timecode/BBT
+ * display with CCs. The surface sends the same messages back when a fader
+ * moves or a button is pressed.
+ *
+ * `updateMcuState` keeps a mirror of one eight-strip bank from what Logic
+ * sends and returns any replies the surface owes (the connection handshake).
+ */
+
+export type LedState = "off" | "on" | "blink";
+
+export interface McuStrip {
+    /** Upper LCD row: the track name, as abbreviated by Logic */
+    name: string;
+    /** Lower LCD row: the V-Pot value (pan by default) */
+    value: string;
+    /** 14-bit fader position */
+    fader: number;
+    recordArm: boolean;
+    solo: boolean;
+    mute: boolean;
+    selected: boolean;
+    /** Last meter level, 0-12 (0x0D-0x0F are overload states, reported as 12) */
+    meter: number;
+}
+
+export interface McuState {
+    /** True once Logic has completed the handshake or sent any display data */
+    connected: boolean;
+    strips: McuStrip[];
+    masterFader: number;
+    /** Both LCD rows, 112 characters */
+    lcd: string;
+    /** The ten timecode/BBT digits, left to right */
+    timecodeDigits: string[];
+    timecodeMode?: "smpte" | "beats";
+    /** Two-digit assignment display */
+    assignment: string;
+    /** LED state by button note number */
+    leds: Record<number, LedState>;
+}
+
+/** Button note numbers (press = note on 0x7F, release = velocity 0). */
+export const MCU_BUTTONS = {
+    recordArm: 0x00,
+    solo: 0x08,
+    mute: 0x10,
+    select: 0x18,
+    vpotPush: 0x20,
+    bankLeft: 0x2e,
+    bankRight: 0x2f,
+    channelLeft: 0x30,
+    channelRight: 0x31,
+    flip: 0x32,
+    cycle: 0x56,
+    rewind: 0x5b,
+    fastForward: 0x5c,
+    stop: 0x5d,
+    play: 0x5e,
+    record: 0x5f,
+    faderTouch: 0x68,
+    masterTouch: 0x70,
+    smpteLed: 0x71,
+    beatsLed: 0x72,
+} as const;
+
+export type McuButton = keyof typeof MCU_BUTTONS;
+
+export const MCU_STRIP_COUNT = 8;
+export const MCU_LCD_WIDTH = 56;
+/** Characters per strip in each LCD row; longer names are abbreviated */
+export const MCU_LABEL_WIDTH = 7;
+export const MCU_MASTER_CHANNEL = 8;
+export const FADER_MAX = 0x3fff;
+
+const SYSEX_HEADER = [0xf0, 0x00, 0x00, 0x66];
+const MCU_MODEL = 0x14;
+const DEVICE_QUERY = 0x00;
+const HOST_CONNECTION_QUERY = 0x01;
+const HOST_CONNECTION_REPLY = 0x02;
+const HOST_CONNECTION_CONFIRMATION = 0x03;
+const GO_OFFLINE = 0x0f;
+const LCD_WRITE = 0x12;
+const ALL_LEDS_OFF = 0x62;
+const SERIAL_NUMBER = [0x4c, 0x50, 0x4d, 0x43, 0x50, 0x30, 0x31]; // "LPMCP01"
+const CHALLENGE = [0x01, 0x02, 0x03, 0x04];
+const TIMECODE_FIRST_CC = 0x40;
+const TIMECODE_DIGITS = 10;
+const ASSIGNMENT_FIRST_CC = 0x4a;
+
+/**
+ * Logic's fader taper: fader position (0-1) at each dB mark, read off the
+ * mixer's fader scale. Positions in between are interpolated linearly in dB.
+ */
+const FADER_TAPER: [number, number][] = [
+    [-60, 0.022],
+    [-50, 0.05],
+    [-40, 0.1],
+    [-30, 0.19],
+    [-24, 0.27],
+    [-18, 0.375],
+    [-12, 0.5],
+    [-6, 0.641],
+    [0, 0.787],
+    [6, 1],
+];
+export const MIN_FADER_DB = FADER_TAPER[0][0];
+export const MAX_FADER_DB = FADER_TAPER[FADER_TAPER.length - 1][0];
+
+export function initialMcuState(): McuState {
+    return {
+        connected: false,
+        strips: Array.from({ length: MCU_STRIP_COUNT }, () => ({
+            name: "",
+            value: "",
+            fader: 0,
+            recordArm: false,
+            solo: false,
+            mute: false,
+            selected: false,
+            meter: 0,
+        })),
+        masterFader: 0,
+        lcd: " ".repeat(MCU_LCD_WIDTH * 2),
+        timecodeDigits: Array(TIMECODE_DIGITS).fill(" "),
+        assignment: "  ",
+        leds: {},
+    };
+}
+
+/**
+ * Apply a message from Logic to the mirror. Returns the new state and the
+ * messages to send back, if any.
+ */
+export function updateMcuState(previous: McuState, bytes: number[]): { state: McuState; replies: number[][] } {
+    const state: McuState = { ...previous, strips: previous.strips.map((s) => ({ ...s })) };
+    const replies: number[][] = [];
+    const status = bytes[0] & 0xf0;
+    const channel = bytes[0] & 0x0f;
+
+    if (bytes[0] === 0xf0) {
+        applySysex(state, bytes, replies);
+    } else if (status === 0x90) {
+        applyLed(state, bytes[1], bytes[2]);
+    } else if (status === 0xe0) {
+        const value = (bytes[1] & 0x7f) | ((bytes[2] & 0x7f) << 7);
+        if (channel < MCU_STRIP_COUNT) state.strips[channel].fader = value;
+        else if (channel === MCU_MASTER_CHANNEL) state.masterFader = value;
+    } else if (status === 0xb0) {
+        applyDisplayCc(state, bytes[1], bytes[2]);
+    } else if (bytes[0] === 0xd0) {
+        const strip = (bytes[1] >> 4) & 0x07;
+        state.strips[strip].meter = Math.min(12, bytes[1] & 0x0f);
+    } else {
+        return { state: previous, replies };
+    }
+    return { state, replies };
+}
+
+/** Press and release a button. */
+export function buttonPressMessages(note: number): number[][] {
+    return [
+        [0x90, note & 0x7f, 0x7f],
+        [0x90, note & 0x7f, 0x00],
+    ];
+}
+
+/** Touch a fader, move it and let go, as a motor fader does under a finger. */
+export function faderMoveMessages(strip: number, value: number): number[][] {
+    if (!Number.isInteger(strip) || strip < 0 || strip > MCU_MASTER_CHANNEL) {
+        throw new Error(`Fader strip must be 0-7 (or 8 for master); got ${strip}.`);
+    }
+    const clamped = Math.max(0, Math.min(FADER_MAX, Math.round(value)));
+    const touch = strip === MCU_MASTER_CHANNEL ? MCU_BUTTONS.masterTouch : MCU_BUTTONS.faderTouch + strip;
+    return [
+        [0x90, touch, 0x7f],
+        [0xe0 | strip, clamped & 0x7f, clamped >> 7],
+        [0x90, touch, 0x00],
+    ];
+}
+
+/** Fader position (14-bit) for a level in dB; -Infinity is the bottom. */
+export function dbToFader(db: number): number {
+    if (db === -Infinity) return 0;
+    if (!(db >= MIN_FADER_DB && db <= MAX_FADER_DB)) {
+        throw new Error(`Fader level must be between ${MIN_FADER_DB} and +${MAX_FADER_DB} dB (or -inf); got ${db}.`);
+    }
+    for (let i = 1; i < FADER_TAPER.length; i++) {
+        const [db1, pos1] = FADER_TAPER[i];
+        if (db <= db1) {
+            const [db0, pos0] = FADER_TAPER[i - 1];
+            return Math.round((pos0 + ((pos1 - pos0) * (db - db0)) / (db1 - db0)) * FADER_MAX);
+        }
+    }
+    return FADER_MAX;
+}
+
+/** Level in dB for a fader position, rounded to 0.1 dB; -Infinity below the -60 dB mark. */
+export function faderToDb(value: number): number {
+    if (value < Math.round(FADER_TAPER[0][1] * FADER_MAX)) return -Infinity;
+    const position = value / FADER_MAX;
+    for (let i = 1; i < FADER_TAPER.length; i++) {
+        const [db1, pos1] = FADER_TAPER[i];
+        if (position <= pos1) {
+            const [db0, pos0] = FADER_TAPER[i - 1];
+            const db = db0 + ((db1 - db0) * (Math.max(position, pos0) - pos0)) / (pos1 - pos0);
+            // `|| 0` turns -0 into 0
+            return Math.round(db * 10) / 10 || 0;
+        }
+    }
+    return MAX_FADER_DB;
+}
+
+export function formatDb(db: number): string {
+    if (db === -Infinity) return "-inf dB";
+    return `${db > 0 ? "+" : ""}${db.toFixed(1)} dB`;
+}
+
+export interface StripNameMatches {
+    /** Strips whose label is the name itself */
+    exact: number[];
+    /** Strips whose label could be Logic's abbreviation of the name */
+    loose: number[];
+}
+
+/**
+ * Strips that may show a track name. Logic fits names into the 7-character
+ * cells by dropping spaces and then vowels ("Lead Vocal" may show as
+ * "LeadVcl"), so a cell matches loosely when it is the start of the name
+ * or its letters appear in the name in order.
+ */
+export function matchStripNames(strips: McuStrip[], name: string): StripNameMatches {
+    const wanted = normalizeName(name);
+    const matches: StripNameMatches = { exact: [], loose: [] };
+    strips.forEach((strip, index) => {
+        const label = normalizeName(strip.name);
+        if (label.length === 0) return;
+        if (label === wanted) matches.exact.push(index);
+        else if (abbreviates(label, wanted)) matches.loose.push(index);
+    });
+    return matches;
+}
+
+/**
+ * Index of the strip showing a track name, or -1. An exact label wins;
+ * otherwise a single abbreviation does, and several are an error listing
+ * them, since "Vox 1" could as well be the start of "Vox 10".
+ */
+export function findStripByName(strips: McuStrip[], name: string): number {
+    const { exact, loose } = matchStripNames(strips, name);
+    if (exact.length > 0) return exact[0];
+    if (loose.length > 1) {
+        const listed = loose.map((index) => `"${strips[index].name}"`).join(", ");
+        throw new Error(
+            `"${name}" could be any of ${loose.length} mixer strips: ${listed}. Use the full track name or a strip number.`,
+        );
+    }
+    return loose[0] ?? -1;
+}
+
+/** The timecode display in its 3-2-2-3 digit groups, e.g. "12.3.1.1" (bars) or "1:00:05:12" (SMPTE). */
+export function formatTimecodeDisplay(state: McuState): string {
+    const digits = state.timecodeDigits;
+    const groups = [digits.slice(0, 3), digits.slice(3, 5), digits.slice(5, 7), digits.slice(7)];
+    const separator = state.timecodeMode === "smpte" ? ":" : ".";
+    return groups.map((g) => g.join("").trim()).join(separator);
+}
+
+/**
+ * Decode a display character: 0x00-0x1F are the letters @A-Z[\]^_, 0x20-0x3F
+ * are ASCII. Bit 6 lights the dot after the digit and is ignored here.
+ */
+export function decodeDisplayChar(value: number): string {
+    const code = value & 0x3f;
+    return String.fromCharCode(code < 0x20 ? code + 0x40 : code);
+}
+
+function applySysex(state: McuState, bytes: number[], replies: number[][]): void {
+    if (!SYSEX_HEADER.every((b, i) => bytes[i] === b) || bytes[4] !== MCU_MODEL) return;
+    const command = bytes[5];
+    switch (command) {
+        case DEVICE_QUERY:
+            replies.push([...SYSEX_HEADER, MCU_MODEL, HOST_CONNECTION_QUERY, ...SERIAL_NUMBER, ...CHALLENGE, 0xf7]);
+            break;
+        case HOST_CONNECTION_REPLY:
+            // The response code is not checked; any host that answers is accepted
+            replies.push([...SYSEX_HEADER, MCU_MODEL, HOST_CONNECTION_CONFIRMATION, ...SERIAL_NUMBER, 0xf7]);
+            state.connected = true;
+            break;
+        case GO_OFFLINE:
+            state.connected = false;
+            break;
+        case LCD_WRITE: {
+            const offset = bytes[6];
+            const text = bytes
+                .slice(7, bytes.indexOf(0xf7, 7) < 0 ? undefined : bytes.indexOf(0xf7, 7))
+                .map((b) => String.fromCharCode(b >= 0x20 && b < 0x7f ? b : 0x20))
+                .join("");
+            const end = Math.min(offset + text.length, state.lcd.length);
+            state.lcd = state.lcd.slice(0, offset) + text.slice(0, end - offset) + state.lcd.slice(end);
+            state.connected = true;
+            for (let i = 0; i < MCU_STRIP_COUNT; i++) {
+                state.strips[i].name = lcdCell(state.lcd, 0, i);
+                state.strips[i].value = lcdCell(state.lcd, 1, i);
+            }
+            break;
+        }
+        case ALL_LEDS_OFF:
+            state.leds = {};
+            for (const strip of state.strips) {
+                Object.assign(strip, { recordArm: false, solo: false, mute: false, selected: false });
+            }
+            break;
+    }
+}
+
+function applyLed(state: McuState, note: number, velocity: number): void {
+    const led: LedState = velocity === 0 ? "off" : velocity === 0x01 ? "blink" : "on";
+    state.leds = { ...state.leds, [note]: led };
+    state.connected = true;
+
+    const lit = led !== "off";
+    const strip = note & 0x07;
+    if (note < 0x08) state.strips[strip].recordArm = lit;
+    else if (note < 0x10) state.strips[strip].solo = lit;
+    else if (note < 0x18) state.strips[strip].mute = lit;
+    else if (note < 0x20) state.strips[strip].selected = lit;
+    else if (note === MCU_BUTTONS.smpteLed && lit) state.timecodeMode = "smpte";
+    else if (note === MCU_BUTTONS.beatsLed && lit) state.timecodeMode = "beats";
+}
+
+function applyDisplayCc(state: McuState, controller: number, value: number): void {
+    if (controller >= TIMECODE_FIRST_CC && controller < TIMECODE_FIRST_CC + TIMECODE_DIGITS) {
+        // CC 0x40 is the rightmost digit
+        const digits = [...state.timecodeDigits];
+        digits[TIMECODE_DIGITS - 1 - (controller - TIMECODE_FIRST_CC)] = decodeDisplayChar(value);
+        state.timecodeDigits = digits;
+    } else if (controller === ASSIGNMENT_FIRST_CC || controller === ASSIGNMENT_FIRST_CC + 1) {
+        // CC 0x4A is the right digit, 0x4B the left one
+        const position = controller === ASSIGNMENT_FIRST_CC ? 1 : 0;
+        const char = decodeDisplayChar(value);
+        state.assignment = position === 0 ? char + state.assignment[1] : state.assignment[0] + char;
+    }
+}
+
+function abbreviates(label: string, name: string): boolean {
+    if (name.startsWith(label)) return true;
+    if (label[0] !== name[0]) return false;
+    let position = 0;
+    for (const char of label) {
+        position = name.indexOf(char, position);
+        if (position < 0) return false;
+        position++;
+    }
+    return true;
+}
+
+function normalizeName(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function lcdCell(lcd: string, row: number, strip: number): string {
+    const start = row * MCU_LCD_WIDTH + strip * MCU_LABEL_WIDTH;
+    return lcd.slice(start, start + MCU_LABEL_WIDTH).trim();
+}
@@ -0,0 +1,144 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+    controlChange14Messages,
+    decodeMidiMessage,
+    parameterNumberMessages,
+    parseSysex,
+    pitchBendMessage,
+    polyPressureMessage,
+    programChangeMessages,
+    semitonesToPitchBend,
+} from "./messages.js";
+
+describe("decodeMidiMessage", () => {
+    it("decodes note on with channel", () => {
+        assert.deepEqual(decodeMidiMessage([0x93, 60, 100]), {
+            type: "noteOn",
+            channel: 3,
+            note: 60,
+            velocity: 100,
+        });
+    });
+
+    it("treats note on with velocity 0 as note off", () => {
+        assert.deepEqual(decodeMidiMessage([0x90, 64, 0]), {
+            type: "noteOff",
+            channel: 0,
+            note: 64,
+            velocity: 0,
+        });
+    });
+
+    it("decodes control change", () => {
+        assert.deepEqual(decodeMidiMessage([0xb1, 7, 90]), {
+            type: "controlChange",
+            channel: 1,
+            controller: 7,
+            value: 90,
+        });
+    });
+
+    it("combines pitch bend data bytes into a 14-bit value", () => {
+        assert.deepEqual(decodeMidiMessage([0xe0, 0x00, 0x40]), {
+            type: "pitchBend",
+            channel: 0,
+            value: 8192,
+        });
+    });
+
+    it("decodes song position pointer", () => {
+        assert.deepEqual(decodeMidiMessage([0xf2, 0x10, 0x01]), {
+            type: "songPosition",
+            value: 144,
+        });
+    });
+
+    it("decodes realtime and sysex messages", () => {
+        assert.equal(decodeMidiMessage([0xf8]).type, "clock");
+        assert.equal(decodeMidiMessage([0xfa]).type, "start");
+        assert.equal(decodeMidiMessage([0xfc]).type, "stop");
+        assert.equal(decodeMidiMessage([0xf0, 0x7f, 0x7f, 0x06, 0x02, 0xf7]).type, "sysex");
+    });
+
+    it("returns unknown for empty input", () => {
+        assert.equal(decodeMidiMessage([]).type, "unknown");
+    });
+});
+
+describe("pitch bend", () => {
+    it("encodes 14-bit values LSB first", () => {
+        assert.deepEqual(pitchBendMessage(2, 8192), [0xe2, 0, 64]);
+        assert.deepEqual(pitchBendMessage(0, 16383), [0xe0, 127, 127]);
+        assert.throws(() => pitchBendMessage(0, 16384), /Pitch bend/);
+    });
+
+    it("converts semitones within the bend range", () => {
+        assert.equal(semitonesToPitchBend(0), 8192);
+        assert.equal(semitonesToPitchBend(2, 2), 16383);
+        assert.equal(semitonesToPitchBend(-2, 2), 0);
+        assert.equal(semitonesToPitchBend(6, 12), 12288);
+        assert.throws(() => semitonesToPitchBend(3, 2), /exceeds the bend range/);
+    });
+});
+
+describe("channel voice encoders", () => {
+    it("encodes poly aftertouch and validates ranges", () => {
+        assert.deepEqual(polyPressureMessage(1, 60, 90), [0xa1, 60, 90]);
+        assert.throws(() => polyPressureMessage(16, 60, 90), /Channel/);
+    });
+
+    it("splits 14-bit CCs into MSB and LSB controllers", () => {
+        assert.deepEqual(controlChange14Messages(0, 1, 0x1234), [
+            [0xb0, 1, 0x24],
+            [0xb0, 33, 0x34],
+        ]);
+        assert.throws(() => controlChange14Messages(0, 32, 0), /CC 0-31/);
+    });
+
+    it("sends RPNs with data entry and a null reset", () => {
+        assert.deepEqual(parameterNumberMessages(0, 0, 12, { valueLsb: 0 }), [
+            [0xb0, 101, 0],
+            [0xb0, 100, 0],
+            [0xb0, 6, 12],
+            [0xb0, 38, 0],
+            [0xb0, 101, 127],
+            [0xb0, 100, 127],
+        ]);
+    });
+
+    it("selects NRPNs with CC 99/98", () => {
+        assert.deepEqual(parameterNumberMessages(3, 300, 64, { nrpn: true, reset: false }), [
+            [0xb3, 99, 2],
+            [0xb3, 98, 44],
+            [0xb3, 6, 64],
+        ]);
+    });
+
+    it("precedes program changes with bank select", () => {
+        assert.deepEqual(programChangeMessages(0, 5, { msb: 1, lsb: 2 }), [
+            [0xb0, 0, 1],
+            [0xb0, 32, 2],
+            [0xc0, 5],
+        ]);
+        assert.deepEqual(programChangeMessages(0, 5), [[0xc0, 5]]);
+    });
+});
+
+describe("parseSysex", () => {
+    it("parses hex strings and byte arrays", () => {
+        assert.deepEqual(parseSysex("F0 7E 7F 06 01 F7"), [0xf0, 0x7e, 0x7f, 0x06, 0x01, 0xf7]);
+        assert.deepEqual(parseSysex([0xf0, 0x43, 0xf7]), [0xf0, 0x43, 0xf7]);
+    });
+
+    it("adds missing framing", () => {
+        assert.deepEqual(parseSysex("7E7F0601"), [0xf0, 0x7e, 0x7f, 0x06, 0x01, 0xf7]);
+    });
+
+    it("rejects bad framing, data bytes and hex", () => {
+        assert.throws(() => parseSysex("F0 43 10"), /end with F7/);
+        assert.throws(() => parseSysex("F0 43 90 F7"), /data bytes must be 00-7F/);
+        assert.throws(() => parseSysex("F0 4 F7"), /Invalid SysEx hex/);
+        assert.throws(() => parseSysex("F0 F7"), /no data/);
+    });
+});
@@ -0,0 +1,262 @@
+/**
+ * Pure helpers for encoding and decoding raw MIDI byte arrays.
+ * Kept free of the node-midi binding so they can be unit tested anywhere.
+ */
+
+export type MidiMessageType =
+    | "noteOn"
+    | "noteOff"
+    | "polyPressure"
+    | "controlChange"
+    | "programChange"
+    | "channelPressure"
+    | "pitchBend"
+    | "sysex"
+    | "mtcQuarterFrame"
+    | "songPosition"
+    | "songSelect"
+    | "tuneRequest"
+    | "clock"
+    | "start"
+    | "continue"
+    | "stop"
+    | "activeSensing"
+    | "reset"
+    | "unknown";
+
+export interface DecodedMidiMessage {
+    type: MidiMessageType;
+    channel?: number;
+    note?: number;
+    velocity?: number;
+    controller?: number;
+    value?: number;
+    program?: number;
+    pressure?: number;
+}
+
+const SYSTEM_MESSAGE_TYPES: Record<number, MidiMessageType> = {
+    0xf0: "sysex",
+    0xf1: "mtcQuarterFrame",
+    0xf2: "songPosition",
+    0xf3: "songSelect",
+    0xf6: "tuneRequest",
+    0xf8: "clock",
+    0xfa: "start",
+    0xfb: "continue",
+    0xfc: "stop",
+    0xfe: "activeSensing",
+    0xff: "reset",
+};
+
+export function decodeMidiMessage(bytes: number[]): DecodedMidiMessage {
+    const status = bytes[0] ?? 0;
+
+    if (status >= 0xf0) {
+        const type = SYSTEM_MESSAGE_TYPES[status] ?? "unknown";
+        if (type === "mtcQuarterFrame" || type === "songSelect") {
+            return { type, value: (bytes[1] ?? 0) & 0x7f };
+        }
+        if (type === "songPosition") {
+            return {
+                type,
+                value: ((bytes[1] ?? 0) & 0x7f) | (((bytes[2] ?? 0) & 0x7f) << 7),
+            };
+        }
+        return { type };
+    }
+
+    const channel = status & 0x0f;
+    const data1 = (bytes[1] ?? 0) & 0x7f;
+    const data2 = (bytes[2] ?? 0) & 0x7f;
+
+    switch (status & 0xf0) {
+        case 0x80:
+            return { type: "noteOff", channel, note: data1, velocity: data2 };
+        case 0x90:
+            // Note on with velocity 0 is a note off by convention
+            return data2 === 0
+                ? { type: "noteOff", channel, note: data1, velocity: 0 }
+                : { type: "noteOn", channel, note: data1, velocity: data2 };
+        case 0xa0:
+            return { type: "polyPressure", channel, note: data1, pressure: data2 };
+        case 0xb0:
+            return { type: "controlChange", channel, controller: data1, value: data2 };
+        case 0xc0:
+            return { type: "programChange", channel, program: data1 };
+        case 0xd0:
+            return { type: "channelPressure", channel, pressure: data1 };
+        case 0xe0:
+            return { type: "pitchBend", channel, value: data1 | (data2 << 7) };
+        default:
+            return { type: "unknown" };
+    }
+}
+
+/** Center (no bend) of the 14-bit pitch bend range. */
+export const PITCH_BEND_CENTER = 8192;
+
+const MAX_SYSEX_LENGTH = 65536;
+
+/** Pitch bend with a 14-bit value, 0-16383 (8192 = center). */
+export function pitchBendMessage(channel: number, value: number): number[] {
+    checkValue(value, 0x3fff, "Pitch bend");
+    return [0xe0 | checkChannel(channel), value & 0x7f, value >> 7];
+}
+
+/**
+ * Convert a bend in semitones to the 14-bit value for a synth whose bend
+ * range is `range` semitones. +range maps to 16383, -range to 0.
+ */
+export function semitonesToPitchBend(semitones: number, range: number = 2): number {
+    if (range <= 0) throw new Error("Pitch bend range must be positive.");
+    if (Math.abs(semitones) > range) {
+        throw new Error(
+            `Bend of ${semitones} semitones exceeds the bend range of ±${range}. Raise bendRange to match the instrument.`,
+        );
+    }
+    const value = PITCH_BEND_CENTER + Math.round((semitones / range) * PITCH_BEND_CENTER);
+    return Math.min(0x3fff, value);
+}
+
+export function channelPressureMessage(channel: number, pressure: number): number[] {
+    checkValue(pressure, 0x7f, "Pressure");
+    return [0xd0 | checkChannel(channel), pressure];
+}
+
+export function polyPressureMessage(channel: number, note: number, pressure: number): number[] {
+    checkValue(note, 0x7f, "Note");
+    checkValue(pressure, 0x7f, "Pressure");
+    return [0xa0 | checkChannel(channel), note, pressure];
+}
+
+export function controlChangeMessage(channel: number, controller: number, value: number): number[] {
+    checkValue(controller, 0x7f, "Controller");
+    checkValue(value, 0x7f, "CC value");
+    return [0xb0 | checkChannel(channel), controller, value];
+}
+
+/**
+ * A 14-bit controller: the MSB on `controller` (0-31) followed by the LSB
+ * on `controller + 32`, as the MIDI spec pairs them.
+ */
+export function controlChange14Messages(
+    channel: number,
+    controller: number,
+    value: number,
+): number[][] {
+    if (!Number.isInteger(controller) || controller < 0 || controller > 31) {
+        throw new Error(`14-bit controllers use CC 0-31 (LSB on CC 32-63); got ${controller}.`);
+    }
+    checkValue(value, 0x3fff, "14-bit CC value");
+    return [
+        controlChangeMessage(channel, controller, value >> 7),
+        controlChangeMessage(channel, controller + 32, value & 0x7f),
+    ];
+}
+
+export interface ParameterNumberOptions {
+    /** Send an NRPN (CC 99/98) instead of an RPN (CC 101/100) */
+    nrpn?: boolean;
+    /** Data entry LSB (CC 38), e.g. cents for the pitch bend range */
+    valueLsb?: number;
+    /** Deselect the parameter afterwards (RPN null) so stray data entry can't change it. Default: true */
+    reset?: boolean;
+}
+
+/**
+ * Select a registered (RPN) or non-registered (NRPN) parameter by its
+ * 14-bit number and set it through data entry (CC 6, optionally CC 38).
+ */
+export function parameterNumberMessages(
+    channel: number,
+    parameter: number,
+    value: number,
+    options: ParameterNumberOptions = {},
+): number[][] {
+    checkValue(parameter, 0x3fff, "Parameter number");
+    const [msbController, lsbController] = options.nrpn ? [99, 98] : [101, 100];
+    const messages = [
+        controlChangeMessage(channel, msbController, parameter >> 7),
+        controlChangeMessage(channel, lsbController, parameter & 0x7f),
+        controlChangeMessage(channel, 6, value),
+    ];
+    if (options.valueLsb !== undefined) {
+        messages.push(controlChangeMessage(channel, 38, options.valueLsb));
+    }
+    if (options.reset ?? true) {
+        messages.push(controlChangeMessage(channel, 101, 127), controlChangeMessage(channel, 100, 127));
+    }
+    return messages;
+}
+
+/** Bank select (CC 0 and optionally CC 32) followed by a program change. */
+export function programChangeMessages(
+    channel: number,
+    program: number,
+    bank: { msb?: number; lsb?: number } = {},
+): number[][] {
+    checkValue(program, 0x7f, "Program");
+    const messages: number[][] = [];
+    if (bank.msb !== undefined) messages.push(controlChangeMessage(channel, 0, bank.msb));
+    if (bank.lsb !== undefined) messages.push(controlChangeMessage(channel, 32, bank.lsb));
+    messages.push([0xc0 | checkChannel(channel), program]);
+    return messages;
+}
+
+/**
+ * Song Position Pointer: the position in MIDI beats (sixteenth notes)
+ * from the start of the song, 0-16383.
+ */
+export function songPositionMessage(sixteenths: number): number[] {
+    checkValue(sixteenths, 0x3fff, "Song position");
+    return [0xf2, sixteenths & 0x7f, sixteenths >> 7];
+}
+
+/**
+ * Validate a System Exclusive message given as bytes or a hex string
+ * ("F0 43 10 4C 00 00 7E 00 F7"). F0/F7 framing is added when both are
+ * missing; every byte in between must be a 7-bit data byte.
+ */
+export function parseSysex(data: string | number[]): number[] {
+    const bytes = typeof data === "string" ? parseHexBytes(data) : [...data];
+    if (bytes.some((b) => !Number.isInteger(b) || b < 0 || b > 0xff)) {
+        throw new Error("SysEx bytes must be integers 0-255.");
+    }
+
+    const framed =
+        bytes[0] !== 0xf0 && bytes[bytes.length - 1] !== 0xf7 ? [0xf0, ...bytes, 0xf7] : bytes;
+    if (framed[0] !== 0xf0) throw new Error("SysEx must start with F0.");
+    if (framed[framed.length - 1] !== 0xf7) throw new Error("SysEx must end with F7.");
+    if (framed.length < 3) throw new Error("SysEx message has no data.");
+    if (framed.length > MAX_SYSEX_LENGTH) {
+        throw new Error(`SysEx message is longer than ${MAX_SYSEX_LENGTH} bytes.`);
+    }
+
+    const invalid = framed.slice(1, -1).findIndex((b) => b > 0x7f);
+    if (invalid !== -1) {
+        throw new Error(
+            `SysEx data byte ${invalid + 1} is 0x${framed[invalid + 1].toString(16).toUpperCase()}; data bytes must be 00-7F.`,
+        );
+    }
+    return framed;
+}
+
+function parseHexBytes(text: string): number[] {
+    const cleaned = text.replace(/0x/gi, "").replace(/[\s,]/g, "");
+    if (!/^([0-9a-f]{2})*$/i.test(cleaned)) {
+        throw new Error(`Invalid SysEx hex string "${text}".`);
+    }
+    return (cleaned.match(/../g) ?? []).map((pair) => parseInt(pair, 16));
+}
+
+function checkChannel(channel: number): number {
+    checkValue(channel, 15, "Channel");
+    return channel;
+}
+
+function checkValue(value: number, max: number, label: string): void {
+    if (!Number.isInteger(value) || value < 0 || value > max) {
+        throw new Error(`${label} must be an integer 0-${max}; got ${value}.`);
+    }
+}
@@ -0,0 +1,40 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { formatSmpte, mmcCommandMessage, mmcLocateMessage } from "./mmc.js";
+
+describe("mmcCommandMessage", () => {
+    it("builds transport commands for all devices", () => {
+        assert.deepEqual(mmcCommandMessage("play"), [0xf0, 0x7f, 0x7f, 0x06, 0x02, 0xf7]);
+        assert.deepEqual(mmcCommandMessage("stop"), [0xf0, 0x7f, 0x7f, 0x06, 0x01, 0xf7]);
+        assert.deepEqual(mmcCommandMessage("recordStrobe", 0x10), [0xf0, 0x7f, 0x10, 0x06, 0x06, 0xf7]);
+    });
+
+    it("rejects invalid device ids", () => {
+        assert.throws(() => mmcCommandMessage("play", 128), /device id/);
+    });
+});
+
+describe("mmcLocateMessage", () => {
+    it("encodes the target time with the frame rate in the hours byte", () => {
+        assert.deepEqual(
+            mmcLocateMessage({ hours: 1, minutes: 2, seconds: 3, frames: 4 }, 25),
+            [0xf0, 0x7f, 0x7f, 0x06, 0x44, 0x06, 0x01, 0x21, 2, 3, 4, 0, 0xf7],
+        );
+        assert.equal(mmcLocateMessage({ hours: 0, minutes: 0, seconds: 0, frames: 0 })[7], 0x60);
+    });
+
+    it("validates the time against the frame rate", () => {
+        assert.throws(
+            () => mmcLocateMessage({ hours: 0, minutes: 0, seconds: 0, frames: 25 }, 25),
+            /Invalid SMPTE time 00:00:00:25/,
+        );
+        assert.throws(() => mmcLocateMessage({ hours: 24, minutes: 0, seconds: 0, frames: 0 }));
+    });
+});
+
+describe("formatSmpte", () => {
+    it("pads fields and shows subframes when present", () => {
+        assert.equal(formatSmpte({ hours: 1, minutes: 0, seconds: 5, frames: 9 }), "01:00:05:09");
+        assert.equal(formatSmpte({ hours: 0, minutes: 0, seconds: 0, frames: 0, subframes: 50 }), "00:00:00:00.50");
+    });
+});
@@ -0,0 +1,100 @@
+/**
+ * MIDI Machine Control (MMC) SysEx messages.
+ *
+ * Logic Pro follows MMC commands when "Listen to MMC input" is enabled in
+ * Project Settings > Synchronization > MIDI. Unlike key commands these work
+ * without Logic having focus, and Play/Stop are absolute rather than toggles.
+ */
+
+export type MmcCommand =
+    | "stop"
+    | "play"
+    | "deferredPlay"
+    | "fastForward"
+    | "rewind"
+    | "recordStrobe"
+    | "recordExit"
+    | "pause";
+
+const MMC_COMMANDS: Record<MmcCommand, number> = {
+    stop: 0x01,
+    play: 0x02,
+    deferredPlay: 0x03,
+    fastForward: 0x04,
+    rewind: 0x05,
+    recordStrobe: 0x06,
+    recordExit: 0x07,
+    pause: 0x09,
+};
+
+const MMC_LOCATE = 0x44;
+
+/** Device id that addresses every receiver. */
+export const MMC_ALL_DEVICES = 0x7f;
+
+/** SMPTE frame rates and their MMC/MTC rate codes. */
+export type SmpteFrameRate = 24 | 25 | 29.97 | 30;
+
+const FRAME_RATE_CODES: Record<SmpteFrameRate, number> = { 24: 0, 25: 1, 29.97: 2, 30: 3 };
+
+export interface SmpteTime {
+    hours: number;
+    minutes: number;
+    seconds: number;
+    frames: number;
+    /** 1/100ths of a frame. Default: 0 */
+    subframes?: number;
+}
+
+export function mmcCommandMessage(command: MmcCommand, deviceId: number = MMC_ALL_DEVICES): number[] {
+    return [0xf0, 0x7f, checkDeviceId(deviceId), 0x06, MMC_COMMANDS[command], 0xf7];
+}
+
+/** MMC Locate (target) to a SMPTE time. */
+export function mmcLocateMessage(
+    time: SmpteTime,
+    frameRate: SmpteFrameRate = 30,
+    deviceId: number = MMC_ALL_DEVICES,
+): number[] {
+    const maxFrames = Math.ceil(frameRate);
+    if (
+        !inRange(time.hours, 23) ||
+        !inRange(time.minutes, 59) ||
+        !inRange(time.seconds, 59) ||
+        !inRange(time.frames, maxFrames - 1) ||
+        !inRange(time.subframes ?? 0, 99)
+    ) {
+        throw new Error(`Invalid SMPTE time ${formatSmpte(time)} at ${frameRate} fps.`);
+    }
+    return [
+        0xf0,
+        0x7f,
+        checkDeviceId(deviceId),
+        0x06,
+        MMC_LOCATE,
+        0x06,
+        0x01,
+        // Hours byte carries the frame rate in bits 5-6
+        (FRAME_RATE_CODES[frameRate] << 5) | time.hours,
+        time.minutes,
+        time.seconds,
+        time.frames,
+        time.subframes ?? 0,
+        0xf7,
+    ];
+}
+
+export function formatSmpte(time: SmpteTime): string {
+    const pad = (n: number) => String(n).padStart(2, "0");
+    const sub = time.subframes ? `.${pad(time.subframes)}` : "";
+    return `${pad(time.hours)}:${pad(time.minutes)}:${pad(time.seconds)}:${pad(time.frames)}${sub}`;
+}
+
+function inRange(value: number, max: number): boolean {
+    return Number.isInteger(value) && value >= 0 && value <= max;
+}
+
+function checkDeviceId(deviceId: number): number {
+    if (!inRange(deviceId, 0x7f)) throw new Error(`MMC device id must be 0-127; got ${deviceId}.`);
+    return deviceId;
+}
@@ -0,0 +1,128 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+    allocateVoices,
+    buildMpeEvents,
+    mpeConfigurationMessages,
+    zoneChannels,
+    type MpeNote,
+} from "./mpe.js";
+
+function note(pitch: number, start: number, duration: number = 1): MpeNote {
+    return { note: pitch, velocity: 100, start, duration };
+}
+
+describe("zoneChannels", () => {
+    it("puts lower zone members above channel 1 and upper zone members below 16", () => {
+        assert.deepEqual(zoneChannels({ zone: "lower", memberChannels: 3 }), {
+            master: 0,
+            members: [1, 2, 3],
+        });
+        assert.deepEqual(zoneChannels({ zone: "upper", memberChannels: 2 }), {
+            master: 15,
+            members: [14, 13],
+        });
+        assert.throws(() => zoneChannels({ zone: "lower", memberChannels: 16 }), /0-15/);
+    });
+});
+
+describe("mpeConfigurationMessages", () => {
+    it("sends RPN 6 on the master channel and bend ranges", () => {
+        const messages = mpeConfigurationMessages({ zone: "lower", memberChannels: 1, pitchBendRange: 24 });
+        assert.deepEqual(messages.slice(0, 3), [
+            [0xb0, 101, 0],
+            [0xb0, 100, 6],
+            [0xb0, 6, 1],
+        ]);
+        // Member channel 2 gets RPN 0 (pitch bend range) = 24
+        assert.ok(messages.some((m) => m[0] === 0xb1 && m[1] === 6 && m[2] === 24));
+        assert.ok(messages.some((m) => m[0] === 0xb0 && m[1] === 6 && m[2] === 2));
+    });
+
+    it("only sends the MCM when turning the zone off", () => {
+        const messages = mpeConfigurationMessages({ zone: "upper", memberChannels: 0 });
+        assert.deepEqual(messages[2], [0xbf, 6, 0]);
+        assert.equal(messages.length, 5);
+    });
+});
+
+describe("allocateVoices", () => {
+    it("gives overlapping notes their own channels", () => {
+        const voices = allocateVoices([note(60, 0), note(64, 0), note(67, 0)], [1, 2, 3]);
+        assert.deepEqual(voices.map((v) => v.channel), [1, 2, 3]);
+    });
+
+    it("reuses the channel released longest ago with lru", () => {
+        const voices = allocateVoices(
+            [note(60, 0, 2), note(62, 0, 1), note(64, 1.5), note(65, 3)],
+            [1, 2, 3],
+            "lru",
+        );
+        // Channel 3 was never used, channel 2 was released at beat 1
+        assert.deepEqual(voices.map((v) => v.channel), [1, 2, 3, 2]);
+    });
+
+    it("cycles through channels with round robin", () => {
+        const voices = allocateVoices(
+            [note(60, 0), note(62, 1), note(64, 2), note(65, 3)],
+            [1, 2, 3],
+            "roundRobin",
+        );
+        assert.deepEqual(voices.map((v) => v.channel), [1, 2, 3, 1]);
+    });
+
+    it("steals the oldest voice when all channels are busy", () => {
+        const voices = allocateVoices([note(60, 0, 4), note(64, 1, 4), note(67, 2, 4)], [1, 2]);
+        assert.deepEqual(voices.map((v) => v.channel), [1, 2, 1]);
+        assert.equal(voices[0].duration, 2);
+    });
+});
+
+describe("buildMpeEvents", () => {
+    it("sends expression on the note's channel before the note-on", () => {
+        const events = buildMpeEvents(
+            [{ ...note(60, 0, 1), pitch: [{ time: 0, value: 0 }, { time: 1, value: 12 }] }],
+            { zone: "lower", memberChannels: 15, pitchBendRange: 48 },
+            { timing: 100, interval: 50 },
+        );
+        assert.deepEqual(events.map((e) => [e.time, e.message]), [
+            [0, [0xe1, 0, 64]],
+            [0, [0xd1, 0]],
+            [0, [0xb1, 74, 64]],
+            [0, [0x91, 60, 100]],
+            // Halfway through the slide: +6 of ±48 semitones
+            [50, [0xe1, 0, 72]],
+            [100, [0x81, 60, 0]],
+        ]);
+    });
+
+    it("follows a changing tempo", () => {
+        // 100 ms per beat for the first beat, then twice as fast
+        const timing = (beats: number) => (beats <= 1 ? beats * 100 : 100 + (beats - 1) * 50);
+        const events = buildMpeEvents(
+            [{ ...note(60, 0, 2), pitch: [{ time: 0, value: 0 }, { time: 2, value: 12 }] }],
+            { zone: "lower", memberChannels: 15, pitchBendRange: 48 },
+            { timing, interval: 50 },
+        );
+        assert.deepEqual(events.map((e) => [e.time, e.message]), [
+            [0, [0xe1, 0, 64]],
+            [0, [0xd1, 0]],
+            [0, [0xb1, 74, 64]],
+            [0, [0x91, 60, 100]],
+            // Beat 0.5, then beat 1: +3 and +6 semitones
+            [50, [0xe1, 0, 68]],
+            [100, [0xe1, 0, 72]],
+            [150, [0x81, 60, 0]],
+        ]);
+    });
+
+    it("drops notes stolen at their own start", () => {
+        const events = buildMpeEvents(
+            [note(60, 0), note(64, 0)],
+            { zone: "lower", memberChannels: 1 },
+            { timing: 100 },
+        );
+        const noteOns = events.filter((e) => (e.message[0] & 0xf0) === 0x90);
+        assert.deepEqual(noteOns.map((e) => e.message[1]), [64]);
+    });
+});
@@ -0,0 +1,271 @@
+/**
+ * MIDI Polyphonic Expression (MPE).
+ *
+ * A zone has a master channel (1 for the lower zone, 16 for the upper)
+ * and a block of member channels next to it. Each sounding note gets a
+ * member channel of its own, so pitch bend, channel pressure and CC 74
+ * (timbre) on that channel only affect that note. Channels are 0-based
+ * here, as everywhere else in the MIDI modules.
+ */
+
+import {
+    channelPressureMessage,
+    controlChangeMessage,
+    parameterNumberMessages,
+    pitchBendMessage,
+    semitonesToPitchBend,
+} from "./messages.js";
+import { mergeEvents, timingToMs, type ScheduledEvent } from "./scheduler.js";
+import type { TimedNote } from "./timeline.js";
+
+export type MpeZone = "lower" | "upper";
+export type VoiceStealing = "roundRobin" | "lru";
+
+export interface MpeConfig {
+    zone: MpeZone;
+    /** Number of member channels, 1-15 */
+    memberChannels: number;
+    /** Pitch bend range of member channels in semitones. Default: 48 (the MPE default) */
+    pitchBendRange?: number;
+    /** Pitch bend range of the master channel in semitones. Default: 2 */
+    masterPitchBendRange?: number;
+}
+
+/** An expression value at a time relative to the note start, in beats. */
+export interface ExpressionPoint {
+    time: number;
+    value: number;
+}
+
+export interface MpeNote extends Omit<TimedNote, "channel"> {
+    /** Pitch bend in semitones over the life of the note (slides, vibrato) */
+    pitch?: ExpressionPoint[];
+    /** Channel pressure (0-127) over the life of the note */
+    pressure?: ExpressionPoint[];
+    /** CC 74 "timbre" / slide (0-127) over the life of the note */
+    timbre?: ExpressionPoint[];
+}
+
+export interface MpeScheduleOptions {
+    /** Ms per beat, or a function from beats to ms such as a tempo map's */
+    timing: number | ((beats: number) => number);
+    /** Default: "lru" */
+    stealing?: VoiceStealing;
+    /** Ms between interpolated expression values. Default: 10 */
+    interval?: number;
+}
+
+/** RPN 6, the MPE Configuration Message. */
+export const MCM_RPN = 6;
+export const DEFAULT_MEMBER_BEND_RANGE = 48;
+const DEFAULT_MASTER_BEND_RANGE = 2;
+const DEFAULT_INTERVAL = 10;
+const TIMBRE_CC = 74;
+
+export function zoneChannels(config: MpeConfig): { master: number; members: number[] } {
+    const count = config.memberChannels;
+    if (!Number.isInteger(count) || count < 0 || count > 15) {
+        throw new Error("An MPE zone has 0-15 member channels.");
+    }
+    const master = config.zone === "lower" ? 0 : 15;
+    const step = config.zone === "lower" ? 1 : -1;
+    return { master, members: Array.from({ length: count }, (_, i) => master + step * (i + 1)) };
+}
+
+/**
+ * MPE Configuration Message for a zone followed by the pitch bend ranges
+ * of its master and member channels. Zero member channels turns the zone off.
+ */
+export function mpeConfigurationMessages(config: MpeConfig): number[][] {
+    const { master, members } = zoneChannels(config);
+    const messages = parameterNumberMessages(master, MCM_RPN, config.memberChannels);
+    if (members.length === 0) return messages;
+
+    messages.push(
+        ...parameterNumberMessages(master, 0, config.masterPitchBendRange ?? DEFAULT_MASTER_BEND_RANGE),
+    );
+    for (const channel of members) {
+        messages.push(
+            ...parameterNumberMessages(channel, 0, config.pitchBendRange ?? DEFAULT_MEMBER_BEND_RANGE),
+        );
+    }
+    return messages;
+}
+
+/**
+ * Assign each note a member channel. Free channels are reused in rotation
+ * (round robin) or the one released longest ago (lru). When all channels
+ * are busy a voice is stolen: the next in rotation, or the one whose note
+ * started first. Stolen notes are cut short at the new note's start.
+ */
+export function allocateVoices(
+    notes: MpeNote[],
+    channels: number[],
+    stealing: VoiceStealing = "lru",
+): (TimedNote & { source: MpeNote })[] {
+    if (channels.length === 0) throw new Error("MPE needs at least one member channel.");
+
+    const voices = channels.map((channel) => ({
+        channel,
+        note: null as (TimedNote & { source: MpeNote }) | null,
+        releasedAt: -Infinity,
+    }));
+    let rotation = 0;
+    const result: (TimedNote & { source: MpeNote })[] = [];
+
+    for (const source of [...notes].sort((a, b) => a.start - b.start)) {
+        // Free voices whose note has ended
+        for (const voice of voices) {
+            if (voice.note && voice.note.start + voice.note.duration <= source.start) {
+                voice.releasedAt = voice.note.start + voice.note.duration;
+                voice.note = null;
+            }
+        }
+
+        const free = voices.filter((v) => v.note === null);
+        let voice: (typeof voices)[number];
+        if (free.length > 0) {
+            voice =
+                stealing === "roundRobin"
+                    ? nextInRotation(voices, rotation, (v) => v.note === null)
+                    : free.reduce((a, b) => (b.releasedAt < a.releasedAt ? b : a));
+        } else {
+            voice =
+                stealing === "roundRobin"
+                    ? nextInRotation(voices, rotation, () => true)
+                    : voices.reduce((a, b) => (b.note!.start < a.note!.start ? b : a));
+            const stolen = voice.note!;
+            stolen.duration = source.start - stolen.start;
+        }
+        rotation = (voices.indexOf(voice) + 1) % voices.length;
+
+        const timed = {
+            note: source.note,
+            velocity: source.velocity,
+            channel: voice.channel,
+            start: source.start,
+            duration: source.duration,
+            source,
+        };
+        voice.note = timed;
+        result.push(timed);
+    }
+    return result;
+}
+
+/**
+ * Build the scheduled events for MPE notes: each note's initial pitch
+ * bend, pressure and timbre go out on its member channel just before the
+ * note-on, followed by interpolated expression while it sounds.
+ */
+export function buildMpeEvents(
+    notes: MpeNote[],
+    config: MpeConfig,
+    options: MpeScheduleOptions,
+): ScheduledEvent[] {
+    const { members } = zoneChannels(config);
+    const range = config.pitchBendRange ?? DEFAULT_MEMBER_BEND_RANGE;
+    const interval = options.interval ?? DEFAULT_INTERVAL;
+    const toMs = timingToMs(options.timing);
+    const lists: ScheduledEvent[][] = [];
+
+    for (const voice of allocateVoices(notes, members, options.stealing)) {
+        // A note stolen by one starting at the same time never sounds
+        if (voice.duration <= 0) continue;
+        const start = toMs(voice.start);
+        const end = toMs(voice.start + voice.duration);
+        const beatsIntoNote = (ms: number) =>
+            typeof options.timing === "number"
+                ? (ms - start) / options.timing
+                : invertTiming(toMs, voice.start, voice.start + voice.duration, ms) - voice.start;
+        const { source, channel } = voice;
+        const expression = (
+            points: ExpressionPoint[] | undefined,
+            fallback: number,
+            toValue: (value: number) => number,
+            message: (value: number) => number[],
+        ) =>
+            renderExpression(points, fallback, toValue, start, end, beatsIntoNote, interval).map(
+                (p) => ({ time: p.time, message: message(p.value) }),
+            );
+
+        lists.push(
+            expression(
+                source.pitch,
+                0,
+                (semitones) => semitonesToPitchBend(semitones, range),
+                (value) => pitchBendMessage(channel, value),
+            ),
+            expression(source.pressure, 0, Math.round, (value) => channelPressureMessage(channel, value)),
+            expression(source.timbre, 64, Math.round, (value) =>
+                controlChangeMessage(channel, TIMBRE_CC, value),
+            ),
+            [
+                { time: start, message: [0x90 | channel, voice.note, voice.velocity] },
+                { time: end, message: [0x80 | channel, voice.note, 0] },
+            ],
+        );
+    }
+    return mergeEvents(...lists);
+}
+
+/**
+ * Expression values from note start to end, linearly interpolated between
+ * points and converted to message values by `toValue`; repeats are
+ * dropped. Without points only the fallback is sent at the start so the
+ * channel is reset from the previous note.
+ */
+function renderExpression(
+    points: ExpressionPoint[] | undefined,
+    fallback: number,
+    toValue: (value: number) => number,
+    start: number,
+    end: number,
+    beatsIntoNote: (ms: number) => number,
+    interval: number,
+): { time: number; value: number }[] {
+    const sorted = [...(points ?? [])].sort((a, b) => a.time - b.time);
+    if (sorted.length === 0) return [{ time: start, value: toValue(fallback) }];
+
+    const valueAt = (ms: number) => {
+        const beats = beatsIntoNote(ms);
+        if (beats <= sorted[0].time) return sorted[0].value;
+        for (let i = 1; i < sorted.length; i++) {
+            if (beats <= sorted[i].time) {
+                const a = sorted[i - 1];
+                const b = sorted[i];
+                return a.value + ((b.value - a.value) * (beats - a.time)) / (b.time - a.time);
+            }
+        }
+        return sorted[sorted.length - 1].value;
+    };
+
+    const result: { time: number; value: number }[] = [];
+    let last: number | undefined;
+    for (let time = start; time < end; time += interval) {
+        const value = toValue(valueAt(time));
+        if (value !== last) result.push({ time, value });
+        last = value;
+    }
+    return result.length > 0 ? result : [{ time: start, value: toValue(valueAt(start)) }];
+}
+
+/** The beat between `from` and `to` that a rising beats-to-ms function puts at `ms`. */
+function invertTiming(toMs: (beats: number) => number, from: number, to: number, ms: number): number {
+    let low = from;
+    let high = to;
+    for (let i = 0; i < 40; i++) {
+        const mid = (low + high) / 2;
+        if (toMs(mid) < ms) low = mid;
+        else high = mid;
+    }
+    return (low + high) / 2;
+}
+
+function nextInRotation<T>(items: T[], from: number, accept: (item: T) => boolean): T {
+    for (let i = 0; i < items.length; i++) {
+        const item = items[(from + i) % items.length];
+        if (accept(item)) return item;
+    }
+    return items[from % items.length];
+}
@@ -0,0 +1,56 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { noteName, parseNote } from "./note-names.js";
+
+describe("parseNote", () => {
+    it("uses Logic's naming (60 = C3) by default convention", () => {
+        assert.equal(parseNote("C3", "C3"), 60);
+        assert.equal(parseNote("A3", "C3"), 69);
+        assert.equal(parseNote("C-2", "C3"), 0);
+        assert.equal(parseNote("G8", "C3"), 127);
+    });
+
+    it("supports scientific pitch notation (60 = C4)", () => {
+        assert.equal(parseNote("C4", "C4"), 60);
+        assert.equal(parseNote("Eb3", "C4"), 51);
+        assert.equal(parseNote("F##2", "C4"), 43);
+        assert.equal(parseNote("C-1", "C4"), 0);
+    });
+
+    it("accepts sharps, flats and lowercase letters", () => {
+        assert.equal(parseNote("c#3", "C3"), 61);
+        assert.equal(parseNote("Db3", "C3"), 61);
+        assert.equal(parseNote("B♭2", "C3"), 58);
+        assert.equal(parseNote("Cb3", "C3"), 59);
+    });
+
+    it("passes numbers and numeric strings through", () => {
+        assert.equal(parseNote(64), 64);
+        assert.equal(parseNote("64"), 64);
+    });
+
+    it("rejects invalid names and out-of-range notes", () => {
+        assert.throws(() => parseNote("H3"), /Invalid note/);
+        assert.throws(() => parseNote("C"), /Invalid note/);
+        assert.throws(() => parseNote(128), /outside the MIDI range/);
+        assert.throws(() => parseNote("G#8", "C3"), /outside the MIDI range/);
+        assert.throws(() => parseNote(60.5), /outside the MIDI range/);
+    });
+});
+
+describe("noteName", () => {
+    it("names notes under both conventions", () => {
+        assert.equal(noteName(60, "C3"), "C3");
+        assert.equal(noteName(60, "C4"), "C4");
+        assert.equal(noteName(0, "C3"), "C-2");
+        assert.equal(noteName(70, "C4", true), "Bb4");
+        assert.equal(noteName(70, "C4"), "A#4");
+    });
+
+    it("round-trips with parseNote", () => {
+        for (let n = 0; n <= 127; n++) {
+            assert.equal(parseNote(noteName(n, "C3"), "C3"), n);
+            assert.equal(parseNote(noteName(n, "C4"), "C4"), n);
+        }
+    });
+});
@@ -0,0 +1,98 @@
+/**
+ * Note name parsing and formatting ("C4", "Eb3", "F##2").
+ *
+ * Octave numbering depends on the middle-C convention: Logic Pro names
+ * MIDI note 60 "C3", scientific pitch notation names it "C4". The default
+ * is Logic's and can be changed with LOGIC_PRO_MCP_MIDDLE_C=C4 or at
+ * runtime via setMiddleC().
+ */
+
+export type MiddleC = "C3" | "C4";
+
+/** A MIDI note number or a note name */
+export type NoteValue = number | string;
+
+const SHARP_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+const FLAT_NAMES = ["C", "Db", "D", "Eb", "E", "F", "Gb", "G", "Ab", "A", "Bb", "B"];
+const LETTER_PITCHES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+let middleC: MiddleC = process.env.LOGIC_PRO_MCP_MIDDLE_C === "C4" ? "C4" : "C3";
+
+export function getMiddleC(): MiddleC {
+    return middleC;
+}
+
+export function setMiddleC(convention: MiddleC): void {
+    if (convention !== "C3" && convention !== "C4") {
+        throw new Error(`Invalid middle C convention "${convention}". Use "C3" or "C4".`);
+    }
+    middleC = convention;
+}
+
+/** Octave number that contains middle C (60) under a convention. */
+export function middleCOctave(convention: MiddleC = middleC): number {
+    return convention === "C3" ? 3 : 4;
+}
+
+/** Parse a pitch class name such as "C", "F#", "Bb" or "E##". */
+export function parsePitchClass(name: string): number {
+    const match = name.trim().match(/^([A-Ga-g])([#b♯♭]*)$/);
+    if (!match) throw new Error(`Invalid note name "${name}".`);
+    return mod12(LETTER_PITCHES[match[1].toUpperCase()] + accidentalOffset(match[2]));
+}
+
+export function pitchClassName(pitchClass: number, flats: boolean = false): string {
+    return (flats ? FLAT_NAMES : SHARP_NAMES)[mod12(pitchClass)];
+}
+
+/**
+ * Resolve a note number or name ("C4", "Eb3", "F##2", "A-1") to a MIDI
+ * note number, using the given middle-C convention.
+ */
+export function parseNote(value: NoteValue, convention: MiddleC = middleC): number {
+    if (typeof value === "number") return checkRange(value, String(value));
+
+    const text = value.trim();
+    if (/^\d+$/.test(text)) return checkRange(Number(text), text);
+
+    const match = text.match(/^([A-Ga-g])([#b♯♭]*)(-?\d+)$/);
+    if (!match) {
+        throw new Error(`Invalid note "${value}". Use a MIDI number or a name like "C3", "Eb2", "F#4".`);
+    }
+
+    const letter = LETTER_PITCHES[match[1].toUpperCase()];
+    const octave = Number(match[3]);
+    // Octave offset so that middle C (60) lands on the convention's octave number
+    const base = (octave - middleCOctave(convention) + 5) * 12;
+    return checkRange(base + letter + accidentalOffset(match[2]), text);
+}
+
+/** Name a MIDI note number, e.g. 60 → "C3" (Logic) or "C4" (scientific). */
+export function noteName(
+    note: number,
+    convention: MiddleC = middleC,
+    flats: boolean = false,
+): string {
+    const octave = Math.floor(note / 12) - 5 + middleCOctave(convention);
+    return `${pitchClassName(note, flats)}${octave}`;
+}
+
+export function accidentalOffset(accidentals: string): number {
+    let offset = 0;
+    for (const c of accidentals) {
+        if (c === "#" || c === "♯") offset++;
+        else if (c === "b" || c === "♭") offset--;
+    }
+    return offset;
+}
+
+export function mod12(value: number): number {
+    return ((value % 12) + 12) % 12;
+}
+
+function checkRange(note: number, text: string): number {
+    if (!Number.isInteger(note) || note < 0 || note > 127) {
+        throw new Error(`Note "${text}" is outside the MIDI range 0-127.`);
+    }
+    return note;
+}
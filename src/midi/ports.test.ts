@@ -0,0 +1,26 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { findPortIndex } from "./ports.js";
+
+const PORTS = ["IAC Driver Bus 1", "IAC Driver Bus 2", "Logic Pro MCP In", "Keystation"];
+
+describe("findPortIndex", () => {
+    it("matches the whole name, ignoring case", () => {
+        assert.equal(findPortIndex(PORTS, "IAC Driver Bus 2"), 1);
+        assert.equal(findPortIndex(PORTS, "keystation"), 3);
+    });
+
+    it("does not match part of a name", () => {
+        assert.equal(findPortIndex(PORTS, "IAC"), -1);
+        assert.equal(findPortIndex(PORTS, "In"), -1);
+    });
+
+    it("prefers the exact spelling over a match ignoring case", () => {
+        assert.equal(findPortIndex(["synth", "Synth"], "Synth"), 1);
+    });
+
+    it("rejects a name that fits several ports", () => {
+        assert.throws(() => findPortIndex(["Synth", "SYNTH"], "synth"), /matches 2 ports: "Synth", "SYNTH"/);
+        assert.throws(() => findPortIndex(["Synth", "Synth"], "Synth"), /matches 2 ports/);
+    });
+});
@@ -0,0 +1,24 @@
+/**
+ * Matching a MIDI port name someone typed against the ports there are.
+ * Outputs and inputs use the same rule: the exact name, or the name
+ * ignoring case. A name that fits more than one port is an error rather
+ * than whichever the system happens to list first.
+ */
+
+/** Index of the port called `portName` in `names`, or -1 if there is none. */
+export function findPortIndex(names: string[], portName: string): number {
+    const exact = indexesWhere(names, (name) => name === portName);
+    if (exact.length === 1) return exact[0];
+
+    const lower = portName.toLowerCase();
+    const matches = exact.length > 1 ? exact : indexesWhere(names, (name) => name.toLowerCase() === lower);
+    if (matches.length > 1) {
+        const listed = matches.map((i) => `"${names[i]}"`).join(", ");
+        throw new Error(`MIDI port name "${portName}" matches ${matches.length} ports: ${listed}.`);
+    }
+    return matches[0] ?? -1;
+}
+
+function indexesWhere(names: string[], test: (name: string) => boolean): number[] {
+    return names.flatMap((name, index) => (test(name) ? [index] : []));
+}
@@ -0,0 +1,95 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+    barPositionToBeats,
+    beatsToBarPosition,
+    beatsToSeconds,
+    parsePosition,
+    secondsToSmpte,
+    smpteToSeconds,
+    type PositionContext,
+} from "./position.js";
+import { songPositionMessage } from "./messages.js";
+
+const FOUR_FOUR: PositionContext = { bpm: 120, timeSignature: { numerator: 4, denominator: 4 } };
+const SIX_EIGHT: PositionContext = { bpm: 90, timeSignature: { numerator: 6, denominator: 8 } };
+
+describe("parsePosition", () => {
+    it("parses bar positions with missing fields defaulting to 1", () => {
+        assert.deepEqual(parsePosition("33"), {
+            kind: "bars",
+            position: { bar: 33, beat: 1, division: 1, tick: 1 },
+        });
+        assert.deepEqual(parsePosition("bar 9 3 2 120").kind, "bars");
+        assert.deepEqual(parsePosition("9.3.2.120"), {
+            kind: "bars",
+            position: { bar: 9, beat: 3, division: 2, tick: 120 },
+        });
+    });
+
+    it("parses SMPTE and seconds", () => {
+        assert.deepEqual(parsePosition("01:00:05:12"), {
+            kind: "smpte",
+            time: { hours: 1, minutes: 0, seconds: 5, frames: 12, subframes: 0 },
+        });
+        assert.deepEqual(parsePosition("95.5s"), { kind: "seconds", seconds: 95.5 });
+    });
+
+    it("rejects nonsense and zero-based positions", () => {
+        assert.throws(() => parsePosition("chorus"), /Invalid position/);
+        assert.throws(() => parsePosition("0.1.1.1"), /start at 1/);
+    });
+});
+
+describe("bar positions", () => {
+    it("converts bars to quarter-note beats", () => {
+        assert.equal(barPositionToBeats({ bar: 33, beat: 1, division: 1, tick: 1 }, FOUR_FOUR), 128);
+        assert.equal(barPositionToBeats({ bar: 1, beat: 2, division: 3, tick: 241 }, FOUR_FOUR), 1.75);
+        // 6/8: a bar is three quarter notes, a beat an eighth
+        assert.equal(barPositionToBeats({ bar: 3, beat: 4, division: 1, tick: 1 }, SIX_EIGHT), 7.5);
+        assert.throws(
+            () => barPositionToBeats({ bar: 1, beat: 5, division: 1, tick: 1 }, FOUR_FOUR),
+            /Beat 5/,
+        );
+    });
+
+    it("round-trips beats to bar positions", () => {
+        for (const beats of [0, 1.75, 128, 7.5, 3.001]) {
+            for (const context of [FOUR_FOUR, SIX_EIGHT]) {
+                const position = beatsToBarPosition(beats, context);
+                assert.ok(Math.abs(barPositionToBeats(position, context) - beats) < 1 / 960);
+            }
+        }
+        assert.deepEqual(beatsToBarPosition(1.75, FOUR_FOUR), { bar: 1, beat: 2, division: 4, tick: 1 });
+    });
+
+    it("converts beats to seconds at the tempo", () => {
+        assert.equal(beatsToSeconds(128, 120), 64);
+    });
+});
+
+describe("SMPTE", () => {
+    it("converts non-drop timecode both ways", () => {
+        const time = { hours: 1, minutes: 2, seconds: 3, frames: 12, subframes: 0 };
+        assert.equal(smpteToSeconds(time, 25), 3723.48);
+        assert.deepEqual(secondsToSmpte(3723.48, 25), time);
+        assert.deepEqual(secondsToSmpte(0.5, 30), { hours: 0, minutes: 0, seconds: 0, frames: 15, subframes: 0 });
+    });
+
+    it("skips dropped frame numbers at 29.97", () => {
+        // 00:00:59;29 is followed by 00:01:00;02
+        const before = smpteToSeconds({ hours: 0, minutes: 0, seconds: 59, frames: 29 }, 29.97);
+        const after = secondsToSmpte(before + 1001 / 30000, 29.97);
+        assert.deepEqual(after, { hours: 0, minutes: 1, seconds: 0, frames: 2, subframes: 0 });
+        // Every tenth minute keeps its frames
+        const tenth = secondsToSmpte(smpteToSeconds({ hours: 0, minutes: 10, seconds: 0, frames: 0 }, 29.97), 29.97);
+        assert.deepEqual(tenth, { hours: 0, minutes: 10, seconds: 0, frames: 0, subframes: 0 });
+    });
+});
+
+describe("songPositionMessage", () => {
+    it("encodes sixteenths as 14-bit LSB/MSB", () => {
+        assert.deepEqual(songPositionMessage(512), [0xf2, 0, 4]);
+        assert.throws(() => songPositionMessage(20000), /Song position/);
+    });
+});
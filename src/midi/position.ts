@@ -0,0 +1,179 @@
+/**
+ * Song position conversion between Logic's bar.beat.division.tick display,
+ * quarter-note beats, seconds and SMPTE timecode, at a constant tempo and
+ * meter. Bars, beats, divisions and ticks are 1-based as in Logic's LCD;
+ * a quarter note has 960 ticks.
+ */
+
+import type { SmpteFrameRate, SmpteTime } from "./mmc.js";
+import type { TimeSignature } from "./timeline.js";
+
+export interface BarPosition {
+    bar: number;
+    beat: number;
+    division: number;
+    tick: number;
+}
+
+export interface PositionContext {
+    bpm: number;
+    timeSignature: TimeSignature;
+    /** Division note value, as in Logic's LCD (16 = sixteenths). Default: 16 */
+    division?: number;
+}
+
+/** A position given as bars, SMPTE or seconds. */
+export type ParsedPosition =
+    | { kind: "bars"; position: BarPosition }
+    | { kind: "smpte"; time: SmpteTime }
+    | { kind: "seconds"; seconds: number };
+
+export const TICKS_PER_QUARTER = 960;
+const DEFAULT_DIVISION = 16;
+
+/**
+ * Parse "33", "33.3", "33 2 1 1" or "33.2.1.120" as bars, "01:00:05:12"
+ * (or "01:00:05;12" for drop frame) as SMPTE and "95.5s" as seconds.
+ */
+export function parsePosition(text: string): ParsedPosition {
+    const trimmed = text.trim();
+
+    const smpte = trimmed.match(/^(\d{1,2}):(\d{1,2}):(\d{1,2})[:;.](\d{1,2})(?:\.(\d{1,2}))?$/);
+    if (smpte) {
+        return {
+            kind: "smpte",
+            time: {
+                hours: Number(smpte[1]),
+                minutes: Number(smpte[2]),
+                seconds: Number(smpte[3]),
+                frames: Number(smpte[4]),
+                subframes: smpte[5] === undefined ? 0 : Number(smpte[5]),
+            },
+        };
+    }
+
+    const seconds = trimmed.match(/^(\d+(?:\.\d+)?)\s*(s|sec|secs|seconds)$/i);
+    if (seconds) return { kind: "seconds", seconds: Number(seconds[1]) };
+
+    const bars = trimmed.match(/^(?:bar\s*)?(\d+)(?:[.\s]+(\d+))?(?:[.\s]+(\d+))?(?:[.\s]+(\d+))?$/i);
+    if (bars) {
+        const [bar, beat, division, tick] = bars.slice(1).map((v) => (v === undefined ? 1 : Number(v)));
+        if ([bar, beat, division, tick].some((v) => v < 1)) {
+            throw new Error(`Invalid position "${text}": bars, beats, divisions and ticks start at 1.`);
+        }
+        return { kind: "bars", position: { bar, beat, division, tick } };
+    }
+
+    throw new Error(
+        `Invalid position "${text}". Use bars ("33" or "33.2.1.1"), SMPTE ("01:00:10:00") or seconds ("95.5s").`,
+    );
+}
+
+/** Quarter-note beats from the project start to a bar position. */
+export function barPositionToBeats(position: BarPosition, context: PositionContext): number {
+    const { barBeats, beatBeats, divisionBeats } = gridSizes(context);
+    if (position.beat > context.timeSignature.numerator) {
+        throw new Error(
+            `Beat ${position.beat} does not exist in ${context.timeSignature.numerator}/${context.timeSignature.denominator}.`,
+        );
+    }
+    return (
+        (position.bar - 1) * barBeats +
+        (position.beat - 1) * beatBeats +
+        (position.division - 1) * divisionBeats +
+        (position.tick - 1) / TICKS_PER_QUARTER
+    );
+}
+
+export function beatsToBarPosition(beats: number, context: PositionContext): BarPosition {
+    const { barBeats, beatBeats, divisionBeats } = gridSizes(context);
+    let ticks = Math.round(beats * TICKS_PER_QUARTER);
+    const take = (size: number) => {
+        const unit = Math.round(size * TICKS_PER_QUARTER);
+        const count = Math.floor(ticks / unit);
+        ticks -= count * unit;
+        return count + 1;
+    };
+    const bar = take(barBeats);
+    const beat = take(beatBeats);
+    const division = take(divisionBeats);
+    return { bar, beat, division, tick: ticks + 1 };
+}
+
+export function beatsToSeconds(beats: number, bpm: number): number {
+    return (beats * 60) / bpm;
+}
+
+export function secondsToBeats(seconds: number, bpm: number): number {
+    return (seconds * bpm) / 60;
+}
+
+/**
+ * Seconds represented by a SMPTE time. At 29.97 fps drop-frame counting is
+ * used: frame numbers 0 and 1 are skipped each minute except every tenth.
+ */
+export function smpteToSeconds(time: SmpteTime, frameRate: SmpteFrameRate): number {
+    const subframe = (time.subframes ?? 0) / 100;
+    if (frameRate !== 29.97) {
+        return time.hours * 3600 + time.minutes * 60 + time.seconds + (time.frames + subframe) / frameRate;
+    }
+    const totalMinutes = time.hours * 60 + time.minutes;
+    const dropped = 2 * (totalMinutes - Math.floor(totalMinutes / 10));
+    const frameNumber = (totalMinutes * 60 + time.seconds) * 30 + time.frames - dropped;
+    return (frameNumber + subframe) / (30000 / 1001);
+}
+
+export function secondsToSmpte(seconds: number, frameRate: SmpteFrameRate): SmpteTime {
+    if (seconds < 0) throw new Error("SMPTE time cannot be negative.");
+    let frames: number;
+    let subframes: number;
+    if (frameRate === 29.97) {
+        const exact = seconds * (30000 / 1001);
+        const frameNumber = Math.floor(exact + 1e-6);
+        subframes = Math.round((exact - frameNumber) * 100) % 100;
+        // Add back the dropped frame numbers to get a 30 fps label count
+        const perTenMinutes = 17982;
+        const perMinute = 1798;
+        const tens = Math.floor(frameNumber / perTenMinutes);
+        const rest = frameNumber % perTenMinutes;
+        frames = frameNumber + 18 * tens + (rest > 1 ? 2 * Math.floor((rest - 2) / perMinute) : 0);
+        return splitFrames(frames, 30, subframes);
+    }
+    const exact = seconds * frameRate;
+    frames = Math.floor(exact + 1e-6);
+    subframes = Math.round((exact - frames) * 100) % 100;
+    return splitFrames(frames, frameRate, subframes);
+}
+
+/** Parse a SMPTE string such as "01:00:00:00". */
+export function parseSmpte(text: string): SmpteTime {
+    const parsed = parsePosition(text);
+    if (parsed.kind !== "smpte") throw new Error(`Invalid SMPTE time "${text}". Expected e.g. "01:00:00:00".`);
+    return parsed.time;
+}
+
+export function formatBarPosition(position: BarPosition): string {
+    return `${position.bar} ${position.beat} ${position.division} ${position.tick}`;
+}
+
+function splitFrames(totalFrames: number, fps: number, subframes: number): SmpteTime {
+    const frames = totalFrames % fps;
+    const totalSeconds = Math.floor(totalFrames / fps);
+    return {
+        hours: Math.floor(totalSeconds / 3600) % 24,
+        minutes: Math.floor(totalSeconds / 60) % 60,
+        seconds: totalSeconds % 60,
+        frames,
+        subframes,
+    };
+}
+
+function gridSizes(context: PositionContext) {
+    const { numerator, denominator } = context.timeSignature;
+    const beatBeats = 4 / denominator;
+    return {
+        barBeats: numerator * beatBeats,
+        beatBeats,
+        divisionBeats: 4 / (context.division ?? DEFAULT_DIVISION),
+    };
+}
@@ -0,0 +1,18 @@
+/**
+ * Seeded pseudo-random numbers (mulberry32) so generated variation such as
+ * sample-and-hold LFOs or humanized timing can be reproduced exactly.
+ */
+
+/** Returns a generator of floats in [0, 1). Without a seed the output is unseeded. */
+export function createRandom(seed?: number): () => number {
+    if (seed === undefined) return Math.random;
+
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
@@ -0,0 +1,140 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildNoteEvents, mergeEvents, playEvents } from "./scheduler.js";
+
+describe("buildNoteEvents", () => {
+    it("interleaves overlapping voices by time", () => {
+        const events = buildNoteEvents(
+            [
+                { note: 48, velocity: 80, channel: 0, start: 0, duration: 4 },
+                { note: 72, velocity: 100, channel: 0, start: 0, duration: 1 },
+                { note: 74, velocity: 100, channel: 0, start: 1, duration: 1 },
+            ],
+            500,
+        );
+
+        assert.deepEqual(events, [
+            { time: 0, message: [0x90, 48, 80] },
+            { time: 0, message: [0x90, 72, 100] },
+            { time: 500, message: [0x80, 72, 0] },
+            { time: 500, message: [0x90, 74, 100] },
+            { time: 1000, message: [0x80, 74, 0] },
+            { time: 2000, message: [0x80, 48, 0] },
+        ]);
+    });
+
+    it("re-triggers overlapping notes of the same pitch and releases once", () => {
+        const events = buildNoteEvents(
+            [
+                { note: 60, velocity: 100, channel: 1, start: 0, duration: 2 },
+                { note: 60, velocity: 90, channel: 1, start: 1, duration: 2 },
+            ],
+            1,
+        );
+
+        assert.deepEqual(events, [
+            { time: 0, message: [0x91, 60, 100] },
+            { time: 1, message: [0x81, 60, 0] },
+            { time: 1, message: [0x91, 60, 90] },
+            { time: 3, message: [0x81, 60, 0] },
+        ]);
+    });
+
+    it("accepts a timing function for changing tempos", () => {
+        const events = buildNoteEvents(
+            [{ note: 60, velocity: 100, channel: 0, start: 1, duration: 1 }],
+            (beats) => beats * beats * 100,
+        );
+
+        assert.deepEqual(events, [
+            { time: 100, message: [0x90, 60, 100] },
+            { time: 400, message: [0x80, 60, 0] },
+        ]);
+    });
+});
+
+describe("mergeEvents", () => {
+    it("orders note offs, then controllers, then note ons at the same time", () => {
+        const merged = mergeEvents(
+            [{ time: 10, message: [0x90, 60, 100] }],
+            [{ time: 10, message: [0xb0, 1, 64] }],
+            [{ time: 10, message: [0x80, 59, 0] }],
+        );
+        assert.deepEqual(
+            merged.map((e) => e.message[0]),
+            [0x80, 0xb0, 0x90],
+        );
+    });
+});
+
+describe("playEvents", () => {
+    it("schedules against the start time so late wake-ups don't accumulate", async () => {
+        let clock = 0;
+        const sent: [number, number[]][] = [];
+        // Every sleep overshoots by 7ms
+        const sleep = async (ms: number) => {
+            clock += ms + 7;
+        };
+
+        await playEvents(
+            [
+                { time: 0, message: [1] },
+                { time: 100, message: [2] },
+                { time: 200, message: [3] },
+                { time: 300, message: [4] },
+            ],
+            (message) => sent.push([clock, message]),
+            { now: () => clock, sleep },
+        );
+
+        assert.deepEqual(sent, [
+            [0, [1]],
+            [107, [2]],
+            [207, [3]],
+            [307, [4]],
+        ]);
+    });
+
+    it("stops when aborted and releases sounding notes", async () => {
+        const controller = new AbortController();
+        const sent: number[][] = [];
+        let clock = 0;
+
+        await playEvents(
+            [
+                { time: 0, message: [0x92, 60, 100] },
+                { time: 100, message: [0x82, 60, 0] },
+            ],
+            (message) => {
+                sent.push(message);
+                controller.abort();
+            },
+            {
+                signal: controller.signal,
+                now: () => clock,
+                sleep: async (ms) => {
+                    clock += ms;
+                },
+            },
+        );
+
+        assert.deepEqual(sent, [
+            [0x92, 60, 100],
+            [0x82, 60, 0],
+        ]);
+    });
+});
+
+describe("playEvents with real timers", () => {
+    it("returns promptly when aborted during a long wait", async () => {
+        const controller = new AbortController();
+        const started = performance.now();
+        setTimeout(() => controller.abort(), 20);
+
+        await playEvents([{ time: 10_000, message: [0x90, 60, 100] }], () => {}, {
+            signal: controller.signal,
+        });
+
+        assert.ok(performance.now() - started < 1000);
+    });
+});
@@ -0,0 +1,172 @@
+/**
+ * Absolute-timestamp MIDI event scheduler.
+ *
+ * Notes from any number of voices are flattened into one sorted list of
+ * note-on/off events. Playback waits for each event's target time measured
+ * against a monotonic clock from the start of playback, so setTimeout
+ * latency delays individual events slightly but never accumulates.
+ */
+
+import type { TimedNote } from "./timeline.js";
+
+export interface ScheduledEvent {
+    /** Milliseconds from the start of playback */
+    time: number;
+    message: number[];
+}
+
+export interface PlaybackOptions {
+    /** Stops playback before the next event when aborted */
+    signal?: AbortSignal;
+    /** Monotonic clock in ms. Default: performance.now */
+    now?: () => number;
+    sleep?: (ms: number) => Promise<void>;
+}
+
+// Sort order for events sharing a timestamp: releases first, then
+// controllers/other messages, then new notes
+const NOTE_OFF_ORDER = 0;
+const OTHER_ORDER = 1;
+const NOTE_ON_ORDER = 2;
+
+/** A `timing` factor or function (see buildNoteEvents) as a position-to-ms function. */
+export function timingToMs(timing: number | ((position: number) => number)): (position: number) => number {
+    return typeof timing === "number" ? (position) => position * timing : timing;
+}
+
+/**
+ * Build note-on/off events for notes positioned in arbitrary units.
+ * `timing` converts note positions to milliseconds: a factor (1 for
+ * ms-based notes, 60000 / bpm for beat-based notes) or a function, such as
+ * a tempo map's, for tempos that change.
+ *
+ * Overlapping notes with the same channel and pitch are merged: the key is
+ * re-triggered on each new note and only released when the last one ends.
+ */
+export function buildNoteEvents(
+    notes: TimedNote[],
+    timing: number | ((position: number) => number),
+): ScheduledEvent[] {
+    const toMs = timingToMs(timing);
+    const raw: (ScheduledEvent & { order: number; key: string })[] = [];
+
+    for (const n of notes) {
+        const channel = n.channel & 0x0f;
+        const key = `${channel}:${n.note & 0x7f}`;
+        const start = Math.max(0, toMs(n.start));
+        const end = Math.max(start, toMs(n.start + n.duration));
+        raw.push({
+            time: start,
+            order: NOTE_ON_ORDER,
+            key,
+            message: [0x90 | channel, n.note & 0x7f, n.velocity & 0x7f],
+        });
+        raw.push({
+            time: end,
+            order: NOTE_OFF_ORDER,
+            key,
+            message: [0x80 | channel, n.note & 0x7f, 0],
+        });
+    }
+
+    raw.sort((a, b) => a.time - b.time || a.order - b.order);
+
+    const held = new Map<string, number>();
+    const events: ScheduledEvent[] = [];
+    for (const event of raw) {
+        const count = held.get(event.key) ?? 0;
+        if (event.order === NOTE_ON_ORDER) {
+            if (count > 0) {
+                // Re-trigger: release the sounding key before striking it again
+                events.push({ time: event.time, message: [event.message[0] - 0x10, event.message[1], 0] });
+            }
+            held.set(event.key, count + 1);
+            events.push({ time: event.time, message: event.message });
+        } else {
+            held.set(event.key, count - 1);
+            if (count === 1) events.push({ time: event.time, message: event.message });
+        }
+    }
+    return events;
+}
+
+/** Merge event lists (e.g. notes and controller curves) into one timeline. */
+export function mergeEvents(...lists: ScheduledEvent[][]): ScheduledEvent[] {
+    return lists
+        .flat()
+        .map((event, index) => ({ event, index, order: eventOrder(event.message) }))
+        .sort((a, b) => a.event.time - b.event.time || a.order - b.order || a.index - b.index)
+        .map(({ event }) => event);
+}
+
+function eventOrder(message: number[]): number {
+    const kind = message[0] & 0xf0;
+    if (kind === 0x80 || (kind === 0x90 && message[2] === 0)) return NOTE_OFF_ORDER;
+    if (kind === 0x90) return NOTE_ON_ORDER;
+    return OTHER_ORDER;
+}
+
+/**
+ * Send events at their scheduled times. Events are expected to be sorted
+ * (as returned by buildNoteEvents/mergeEvents). Resolves once the last
+ * event has been sent, or as soon as the signal is aborted; on abort every
+ * note this playback started is released so nothing is left hanging.
+ */
+export async function playEvents(
+    events: ScheduledEvent[],
+    send: (message: number[]) => void,
+    options: PlaybackOptions = {},
+): Promise<void> {
+    const now = options.now ?? (() => performance.now());
+    const sleep = options.sleep ?? ((ms: number) => abortableSleep(ms, options.signal));
+    const sounding = new Map<string, number[]>();
+    const startTime = now();
+
+    const releaseSounding = () => {
+        for (const [, [status, note]] of sounding) {
+            send([0x80 | (status & 0x0f), note, 0]);
+        }
+        sounding.clear();
+    };
+
+    for (const event of events) {
+        const wait = startTime + event.time - now();
+        if (wait > 0 && !options.signal?.aborted) {
+            await sleep(wait);
+        }
+        if (options.signal?.aborted) {
+            releaseSounding();
+            return;
+        }
+
+        send(event.message);
+        trackSounding(sounding, event.message);
+    }
+}
+
+/** Total length of an event list in ms. */
+export function eventsDuration(events: ScheduledEvent[]): number {
+    return events.reduce((end, e) => Math.max(end, e.time), 0);
+}
+
+function trackSounding(sounding: Map<string, number[]>, message: number[]): void {
+    const kind = message[0] & 0xf0;
+    if (kind !== 0x80 && kind !== 0x90) return;
+    const key = `${message[0] & 0x0f}:${message[1]}`;
+    if (kind === 0x90 && message[2] > 0) sounding.set(key, message);
+    else sounding.delete(key);
+}
+
+function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            resolve();
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
@@ -0,0 +1,215 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readSmf, summarizeSmf, varLen, writeSmf } from "./smf.js";
+import { createTempoMap } from "./tempo-map.js";
+
+const NOTE = { note: 60, velocity: 100, channel: 0, start: 0, duration: 1 };
+
+function chunkIds(data: Uint8Array): string[] {
+    const ids: string[] = [];
+    let offset = 0;
+    while (offset < data.length) {
+        ids.push(Buffer.from(data.subarray(offset, offset + 4)).toString("ascii"));
+        const length = Buffer.from(data.subarray(offset + 4, offset + 8)).readUInt32BE(0);
+        offset += 8 + length;
+    }
+    return ids;
+}
+
+describe("varLen", () => {
+    it("encodes variable-length quantities", () => {
+        assert.deepEqual(varLen(0), [0x00]);
+        assert.deepEqual(varLen(0x7f), [0x7f]);
+        assert.deepEqual(varLen(0x80), [0x81, 0x00]);
+        assert.deepEqual(varLen(0x3fff), [0xff, 0x7f]);
+        assert.deepEqual(varLen(0x0fffffff), [0xff, 0xff, 0xff, 0x7f]);
+    });
+});
+
+describe("writeSmf", () => {
+    it("writes a Type 0 file with tempo, meter, notes and end of track", () => {
+        const data = writeSmf({ bpm: 120, ppq: 96, format: 0, tracks: [{ notes: [NOTE] }] });
+
+        assert.deepEqual([...data.subarray(8, 14)], [0, 0, 0, 1, 0, 96]);
+        assert.deepEqual([...data.subarray(22)], [
+            0x00, 0xff, 0x51, 0x03, 0x07, 0xa1, 0x20, // 500000 µs per quarter
+            0x00, 0xff, 0x58, 0x04, 4, 2, 24, 8, // 4/4
+            0x00, 0x90, 60, 100,
+            0x60, 0x80, 60, 0, // 96 ticks later
+            0x00, 0xff, 0x2f, 0x00,
+        ]);
+    });
+
+    it("writes a Type 1 file with a tempo track and one track per part", () => {
+        const data = writeSmf({
+            bpm: 90,
+            timeSignature: { numerator: 7, denominator: 8 },
+            tracks: [
+                { name: "Bass", notes: [NOTE] },
+                { name: "Keys", notes: [{ ...NOTE, channel: 1 }] },
+            ],
+        });
+
+        assert.deepEqual([...data.subarray(8, 12)], [0, 1, 0, 3]);
+        assert.deepEqual(chunkIds(data), ["MThd", "MTrk", "MTrk", "MTrk"]);
+        // 7/8 is stored as numerator 7, denominator 2^3
+        assert.ok(Buffer.from(data).includes(Buffer.from([0xff, 0x58, 0x04, 7, 3])));
+        assert.ok(Buffer.from(data).includes(Buffer.from("\xff\x03\x04Bass", "latin1")));
+    });
+
+    it("places note offs before note ons on the same tick", () => {
+        const data = writeSmf({
+            bpm: 120,
+            ppq: 96,
+            format: 0,
+            tracks: [{ notes: [NOTE, { ...NOTE, start: 1 }] }],
+        });
+        const tail = [...data.subarray(data.length - 16)];
+
+        assert.deepEqual(tail, [0x60, 0x80, 60, 0, 0x00, 0x90, 60, 100, 0x60, 0x80, 60, 0, 0x00, 0xff, 0x2f, 0x00]);
+    });
+
+    it("writes tempo and meter changes from a tempo map", () => {
+        const tempoMap = createTempoMap(
+            [
+                { beat: 0, bpm: 120 },
+                { beat: 8, bpm: 120, ramp: true },
+                { beat: 9, bpm: 60 },
+            ],
+            [{ bar: 3, numerator: 7, denominator: 8 }],
+        );
+        const parsed = readSmf(writeSmf({ tempoMap, tracks: [{ notes: [NOTE] }] }));
+
+        assert.deepEqual(parsed.timeSignatures, [
+            { time: 0, numerator: 4, denominator: 4 },
+            { time: 8, numerator: 7, denominator: 8 },
+        ]);
+        // The ramp is written as eight 32nd-note steps, then the final tempo
+        assert.equal(parsed.tempos.length, 10);
+        assert.deepEqual(parsed.tempos.at(-1), { time: 9, bpm: 60 });
+        assert.ok(parsed.tempos[2].bpm < 120 && parsed.tempos[2].bpm > parsed.tempos[3].bpm);
+    });
+});
+
+function smfFromTrack(ppq: number, track: number[]): Uint8Array {
+    const length = [(track.length >>> 24) & 0xff, (track.length >>> 16) & 0xff, (track.length >>> 8) & 0xff, track.length & 0xff];
+    return Uint8Array.from([
+        ...Buffer.from("MThd"), 0, 0, 0, 6, 0, 0, 0, 1, (ppq >> 8) & 0xff, ppq & 0xff,
+        ...Buffer.from("MTrk"), ...length, ...track,
+    ]);
+}
+
+describe("readSmf", () => {
+    it("reads back what writeSmf wrote", () => {
+        const notes = [
+            { note: 48, velocity: 90, channel: 1, start: 0, duration: 2 },
+            { note: 55, velocity: 80, channel: 1, start: 0, duration: 1.5 },
+            { note: 60, velocity: 70, channel: 1, start: 2.25, duration: 0.25 },
+        ];
+        const parsed = readSmf(
+            writeSmf({
+                bpm: 96,
+                timeSignature: { numerator: 3, denominator: 4 },
+                tracks: [{ name: "Piano", notes }],
+            }),
+        );
+
+        assert.equal(parsed.format, 1);
+        assert.equal(parsed.tracks.length, 2);
+        assert.equal(parsed.tracks[1].name, "Piano");
+        assert.deepEqual(parsed.tracks[1].notes, notes);
+        assert.deepEqual(parsed.tempos, [{ time: 0, bpm: 96 }]);
+        assert.deepEqual(parsed.timeSignatures, [{ time: 0, numerator: 3, denominator: 4 }]);
+    });
+
+    it("handles running status and note on with velocity 0", () => {
+        const parsed = readSmf(
+            smfFromTrack(96, [
+                0x00, 0x90, 60, 100,
+                0x00, 62, 100, // running status
+                0x60, 60, 0, // note off via velocity 0
+                0x00, 62, 0,
+                0x00, 0xff, 0x2f, 0x00,
+            ]),
+        );
+
+        assert.deepEqual(parsed.tracks[0].notes, [
+            { note: 60, velocity: 100, channel: 0, start: 0, duration: 1 },
+            { note: 62, velocity: 100, channel: 0, start: 0, duration: 1 },
+        ]);
+    });
+
+    it("rejects running status after sysex and meta events", () => {
+        for (const event of [
+            [0xf0, 0x02, 0x7e, 0xf7],
+            [0xff, 0x01, 0x01, 0x41],
+        ]) {
+            const data = smfFromTrack(96, [
+                0x00, 0x90, 60, 100,
+                0x00, ...event,
+                0x00, 62, 100, // stale running status
+                0x00, 0xff, 0x2f, 0x00,
+            ]);
+            assert.throws(() => readSmf(data), /data byte without status/);
+        }
+    });
+
+    it("rejects a division of 0 ticks per quarter note", () => {
+        assert.throws(() => readSmf(smfFromTrack(0, [0x00, 0xff, 0x2f, 0x00])), /0 ticks per quarter note/);
+    });
+
+    it("reads key signatures and tempo changes", () => {
+        const parsed = readSmf(
+            smfFromTrack(96, [
+                0x00, 0xff, 0x59, 0x02, 0xfd, 0x01, // 3 flats, minor
+                0x00, 0xff, 0x51, 0x03, 0x07, 0xa1, 0x20, // 120 BPM
+                0x81, 0x40, 0xff, 0x51, 0x03, 0x0f, 0x42, 0x40, // 60 BPM after 2 beats
+                0x00, 0xff, 0x2f, 0x00,
+            ]),
+        );
+
+        assert.deepEqual(parsed.keySignatures, [{ time: 0, key: "C minor" }]);
+        assert.deepEqual(parsed.tempos, [
+            { time: 0, bpm: 120 },
+            { time: 2, bpm: 60 },
+        ]);
+    });
+
+    it("rejects files without a header", () => {
+        assert.throws(() => readSmf(Uint8Array.from(Buffer.from("RIFF0000"))), /MThd/);
+    });
+});
+
+describe("summarizeSmf", () => {
+    it("reports range, duration and density", () => {
+        const summary = summarizeSmf({
+            format: 1,
+            ppq: 480,
+            tracks: [
+                {
+                    name: "Lead",
+                    controllers: [],
+                    notes: [
+                        { note: 60, velocity: 100, channel: 0, start: 0, duration: 2 },
+                        { note: 72, velocity: 100, channel: 0, start: 6, duration: 2 },
+                    ],
+                },
+            ],
+            tempos: [
+                { time: 0, bpm: 120 },
+                { time: 4, bpm: 60 },
+            ],
+            timeSignatures: [],
+            keySignatures: [],
+        });
+
+        assert.deepEqual(summary.range, { lowest: 60, highest: 72 });
+        assert.equal(summary.durationBeats, 8);
+        // 4 beats at 120 BPM + 4 beats at 60 BPM
+        assert.equal(summary.durationSeconds, 6);
+        assert.equal(summary.bars, 2);
+        assert.equal(summary.notesPerBar, 1);
+        assert.equal(summary.timeSignature, "4/4");
+        assert.deepEqual(summary.tempoChanges, [{ time: 4, bpm: 60 }]);
+    });
+});
@@ -0,0 +1,512 @@
+/**
+ * Standard MIDI File (SMF) encoding.
+ */
+
+import { constantTempoMap, renderMeterChanges, renderTempoChanges, type TempoMap } from "./tempo-map.js";
+import {
+    roundBeats,
+    type TimeSignature,
+    type TimedController,
+    type TimedNote,
+} from "./timeline.js";
+
+export const DEFAULT_PPQ = 480;
+
+export interface SmfTrack {
+    name?: string;
+    notes: TimedNote[];
+    controllers?: TimedController[];
+}
+
+export interface SmfOptions {
+    /** Default: 120 */
+    bpm?: number;
+    tracks: SmfTrack[];
+    /**
+     * 0 = everything merged into one track, 1 = a tempo track followed by
+     * one track per entry in `tracks`. Default: 1
+     */
+    format?: 0 | 1;
+    /** Default: 4/4 */
+    timeSignature?: TimeSignature;
+    /** Tempo and meter changes; replaces `bpm` and `timeSignature` */
+    tempoMap?: TempoMap;
+    /** Sequence name, written to the first track */
+    name?: string;
+    /** Ticks per quarter note. Default: 480 */
+    ppq?: number;
+}
+
+interface TrackEvent {
+    tick: number;
+    /** Lower sorts first when events share a tick (note offs before note ons) */
+    order: number;
+    data: number[];
+}
+
+/** Encode tracks of notes and controller events as a Standard MIDI File. */
+export function writeSmf(options: SmfOptions): Uint8Array {
+    const ppq = options.ppq ?? DEFAULT_PPQ;
+    const format = options.format ?? 1;
+    const tempoMap =
+        options.tempoMap ?? constantTempoMap(options.bpm ?? 120, options.timeSignature);
+    const toTick = (beats: number) => Math.round(beats * ppq);
+    const meta: TrackEvent[] = [
+        ...renderTempoChanges(tempoMap).map((change) => ({
+            tick: toTick(change.time),
+            order: 0,
+            data: tempoEvent(change.bpm),
+        })),
+        ...renderMeterChanges(tempoMap).map((change) => ({
+            tick: toTick(change.time),
+            order: 0,
+            data: timeSignatureEvent(change),
+        })),
+    ];
+    if (options.name) {
+        meta.unshift({ tick: 0, order: 0, data: textEvent(0x03, options.name) });
+    }
+
+    if (format === 0) {
+        const events = [
+            ...meta,
+            ...options.tracks.flatMap((track) => channelEvents(track, ppq)),
+        ];
+        return Uint8Array.from([...header(0, 1, ppq), ...encodeTrack(events)]);
+    }
+
+    const chunks = [
+        encodeTrack(meta),
+        ...options.tracks.map((track) =>
+            encodeTrack([
+                ...(track.name
+                    ? [{ tick: 0, order: 0, data: textEvent(0x03, track.name) }]
+                    : []),
+                ...channelEvents(track, ppq),
+            ]),
+        ),
+    ];
+    return Uint8Array.from([...header(1, chunks.length, ppq), ...chunks.flat()]);
+}
+
+function channelEvents(track: SmfTrack, ppq: number): TrackEvent[] {
+    const toTick = (beats: number) => Math.max(0, Math.round(beats * ppq));
+    const events: TrackEvent[] = [];
+
+    for (const n of track.notes) {
+        const channel = n.channel & 0x0f;
+        const start = toTick(n.start);
+        const end = Math.max(start + 1, toTick(n.start + n.duration));
+        events.push({
+            tick: start,
+            order: 2,
+            data: [0x90 | channel, n.note & 0x7f, Math.max(1, n.velocity & 0x7f)],
+        });
+        events.push({ tick: end, order: 1, data: [0x80 | channel, n.note & 0x7f, 0] });
+    }
+
+    for (const c of track.controllers ?? []) {
+        events.push({
+            tick: toTick(c.time),
+            order: 1,
+            data: [0xb0 | (c.channel & 0x0f), c.controller & 0x7f, c.value & 0x7f],
+        });
+    }
+
+    return events;
+}
+
+function header(format: number, trackCount: number, ppq: number): number[] {
+    return [
+        ...ascii("MThd"),
+        ...uint32(6),
+        ...uint16(format),
+        ...uint16(trackCount),
+        ...uint16(ppq),
+    ];
+}
+
+function encodeTrack(events: TrackEvent[]): number[] {
+    const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order);
+    const body: number[] = [];
+    let lastTick = 0;
+
+    for (const event of sorted) {
+        body.push(...varLen(event.tick - lastTick), ...event.data);
+        lastTick = event.tick;
+    }
+
+    // End of track
+    body.push(0x00, 0xff, 0x2f, 0x00);
+    return [...ascii("MTrk"), ...uint32(body.length), ...body];
+}
+
+function tempoEvent(bpm: number): number[] {
+    const microsPerQuarter = Math.round(60_000_000 / bpm);
+    return [0xff, 0x51, 0x03, ...uint24(microsPerQuarter)];
+}
+
+function timeSignatureEvent(signature: TimeSignature): number[] {
+    // Denominator is stored as a power of two; 24 MIDI clocks per click, 8 32nds per quarter
+    const denominatorPower = Math.round(Math.log2(signature.denominator));
+    return [0xff, 0x58, 0x04, signature.numerator & 0xff, denominatorPower, 24, 8];
+}
+
+function textEvent(type: number, text: string): number[] {
+    const bytes = [...Buffer.from(text, "utf8")];
+    return [0xff, type, ...varLen(bytes.length), ...bytes];
+}
+
+/** Encode a variable-length quantity (delta times, meta event lengths). */
+export function varLen(value: number): number[] {
+    const bytes = [value & 0x7f];
+    let rest = Math.floor(value / 128);
+    while (rest > 0) {
+        bytes.unshift((rest & 0x7f) | 0x80);
+        rest = Math.floor(rest / 128);
+    }
+    return bytes;
+}
+
+function ascii(text: string): number[] {
+    return [...text].map((c) => c.charCodeAt(0));
+}
+
+function uint32(value: number): number[] {
+    return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+function uint24(value: number): number[] {
+    return [(value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+function uint16(value: number): number[] {
+    return [(value >>> 8) & 0xff, value & 0xff];
+}
+
+// ── Reading ───────────────────────────────────────────────────────
+
+export interface TempoChange {
+    /** Position in beats */
+    time: number;
+    bpm: number;
+}
+
+export interface TimeSignatureChange extends TimeSignature {
+    time: number;
+}
+
+export interface KeySignatureChange {
+    time: number;
+    /** e.g. "Eb major", "C# minor" */
+    key: string;
+}
+
+export interface ParsedSmfTrack {
+    name?: string;
+    notes: TimedNote[];
+    controllers: TimedController[];
+}
+
+export interface ParsedSmf {
+    format: number;
+    ppq: number;
+    tracks: ParsedSmfTrack[];
+    tempos: TempoChange[];
+    timeSignatures: TimeSignatureChange[];
+    keySignatures: KeySignatureChange[];
+}
+
+const MAJOR_KEYS = ["Cb", "Gb", "Db", "Ab", "Eb", "Bb", "F", "C", "G", "D", "A", "E", "B", "F#", "C#"];
+const MINOR_KEYS = ["Ab", "Eb", "Bb", "F", "C", "G", "D", "A", "E", "B", "F#", "C#", "G#", "D#", "A#"];
+
+/**
+ * Parse a Type 0 or Type 1 Standard MIDI File. Timing is converted to beats;
+ * tempo, time signature and key signature meta events are collected from
+ * all tracks.
+ */
+export function readSmf(data: Uint8Array): ParsedSmf {
+    const reader = byteReader(data);
+    if (reader.ascii(4) !== "MThd") {
+        throw new Error("Not a Standard MIDI File (missing MThd header).");
+    }
+    const headerLength = reader.uint32();
+    const format = reader.uint16();
+    const trackCount = reader.uint16();
+    const division = reader.uint16();
+    reader.skip(headerLength - 6);
+
+    if (format > 1) {
+        throw new Error(`SMF type ${format} is not supported (only type 0 and 1).`);
+    }
+    if (division & 0x8000) {
+        throw new Error("SMPTE-based MIDI file timing is not supported.");
+    }
+    if (division === 0) {
+        throw new Error("Invalid MIDI file: the header gives 0 ticks per quarter note.");
+    }
+
+    const result: ParsedSmf = {
+        format,
+        ppq: division,
+        tracks: [],
+        tempos: [],
+        timeSignatures: [],
+        keySignatures: [],
+    };
+
+    for (let i = 0; i < trackCount && !reader.done(); i++) {
+        const id = reader.ascii(4);
+        const length = reader.uint32();
+        if (id !== "MTrk") {
+            reader.skip(length);
+            continue;
+        }
+        result.tracks.push(readTrack(reader.slice(length), division, result));
+    }
+
+    result.tempos.sort((a, b) => a.time - b.time);
+    result.timeSignatures.sort((a, b) => a.time - b.time);
+    result.keySignatures.sort((a, b) => a.time - b.time);
+    return result;
+}
+
+function readTrack(reader: ByteReader, ppq: number, file: ParsedSmf): ParsedSmfTrack {
+    const track: ParsedSmfTrack = { notes: [], controllers: [] };
+    const pending = new Map<string, { tick: number; velocity: number }[]>();
+    const toBeats = (tick: number) => roundBeats(tick / ppq);
+    let tick = 0;
+    let runningStatus = 0;
+
+    const closeNote = (channel: number, note: number, offTick: number) => {
+        const on = pending.get(`${channel}:${note}`)?.shift();
+        if (!on) return;
+        track.notes.push({
+            note,
+            velocity: on.velocity,
+            channel,
+            start: toBeats(on.tick),
+            duration: toBeats(offTick - on.tick),
+        });
+    };
+
+    while (!reader.done()) {
+        tick += reader.varLen();
+        let status = reader.peek();
+
+        if (status & 0x80) {
+            reader.skip(1);
+        } else if (runningStatus) {
+            status = runningStatus;
+        } else {
+            throw new Error("Invalid MIDI file: data byte without status.");
+        }
+
+        // Sysex and meta events cancel running status: a data byte after them is an error
+        if (status === 0xff || status === 0xf0 || status === 0xf7) {
+            runningStatus = 0;
+        }
+
+        if (status === 0xff) {
+            const type = reader.uint8();
+            const data = reader.bytes(reader.varLen());
+            const time = toBeats(tick);
+            if (type === 0x2f) break;
+            if (type === 0x03 && track.name === undefined) {
+                track.name = Buffer.from(data).toString("utf8");
+            } else if (type === 0x51 && data.length >= 3) {
+                const micros = (data[0] << 16) | (data[1] << 8) | data[2];
+                file.tempos.push({ time, bpm: Math.round(6_000_000_000 / micros) / 100 });
+            } else if (type === 0x58 && data.length >= 2) {
+                file.timeSignatures.push({
+                    time,
+                    numerator: data[0],
+                    denominator: 2 ** data[1],
+                });
+            } else if (type === 0x59 && data.length >= 2) {
+                const sharps = data[0] > 127 ? data[0] - 256 : data[0];
+                const minor = data[1] === 1;
+                const name = (minor ? MINOR_KEYS : MAJOR_KEYS)[sharps + 7] ?? "?";
+                file.keySignatures.push({ time, key: `${name} ${minor ? "minor" : "major"}` });
+            }
+            continue;
+        }
+
+        if (status === 0xf0 || status === 0xf7) {
+            reader.skip(reader.varLen());
+            continue;
+        }
+
+        runningStatus = status;
+        const channel = status & 0x0f;
+        const kind = status & 0xf0;
+        const data1 = reader.uint8();
+        const data2 = kind === 0xc0 || kind === 0xd0 ? 0 : reader.uint8();
+
+        if (kind === 0x90 && data2 > 0) {
+            const key = `${channel}:${data1}`;
+            const held = pending.get(key) ?? [];
+            held.push({ tick, velocity: data2 });
+            pending.set(key, held);
+        } else if (kind === 0x80 || kind === 0x90) {
+            closeNote(channel, data1, tick);
+        } else if (kind === 0xb0) {
+            track.controllers.push({
+                controller: data1,
+                value: data2,
+                channel,
+                time: toBeats(tick),
+            });
+        }
+    }
+
+    // Close notes that never received a note off at the end of the track
+    for (const [key, held] of pending) {
+        const [channel, note] = key.split(":").map(Number);
+        while (held.length > 0) closeNote(channel, note, tick);
+    }
+
+    track.notes.sort((a, b) => a.start - b.start || a.note - b.note);
+    return track;
+}
+
+type ByteReader = ReturnType<typeof byteReader>;
+
+function byteReader(data: Uint8Array) {
+    let offset = 0;
+
+    const reader = {
+        done: () => offset >= data.length,
+        peek: () => data[offset],
+        uint8: (): number => {
+            if (offset >= data.length) {
+                throw new Error("Invalid MIDI file: unexpected end of data.");
+            }
+            return data[offset++];
+        },
+        uint16: () => (reader.uint8() << 8) | reader.uint8(),
+        uint32: () => ((reader.uint16() << 16) | reader.uint16()) >>> 0,
+        varLen: () => {
+            let value = 0;
+            for (let i = 0; i < 4; i++) {
+                const byte = reader.uint8();
+                value = value * 128 + (byte & 0x7f);
+                if (!(byte & 0x80)) break;
+            }
+            return value;
+        },
+        bytes: (length: number) => {
+            const end = Math.min(offset + length, data.length);
+            const result = data.subarray(offset, end);
+            offset = end;
+            return result;
+        },
+        ascii: (length: number) => Buffer.from(reader.bytes(length)).toString("ascii"),
+        slice: (length: number) => byteReader(reader.bytes(length)),
+        skip: (length: number) => {
+            offset += length;
+        },
+    };
+    return reader;
+}
+
+// ── Analysis ──────────────────────────────────────────────────────
+
+export interface NoteRange {
+    lowest: number;
+    highest: number;
+}
+
+export interface SmfTrackSummary {
+    index: number;
+    name?: string;
+    noteCount: number;
+    channels: number[];
+    range: NoteRange | null;
+    /** Average number of notes per bar over the length of the file */
+    notesPerBar: number;
+}
+
+export interface SmfSummary {
+    format: number;
+    ppq: number;
+    noteCount: number;
+    range: NoteRange | null;
+    /** Initial tempo (120 when the file has no tempo event) */
+    bpm: number;
+    tempoChanges: TempoChange[];
+    timeSignature: string;
+    key?: string;
+    /** Length in beats (quarter notes) up to the last note off */
+    durationBeats: number;
+    durationSeconds: number;
+    bars: number;
+    notesPerBar: number;
+    notesPerSecond: number;
+    tracks: SmfTrackSummary[];
+}
+
+export function summarizeSmf(file: ParsedSmf): SmfSummary {
+    const allNotes = file.tracks.flatMap((t) => t.notes);
+    const tempos = file.tempos.length > 0 ? file.tempos : [{ time: 0, bpm: 120 }];
+    const meter = file.timeSignatures[0] ?? { numerator: 4, denominator: 4 };
+    const beatsPerBar = meter.numerator * (4 / meter.denominator);
+    const durationBeats = roundBeats(
+        allNotes.reduce((end, n) => Math.max(end, n.start + n.duration), 0),
+    );
+    const durationSeconds = Math.round(beatsToSeconds(durationBeats, tempos) * 1000) / 1000;
+    const bars = Math.round((durationBeats / beatsPerBar) * 100) / 100;
+    const perBar = (count: number) =>
+        bars > 0 ? Math.round((count / bars) * 100) / 100 : 0;
+
+    return {
+        format: file.format,
+        ppq: file.ppq,
+        noteCount: allNotes.length,
+        range: noteRange(allNotes),
+        bpm: tempos[0].bpm,
+        tempoChanges: file.tempos.slice(1),
+        timeSignature: `${meter.numerator}/${meter.denominator}`,
+        key: file.keySignatures[0]?.key,
+        durationBeats,
+        durationSeconds,
+        bars,
+        notesPerBar: perBar(allNotes.length),
+        notesPerSecond:
+            durationSeconds > 0
+                ? Math.round((allNotes.length / durationSeconds) * 100) / 100
+                : 0,
+        tracks: file.tracks.map((track, index) => ({
+            index,
+            name: track.name,
+            noteCount: track.notes.length,
+            channels: [...new Set(track.notes.map((n) => n.channel))].sort((a, b) => a - b),
+            range: noteRange(track.notes),
+            notesPerBar: perBar(track.notes.length),
+        })),
+    };
+}
+
+function noteRange(notes: TimedNote[]): NoteRange | null {
+    if (notes.length === 0) return null;
+    return {
+        lowest: Math.min(...notes.map((n) => n.note)),
+        highest: Math.max(...notes.map((n) => n.note)),
+    };
+}
+
+/** Convert a beat position to seconds, following tempo changes. */
+function beatsToSeconds(beats: number, tempos: TempoChange[]): number {
+    let seconds = 0;
+    for (let i = 0; i < tempos.length; i++) {
+        const from = tempos[i].time;
+        if (from >= beats) break;
+        const to = Math.min(beats, tempos[i + 1]?.time ?? Infinity);
+        seconds += ((to - from) * 60) / tempos[i].bpm;
+    }
+    // Time before the first tempo event runs at that event's tempo
+    if (tempos[0].time > 0) {
+        seconds += (Math.min(beats, tempos[0].time) * 60) / tempos[0].bpm;
+    }
+    return seconds;
+}
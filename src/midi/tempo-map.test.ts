@@ -0,0 +1,117 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+    barToBeats,
+    beatsAt,
+    beatsToBar,
+    constantTempoMap,
+    createTempoMap,
+    meterAt,
+    renderMeterChanges,
+    secondsAt,
+    tempoAt,
+    tempoMapTiming,
+} from "./tempo-map.js";
+
+const bar = (n: number, beat = 1) => ({ bar: n, beat, division: 1, tick: 1 });
+
+describe("createTempoMap", () => {
+    it("sorts events and fills in the song start", () => {
+        const map = createTempoMap([
+            { beat: 8, bpm: 90 },
+            { beat: 4, bpm: 100 },
+        ]);
+        assert.deepEqual(map.tempos, [
+            { beat: 0, bpm: 100 },
+            { beat: 4, bpm: 100 },
+            { beat: 8, bpm: 90 },
+        ]);
+        assert.deepEqual(map.meters, [{ bar: 1, numerator: 4, denominator: 4 }]);
+    });
+
+    it("rejects bad tempos, positions and duplicates", () => {
+        assert.throws(() => createTempoMap([]), /at least one tempo/);
+        assert.throws(() => createTempoMap([{ beat: 0, bpm: 0 }]), /5-990/);
+        assert.throws(() => createTempoMap([{ beat: -1, bpm: 120 }]), /negative/);
+        assert.throws(
+            () => createTempoMap([{ beat: 0, bpm: 120 }, { beat: 0, bpm: 90 }]),
+            /Two tempo events at beat 0/,
+        );
+        assert.throws(
+            () => createTempoMap([{ beat: 0, bpm: 120 }], [{ bar: 1.5, numerator: 3, denominator: 4 }]),
+            /bar number/,
+        );
+    });
+});
+
+describe("tempo conversion", () => {
+    it("matches a constant tempo", () => {
+        const map = constantTempoMap(120);
+        assert.equal(secondsAt(map, 8), 4);
+        assert.equal(beatsAt(map, 4), 8);
+        assert.equal(tempoMapTiming(map)(1), 500);
+    });
+
+    it("adds up tempo jumps", () => {
+        const map = createTempoMap([
+            { beat: 0, bpm: 120 },
+            { beat: 4, bpm: 60 },
+        ]);
+        assert.equal(secondsAt(map, 6), 4);
+        assert.equal(beatsAt(map, 4), 6);
+        assert.equal(tempoAt(map, 3.9), 120);
+        assert.equal(tempoAt(map, 4), 60);
+    });
+
+    it("integrates linear ramps", () => {
+        // 120 → 60 BPM over 4 beats: 60/k · ln(T1/T0) with k = -15 BPM per beat
+        const map = createTempoMap([
+            { beat: 0, bpm: 120, ramp: true },
+            { beat: 4, bpm: 60 },
+        ]);
+        const rampSeconds = 4 * Math.log(2);
+        assert.equal(tempoAt(map, 2), 90);
+        assert.ok(Math.abs(secondsAt(map, 4) - rampSeconds) < 1e-9);
+        assert.ok(Math.abs(secondsAt(map, 5) - (rampSeconds + 1)) < 1e-9);
+        for (const beats of [0.5, 2, 3.99, 4, 7]) {
+            assert.ok(Math.abs(beatsAt(map, secondsAt(map, beats)) - beats) < 1e-9, `round trip at ${beats}`);
+        }
+    });
+});
+
+describe("meters", () => {
+    // 2 bars of 4/4, 1 bar of 7/8, then 3/4
+    const map = createTempoMap(
+        [{ beat: 0, bpm: 120 }],
+        [
+            { bar: 3, numerator: 7, denominator: 8 },
+            { bar: 4, numerator: 3, denominator: 4 },
+        ],
+    );
+
+    it("finds the meter of a bar", () => {
+        assert.deepEqual(meterAt(map, 2), { numerator: 4, denominator: 4 });
+        assert.deepEqual(meterAt(map, 3), { numerator: 7, denominator: 8 });
+        assert.deepEqual(meterAt(map, 10), { numerator: 3, denominator: 4 });
+    });
+
+    it("converts bar positions across meter changes", () => {
+        assert.equal(barToBeats(map, bar(3)), 8);
+        assert.equal(barToBeats(map, bar(3, 7)), 11);
+        assert.equal(barToBeats(map, bar(4)), 11.5);
+        assert.equal(barToBeats(map, bar(5, 2)), 15.5);
+        assert.throws(() => barToBeats(map, bar(3, 8)), /Beat 8 does not exist in 7\/8/);
+
+        assert.deepEqual(beatsToBar(map, 11.5), bar(4));
+        assert.deepEqual(beatsToBar(map, 11), bar(3, 7));
+        assert.deepEqual(beatsToBar(map, 15.5), bar(5, 2));
+    });
+
+    it("lists meter changes in beats", () => {
+        assert.deepEqual(renderMeterChanges(map), [
+            { time: 0, numerator: 4, denominator: 4 },
+            { time: 8, numerator: 7, denominator: 8 },
+            { time: 11.5, numerator: 3, denominator: 4 },
+        ]);
+    });
+});
@@ -0,0 +1,253 @@
+/**
+ * Tempo map: tempo events (jumps or linear ramps) and meter changes, for
+ * converting between bar positions, quarter-note beats and seconds in songs
+ * whose tempo or time signature changes.
+ *
+ * Tempo events sit at a position in quarter-note beats; a ramped event
+ * glides linearly (per beat) to the tempo of the next event, which is how
+ * a rit. or accel. is written. Meter changes always start a bar.
+ *
+ * The map defined with the transport tools is kept in module state, like
+ * the note naming convention, so the MIDI tools and the SMF writer can use
+ * it without every call passing it along.
+ */
+
+import {
+    barPositionToBeats,
+    beatsToBarPosition,
+    type BarPosition,
+    type PositionContext,
+} from "./position.js";
+import type { TimeSignature } from "./timeline.js";
+
+export interface TempoEvent {
+    /** Position in quarter-note beats from the song start */
+    beat: number;
+    bpm: number;
+    /** Glide linearly to the next event's tempo instead of holding this one */
+    ramp?: boolean;
+}
+
+export interface MeterChange extends TimeSignature {
+    /** Bar number (1-based) where the meter starts */
+    bar: number;
+}
+
+export interface TempoMap {
+    /** Sorted by position; the first event is at beat 0 */
+    tempos: TempoEvent[];
+    /** Sorted by bar; the first change is at bar 1 */
+    meters: MeterChange[];
+}
+
+const DEFAULT_METER: TimeSignature = { numerator: 4, denominator: 4 };
+// Ramps are written to MIDI files as a tempo event every 32nd note
+const DEFAULT_RAMP_STEP = 0.125;
+
+let current: TempoMap | undefined;
+
+export function getTempoMap(): TempoMap | undefined {
+    return current;
+}
+
+/** Set the map the MIDI tools follow, or undefined to go back to a fixed BPM. */
+export function setTempoMap(map: TempoMap | undefined): void {
+    current = map;
+}
+
+/**
+ * Validate and sort tempo events and meter changes. A song without an
+ * event at beat 0 starts at the first event's tempo; without a meter at
+ * bar 1 it starts in 4/4.
+ */
+export function createTempoMap(tempos: TempoEvent[], meters: MeterChange[] = []): TempoMap {
+    if (tempos.length === 0) throw new Error("A tempo map needs at least one tempo.");
+    for (const event of tempos) {
+        if (!(event.bpm >= 5 && event.bpm <= 990)) {
+            throw new Error(`Tempo ${event.bpm} is outside 5-990 BPM.`);
+        }
+        if (!(event.beat >= 0)) throw new Error(`Tempo position ${event.beat} must not be negative.`);
+    }
+    for (const meter of meters) {
+        if (!Number.isInteger(meter.bar) || meter.bar < 1) {
+            throw new Error(`Meter changes start at a bar number (1 or more); got ${meter.bar}.`);
+        }
+    }
+
+    const sortedTempos = [...tempos].sort((a, b) => a.beat - b.beat);
+    const sortedMeters = [...meters].sort((a, b) => a.bar - b.bar);
+    checkUnique(sortedTempos.map((t) => t.beat), (beat) => `Two tempo events at beat ${beat}.`);
+    checkUnique(sortedMeters.map((m) => m.bar), (bar) => `Two meter changes at bar ${bar}.`);
+
+    if (sortedTempos[0].beat > 0) sortedTempos.unshift({ beat: 0, bpm: sortedTempos[0].bpm });
+    if (sortedMeters[0]?.bar !== 1) sortedMeters.unshift({ bar: 1, ...DEFAULT_METER });
+    return { tempos: sortedTempos, meters: sortedMeters };
+}
+
+export function constantTempoMap(bpm: number, timeSignature: TimeSignature = DEFAULT_METER): TempoMap {
+    return createTempoMap([{ beat: 0, bpm }], [{ bar: 1, ...timeSignature }]);
+}
+
+/** Tempo in BPM at a position in beats. */
+export function tempoAt(map: TempoMap, beats: number): number {
+    const index = tempoIndex(map, beats);
+    const event = map.tempos[index];
+    const next = map.tempos[index + 1];
+    if (!event.ramp || !next) return event.bpm;
+    return event.bpm + ((next.bpm - event.bpm) * (beats - event.beat)) / (next.beat - event.beat);
+}
+
+/** Seconds from the song start to a position in beats. */
+export function secondsAt(map: TempoMap, beats: number): number {
+    let seconds = 0;
+    for (let i = 0; i < map.tempos.length; i++) {
+        const event = map.tempos[i];
+        const next = map.tempos[i + 1];
+        if (i > 0 && beats <= event.beat) break;
+        const end = next && beats > next.beat ? next.beat : beats;
+        seconds += segmentSeconds(map, i, end - event.beat);
+    }
+    return seconds;
+}
+
+/** Position in beats reached after a number of seconds. */
+export function beatsAt(map: TempoMap, seconds: number): number {
+    let elapsed = 0;
+    for (let i = 0; i < map.tempos.length; i++) {
+        const event = map.tempos[i];
+        const next = map.tempos[i + 1];
+        const length = next ? segmentSeconds(map, i, next.beat - event.beat) : Infinity;
+        if (!next || seconds < elapsed + length) {
+            return event.beat + segmentBeats(map, i, seconds - elapsed);
+        }
+        elapsed += length;
+    }
+    return 0;
+}
+
+/** Converts beats to ms from the song start; for the MIDI scheduler. */
+export function tempoMapTiming(map: TempoMap): (beats: number) => number {
+    return (beats) => secondsAt(map, beats) * 1000;
+}
+
+/** The meter in effect in a bar. */
+export function meterAt(map: TempoMap, bar: number): TimeSignature {
+    const change = [...map.meters].reverse().find((m) => m.bar <= bar) ?? map.meters[0];
+    return { numerator: change.numerator, denominator: change.denominator };
+}
+
+/** Quarter-note beats from the song start to a bar position, across meter changes. */
+export function barToBeats(map: TempoMap, position: BarPosition, division?: number): number {
+    const segment = meterSegments(map)
+        .reverse()
+        .find((s) => s.bar <= position.bar)!;
+    return (
+        segment.beat +
+        barPositionToBeats(
+            { ...position, bar: position.bar - segment.bar + 1 },
+            segmentContext(map, segment, division),
+        )
+    );
+}
+
+/** Bar position of a point in beats, across meter changes. */
+export function beatsToBar(map: TempoMap, beats: number, division?: number): BarPosition {
+    const segment = meterSegments(map)
+        .reverse()
+        .find((s) => s.beat <= beats + 1e-9) ?? meterSegments(map)[0];
+    const position = beatsToBarPosition(beats - segment.beat, segmentContext(map, segment, division));
+    return { ...position, bar: position.bar + segment.bar - 1 };
+}
+
+/**
+ * Tempo changes to write to a MIDI file. Ramps become a tempo event every
+ * `step` beats, each holding the segment's average tempo so event times
+ * come out where the ramp puts them.
+ */
+export function renderTempoChanges(map: TempoMap, step: number = DEFAULT_RAMP_STEP): { time: number; bpm: number }[] {
+    const changes: { time: number; bpm: number }[] = [];
+    map.tempos.forEach((event, i) => {
+        const next = map.tempos[i + 1];
+        if (!event.ramp || !next || next.bpm === event.bpm) {
+            changes.push({ time: event.beat, bpm: event.bpm });
+            return;
+        }
+        for (let time = event.beat; time < next.beat - 1e-9; time += step) {
+            const end = Math.min(time + step, next.beat);
+            const seconds = secondsAt(map, end) - secondsAt(map, time);
+            changes.push({ time, bpm: (60 * (end - time)) / seconds });
+        }
+    });
+    return changes;
+}
+
+/** Meter changes with their positions in beats, for a MIDI file. */
+export function renderMeterChanges(map: TempoMap): (TimeSignature & { time: number })[] {
+    return meterSegments(map).map((s) => ({
+        time: s.beat,
+        numerator: s.numerator,
+        denominator: s.denominator,
+    }));
+}
+
+/** Length in quarter-note beats of one bar of a meter. */
+export function barLength(meter: TimeSignature): number {
+    return (meter.numerator * 4) / meter.denominator;
+}
+
+/** Meter changes with the beat each one starts on. */
+function meterSegments(map: TempoMap): (MeterChange & { beat: number })[] {
+    let beat = 0;
+    return map.meters.map((meter, i) => {
+        if (i > 0) {
+            const previous = map.meters[i - 1];
+            beat += (meter.bar - previous.bar) * barLength(previous);
+        }
+        return { ...meter, beat };
+    });
+}
+
+function segmentContext(map: TempoMap, segment: MeterChange & { beat: number }, division?: number): PositionContext {
+    return {
+        bpm: tempoAt(map, segment.beat),
+        timeSignature: { numerator: segment.numerator, denominator: segment.denominator },
+        division,
+    };
+}
+
+function tempoIndex(map: TempoMap, beats: number): number {
+    let index = 0;
+    while (index + 1 < map.tempos.length && map.tempos[index + 1].beat <= beats) index++;
+    return index;
+}
+
+/** Ramp slope in BPM per beat of the segment starting at tempo event `i`. */
+function slope(map: TempoMap, i: number): number {
+    const event = map.tempos[i];
+    const next = map.tempos[i + 1];
+    return event.ramp && next ? (next.bpm - event.bpm) / (next.beat - event.beat) : 0;
+}
+
+/**
+ * Seconds for `beats` into segment `i`. With tempo T = T0 + k·b the time
+ * is the integral of 60/T, which is 60/k · ln(T/T0).
+ */
+function segmentSeconds(map: TempoMap, i: number, beats: number): number {
+    const start = map.tempos[i].bpm;
+    const k = slope(map, i);
+    if (k === 0) return (60 * beats) / start;
+    return (60 / k) * Math.log((start + k * beats) / start);
+}
+
+/** Inverse of segmentSeconds. */
+function segmentBeats(map: TempoMap, i: number, seconds: number): number {
+    const start = map.tempos[i].bpm;
+    const k = slope(map, i);
+    if (k === 0) return (seconds * start) / 60;
+    return (start / k) * (Math.exp((k * seconds) / 60) - 1);
+}
+
+function checkUnique(values: number[], message: (value: number) => string): void {
+    const duplicate = values.find((value, i) => i > 0 && values[i - 1] === value);
+    if (duplicate !== undefined) throw new Error(message(duplicate));
+}
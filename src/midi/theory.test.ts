@@ -0,0 +1,95 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+    parseChordSymbol,
+    parseKey,
+    parseRomanNumeral,
+    resolveProgression,
+    scaleNotes,
+    voiceChord,
+} from "./theory.js";
+
+const chordNotes = (symbol: string, options = {}) => voiceChord(parseChordSymbol(symbol), options);
+
+describe("parseChordSymbol", () => {
+    it("resolves common chord symbols", () => {
+        assert.deepEqual(chordNotes("C"), [60, 64, 67]);
+        assert.deepEqual(chordNotes("Cmaj7"), [60, 64, 67, 71]);
+        assert.deepEqual(chordNotes("Am", { octave: 3 }), [57, 60, 64]);
+        assert.deepEqual(chordNotes("Gsus4", { octave: 3 }), [55, 60, 62]);
+        assert.deepEqual(chordNotes("Bb7", { octave: 3 }), [58, 62, 65, 68]);
+    });
+
+    it("places slash bass notes below the chord", () => {
+        assert.deepEqual(chordNotes("F#m7b5/A", { octave: 3 }), [45, 54, 57, 60, 64]);
+        assert.deepEqual(chordNotes("C/E"), [52, 60, 64, 67]);
+    });
+
+    it("rejects unknown qualities", () => {
+        assert.throws(() => parseChordSymbol("Cfoo"), /Unknown chord quality/);
+        assert.throws(() => parseChordSymbol("H7"), /Invalid chord symbol/);
+    });
+});
+
+describe("voiceChord", () => {
+    it("applies inversions", () => {
+        assert.deepEqual(chordNotes("C", { inversion: 1 }), [64, 67, 72]);
+        assert.deepEqual(chordNotes("C", { inversion: 2 }), [67, 72, 76]);
+        assert.throws(() => chordNotes("C", { inversion: 3 }), /out of range/);
+    });
+
+    it("applies drop-2, drop-3 and spread voicings", () => {
+        assert.deepEqual(chordNotes("Cmaj7", { voicing: "drop2" }), [55, 60, 64, 71]);
+        assert.deepEqual(chordNotes("Cmaj7", { voicing: "drop3" }), [52, 60, 67, 71]);
+        assert.deepEqual(chordNotes("Cmaj7", { voicing: "spread" }), [48, 64, 71, 79]);
+    });
+
+    it("rejects chords with tones outside the MIDI range", () => {
+        assert.deepEqual(chordNotes("C", { octave: 9 }), [120, 124, 127]);
+        assert.throws(
+            () => chordNotes("C", { octave: 9, inversion: 2 }),
+            /^Error: C goes outside the MIDI note range 0-127 .*: 132 \(C\d+\), 136 \(E\d+\)\./,
+        );
+        assert.throws(() => chordNotes("C", { octave: -1, voicing: "spread" }), /range 0-127 .*: -12\./);
+    });
+});
+
+describe("scales and keys", () => {
+    it("parses keys with modes", () => {
+        assert.deepEqual(parseKey("Am"), { tonic: 9, mode: "minor" });
+        assert.deepEqual(parseKey("F# dorian"), { tonic: 6, mode: "dorian" });
+        assert.throws(() => parseKey("C bebop"), /Unknown mode/);
+    });
+
+    it("builds scale notes", () => {
+        assert.deepEqual(scaleNotes(parseKey("D dorian"), 4), [62, 64, 65, 67, 69, 71, 72, 74]);
+        assert.deepEqual(scaleNotes(parseKey("A minor pentatonic"), 3), [57, 60, 62, 64, 67, 69]);
+    });
+});
+
+describe("roman numerals", () => {
+    const cMajor = parseKey("C");
+
+    it("resolves diatonic numerals by case", () => {
+        assert.equal(parseRomanNumeral("V7", cMajor).symbol, "G7");
+        assert.equal(parseRomanNumeral("ii7", cMajor).symbol, "Dm7");
+        assert.equal(parseRomanNumeral("viiø7", cMajor).symbol, "Bm7b5");
+        assert.equal(parseRomanNumeral("viio", cMajor).symbol, "Bdim");
+    });
+
+    it("handles borrowed and secondary chords", () => {
+        assert.equal(parseRomanNumeral("bVII", cMajor).symbol, "Bb");
+        assert.equal(parseRomanNumeral("V7/V", cMajor).symbol, "D7");
+    });
+
+    it("uses flat spelling in flat keys", () => {
+        assert.equal(parseRomanNumeral("IV", parseKey("F")).symbol, "Bb");
+        assert.equal(parseRomanNumeral("III", parseKey("C minor")).symbol, "Eb");
+    });
+
+    it("resolves progressions", () => {
+        const chords = resolveProgression("I V vi IV", parseKey("G"));
+        assert.deepEqual(chords.map((c) => c.symbol), ["G", "D", "Em", "C"]);
+        assert.throws(() => resolveProgression("I IV"), /needs a key/);
+    });
+});
@@ -0,0 +1,334 @@
+/**
+ * Music theory helpers: chord symbols, scales/modes and roman numerals,
+ * resolved into voiced MIDI note numbers.
+ *
+ * Octave numbers here are scientific (octave 4 starts at middle C = 60);
+ * tools convert from the configured note naming before calling in.
+ */
+
+import {
+    accidentalOffset,
+    mod12,
+    noteName,
+    parsePitchClass,
+    pitchClassName,
+} from "./note-names.js";
+
+export type Voicing = "close" | "drop2" | "drop3" | "spread";
+
+export interface Chord {
+    /** Normalised chord symbol, e.g. "F#m7b5/A" */
+    symbol: string;
+    /** Pitch class of the root (0 = C) */
+    root: number;
+    /** Semitones above the root */
+    intervals: number[];
+    /** Pitch class of a slash bass note */
+    bass?: number;
+}
+
+export interface VoicingOptions {
+    /** Octave of the root in close position. Default: 4 */
+    octave?: number;
+    /** 0 = root position, 1 = first inversion, ... Default: 0 */
+    inversion?: number;
+    /** Default: close */
+    voicing?: Voicing;
+}
+
+export interface Key {
+    tonic: number;
+    mode: string;
+}
+
+const CHORD_QUALITIES: Record<string, number[]> = {
+    "": [0, 4, 7],
+    maj: [0, 4, 7],
+    M: [0, 4, 7],
+    m: [0, 3, 7],
+    min: [0, 3, 7],
+    "-": [0, 3, 7],
+    dim: [0, 3, 6],
+    "°": [0, 3, 6],
+    o: [0, 3, 6],
+    aug: [0, 4, 8],
+    "+": [0, 4, 8],
+    sus2: [0, 2, 7],
+    sus4: [0, 5, 7],
+    sus: [0, 5, 7],
+    "5": [0, 7],
+    "6": [0, 4, 7, 9],
+    m6: [0, 3, 7, 9],
+    "6/9": [0, 4, 7, 9, 14],
+    "69": [0, 4, 7, 9, 14],
+    "7": [0, 4, 7, 10],
+    maj7: [0, 4, 7, 11],
+    M7: [0, 4, 7, 11],
+    "Δ": [0, 4, 7, 11],
+    "Δ7": [0, 4, 7, 11],
+    m7: [0, 3, 7, 10],
+    min7: [0, 3, 7, 10],
+    "-7": [0, 3, 7, 10],
+    mMaj7: [0, 3, 7, 11],
+    mmaj7: [0, 3, 7, 11],
+    "m(maj7)": [0, 3, 7, 11],
+    dim7: [0, 3, 6, 9],
+    "°7": [0, 3, 6, 9],
+    o7: [0, 3, 6, 9],
+    m7b5: [0, 3, 6, 10],
+    "ø": [0, 3, 6, 10],
+    "ø7": [0, 3, 6, 10],
+    aug7: [0, 4, 8, 10],
+    "+7": [0, 4, 8, 10],
+    "7#5": [0, 4, 8, 10],
+    "7b5": [0, 4, 6, 10],
+    "7sus4": [0, 5, 7, 10],
+    "7sus2": [0, 2, 7, 10],
+    add9: [0, 4, 7, 14],
+    madd9: [0, 3, 7, 14],
+    "9": [0, 4, 7, 10, 14],
+    maj9: [0, 4, 7, 11, 14],
+    m9: [0, 3, 7, 10, 14],
+    "7b9": [0, 4, 7, 10, 13],
+    "7#9": [0, 4, 7, 10, 15],
+    "11": [0, 4, 7, 10, 14, 17],
+    m11: [0, 3, 7, 10, 14, 17],
+    "7#11": [0, 4, 7, 10, 18],
+    "maj7#11": [0, 4, 7, 11, 18],
+    "13": [0, 4, 7, 10, 14, 21],
+    maj13: [0, 4, 7, 11, 14, 21],
+    m13: [0, 3, 7, 10, 14, 21],
+};
+
+const SCALES: Record<string, number[]> = {
+    major: [0, 2, 4, 5, 7, 9, 11],
+    ionian: [0, 2, 4, 5, 7, 9, 11],
+    dorian: [0, 2, 3, 5, 7, 9, 10],
+    phrygian: [0, 1, 3, 5, 7, 8, 10],
+    lydian: [0, 2, 4, 6, 7, 9, 11],
+    mixolydian: [0, 2, 4, 5, 7, 9, 10],
+    minor: [0, 2, 3, 5, 7, 8, 10],
+    aeolian: [0, 2, 3, 5, 7, 8, 10],
+    locrian: [0, 1, 3, 5, 6, 8, 10],
+    "harmonic minor": [0, 2, 3, 5, 7, 8, 11],
+    "melodic minor": [0, 2, 3, 5, 7, 9, 11],
+    "major pentatonic": [0, 2, 4, 7, 9],
+    "minor pentatonic": [0, 3, 5, 7, 10],
+    blues: [0, 3, 5, 6, 7, 10],
+    "whole tone": [0, 2, 4, 6, 8, 10],
+    chromatic: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+
+// Offset of each mode's tonic above its relative major, used for spelling
+const MODE_OFFSETS: Record<string, number> = {
+    major: 0,
+    ionian: 0,
+    dorian: 2,
+    phrygian: 4,
+    lydian: 5,
+    mixolydian: 7,
+    minor: 9,
+    aeolian: 9,
+    locrian: 11,
+    "harmonic minor": 9,
+    "melodic minor": 9,
+    "minor pentatonic": 9,
+    blues: 9,
+};
+
+// Major keys written with flats: F, Bb, Eb, Ab, Db, Gb
+const FLAT_MAJOR_KEYS = new Set([5, 10, 3, 8, 1, 6]);
+
+export const SCALE_NAMES = Object.keys(SCALES);
+export const VOICINGS: Voicing[] = ["close", "drop2", "drop3", "spread"];
+
+/** Parse a chord symbol such as "Cmaj7", "F#m7b5/A" or "Gsus4". */
+export function parseChordSymbol(symbol: string): Chord {
+    const match = symbol.trim().match(/^([A-G])([#b♯♭]?)(.*)$/);
+    if (!match) throw new Error(`Invalid chord symbol "${symbol}".`);
+
+    const rootName = match[1] + match[2];
+    let quality = match[3];
+    let bassName: string | undefined;
+
+    const slash = quality.lastIndexOf("/");
+    if (slash >= 0 && /^[A-G][#b♯♭]?$/.test(quality.slice(slash + 1))) {
+        bassName = quality.slice(slash + 1);
+        quality = quality.slice(0, slash);
+    }
+
+    const intervals = CHORD_QUALITIES[quality];
+    if (!intervals) {
+        throw new Error(
+            `Unknown chord quality "${quality}" in "${symbol}". Supported: ${Object.keys(CHORD_QUALITIES).filter(Boolean).join(", ")}`,
+        );
+    }
+
+    return {
+        symbol: symbol.trim(),
+        root: parsePitchClass(rootName),
+        intervals: [...intervals],
+        bass: bassName === undefined ? undefined : parsePitchClass(bassName),
+    };
+}
+
+/** Parse a key such as "C", "Am", "F# minor" or "D dorian". */
+export function parseKey(text: string): Key {
+    const match = text.trim().match(/^([A-Ga-g][#b♯♭]?)\s*(.*)$/);
+    if (!match) throw new Error(`Invalid key "${text}".`);
+
+    let mode = match[2].trim().toLowerCase();
+    if (mode === "" || mode === "maj") mode = "major";
+    if (mode === "m" || mode === "min") mode = "minor";
+    if (!SCALES[mode]) {
+        throw new Error(`Unknown mode "${match[2]}". Supported: ${SCALE_NAMES.join(", ")}`);
+    }
+    return { tonic: parsePitchClass(match[1]), mode };
+}
+
+/** Notes of a scale starting at the tonic in the given octave. */
+export function scaleNotes(
+    key: Key,
+    octave: number = 4,
+    octaves: number = 1,
+): number[] {
+    const steps = SCALES[key.mode];
+    const base = (octave + 1) * 12 + key.tonic;
+    const notes: number[] = [];
+    for (let o = 0; o < octaves; o++) {
+        for (const step of steps) notes.push(base + o * 12 + step);
+    }
+    notes.push(base + octaves * 12);
+    return notes;
+}
+
+/** Spell pitch classes with flats for flat keys, sharps otherwise. */
+export function keyUsesFlats(key: Key): boolean {
+    const relativeMajor = mod12(key.tonic - (MODE_OFFSETS[key.mode] ?? 0));
+    return FLAT_MAJOR_KEYS.has(relativeMajor);
+}
+
+/**
+ * Resolve a roman numeral ("V7", "ii", "bVII", "viiø7", "V7/V") in a key.
+ * Upper case numerals are major, lower case minor; "°"/"o" makes them
+ * diminished, "+" augmented, and the suffix adds extensions (7, maj7, 9, sus4...).
+ */
+export function parseRomanNumeral(numeral: string, key: Key): Chord {
+    const [main, target] = numeral.trim().split("/");
+    if (target) {
+        // Secondary chord: resolve relative to the major key on the target degree
+        const targetChord = parseRomanNumeral(target, key);
+        return parseRomanNumeral(main, { tonic: targetChord.root, mode: "major" });
+    }
+
+    const match = main.match(/^([#b♯♭]?)(VII|VI|V|IV|III|II|I|vii|vi|v|iv|iii|ii|i)(.*)$/);
+    if (!match) throw new Error(`Invalid roman numeral "${numeral}".`);
+
+    const [, accidental, degreeText, suffix] = match;
+    const degree = ROMAN_DEGREES[degreeText.toLowerCase()];
+    const steps = SCALES[key.mode];
+    if (steps.length !== 7) {
+        throw new Error(`Roman numerals need a seven-note mode, not "${key.mode}".`);
+    }
+    const root = mod12(key.tonic + steps[degree] + accidentalOffset(accidental));
+    const upper = degreeText === degreeText.toUpperCase();
+
+    let quality: string;
+    if (/^(°|o)/.test(suffix)) quality = "dim" + suffix.slice(1);
+    else if (/^ø/.test(suffix)) quality = "m7b5";
+    else if (suffix.startsWith("+")) quality = "aug" + suffix.slice(1);
+    else if (upper) quality = suffix;
+    else quality = "m" + suffix;
+
+    const intervals = CHORD_QUALITIES[quality];
+    if (!intervals) throw new Error(`Unsupported chord quality in roman numeral "${numeral}".`);
+
+    const name = pitchClassName(root, keyUsesFlats(key) || accidental === "b" || accidental === "♭");
+    return { symbol: name + quality, root, intervals: [...intervals] };
+}
+
+/** Resolve a chord symbol, or a roman numeral when a key is given and the text is one. */
+export function resolveChord(text: string, key?: Key): Chord {
+    if (/^[#b♯♭]?(i|v|I|V)/.test(text.trim())) {
+        if (!key) throw new Error(`Roman numeral "${text}" needs a key.`);
+        return parseRomanNumeral(text, key);
+    }
+    return parseChordSymbol(text);
+}
+
+/** Resolve a progression such as "I V vi IV" or "Dm7 G7 Cmaj7". */
+export function resolveProgression(progression: string, key?: Key): Chord[] {
+    return progression
+        .split(/[\s,|-]+/)
+        .filter(Boolean)
+        .map((text) => resolveChord(text, key));
+}
+
+/** Turn a chord into MIDI notes, applying octave, inversion and voicing. */
+export function voiceChord(chord: Chord, options: VoicingOptions = {}): number[] {
+    const rootNote = (options.octave ?? 4) * 12 + 12 + chord.root;
+    let notes = chord.intervals.map((i) => rootNote + i);
+
+    const inversion = options.inversion ?? 0;
+    if (inversion < 0 || inversion >= notes.length) {
+        throw new Error(`Inversion ${inversion} is out of range for ${chord.symbol}.`);
+    }
+    for (let i = 0; i < inversion; i++) {
+        const [lowest, ...rest] = notes;
+        notes = [...rest, lowest + 12];
+    }
+
+    switch (options.voicing ?? "close") {
+        case "close":
+            break;
+        case "drop2":
+            notes = dropVoice(notes, 2);
+            break;
+        case "drop3":
+            notes = dropVoice(notes, 3);
+            break;
+        case "spread": {
+            // Bass an octave below, remaining tones alternate between octaves
+            const [bass, ...upper] = notes;
+            notes = [bass - 12, ...upper.map((n, i) => (i % 2 === 1 ? n + 12 : n))];
+            break;
+        }
+        default:
+            throw new Error(`Unknown voicing "${options.voicing}". Supported: ${VOICINGS.join(", ")}`);
+    }
+
+    if (chord.bass !== undefined) {
+        const lowest = Math.min(...notes);
+        const bass = lowest - mod12(lowest - chord.bass) - (mod12(lowest - chord.bass) === 0 ? 12 : 0);
+        notes = [bass, ...notes];
+    }
+
+    // Dropping a tone would quietly play another chord
+    const outside = notes.filter((n) => n < 0 || n > 127);
+    if (outside.length > 0) {
+        const named = outside.map((n) => (n < 0 ? String(n) : `${n} (${noteName(n)})`)).join(", ");
+        throw new Error(
+            `${chord.symbol} goes outside the MIDI note range 0-127 at this octave and voicing: ${named}. Choose a lower or higher octave.`,
+        );
+    }
+    return notes.sort((a, b) => a - b);
+}
+
+const ROMAN_DEGREES: Record<string, number> = {
+    i: 0,
+    ii: 1,
+    iii: 2,
+    iv: 3,
+    v: 4,
+    vi: 5,
+    vii: 6,
+};
+
+/** Drop the n-th voice from the top down an octave. */
+function dropVoice(notes: number[], fromTop: number): number[] {
+    if (notes.length < fromTop) return notes;
+    const sorted = [...notes].sort((a, b) => a - b);
+    const index = sorted.length - fromTop;
+    sorted[index] -= 12;
+    return sorted;
+}
@@ -0,0 +1,96 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+    fromSequentialNotes,
+    parseTimeSignature,
+    toSequentialNotes,
+} from "./timeline.js";
+
+describe("toSequentialNotes", () => {
+    it("converts gaps into delays", () => {
+        const notes = toSequentialNotes([
+            { note: 60, velocity: 100, channel: 0, start: 1, duration: 1 },
+            { note: 62, velocity: 100, channel: 0, start: 2.5, duration: 0.5 },
+        ]);
+
+        assert.deepEqual(notes, [
+            { note: 60, velocity: 100, channel: 0, duration: 1, delay: 1 },
+            { note: 62, velocity: 100, channel: 0, duration: 0.5, delay: 0.5 },
+        ]);
+    });
+
+    it("keeps an explicit start for overlapping notes", () => {
+        const notes = toSequentialNotes([
+            { note: 60, velocity: 100, channel: 0, start: 0, duration: 2 },
+            { note: 64, velocity: 100, channel: 0, start: 0, duration: 2 },
+            { note: 67, velocity: 100, channel: 0, start: 3, duration: 1 },
+        ]);
+
+        assert.deepEqual(notes, [
+            { note: 60, velocity: 100, channel: 0, duration: 2, delay: 0 },
+            { note: 64, velocity: 100, channel: 0, duration: 2, start: 0 },
+            { note: 67, velocity: 100, channel: 0, duration: 1, delay: 1 },
+        ]);
+    });
+});
+
+describe("fromSequentialNotes", () => {
+    it("places notes after the previous note plus delay", () => {
+        const notes = fromSequentialNotes([
+            { note: 60, velocity: 100, duration: 1 },
+            { note: 62, velocity: 90, delay: 0.5 },
+            { note: 64, velocity: 80, channel: 2, duration: 2 },
+        ]);
+
+        assert.deepEqual(notes, [
+            { note: 60, velocity: 100, channel: 0, start: 0, duration: 1 },
+            { note: 62, velocity: 90, channel: 0, start: 1.5, duration: 0.5 },
+            { note: 64, velocity: 80, channel: 2, start: 2, duration: 2 },
+        ]);
+    });
+
+    it("places notes with an explicit start without moving on from it", () => {
+        const notes = fromSequentialNotes(
+            [
+                { note: 48, velocity: 80, start: 0, duration: 4 },
+                { note: 72, velocity: 90, start: 1, duration: 500 },
+                { note: 74, velocity: 90 },
+            ],
+            { duration: 250, channel: 3 },
+        );
+
+        assert.deepEqual(
+            notes.map((n) => [n.start, n.duration, n.channel]),
+            [[0, 4, 3], [1, 500, 3], [501, 250, 3]],
+        );
+    });
+
+    it("round-trips polyphonic material", () => {
+        const timed = [
+            { note: 48, velocity: 80, channel: 0, start: 0, duration: 4 },
+            { note: 72, velocity: 90, channel: 0, start: 0, duration: 1 },
+            { note: 74, velocity: 90, channel: 0, start: 1.5, duration: 1 },
+        ];
+        assert.deepEqual(fromSequentialNotes(toSequentialNotes(timed)), timed);
+    });
+
+    it("round-trips monophonic lines", () => {
+        const input = [
+            { note: 60, velocity: 100, channel: 0, duration: 1, delay: 0.25 },
+            { note: 67, velocity: 100, channel: 0, duration: 0.5, delay: 1 },
+        ];
+        assert.deepEqual(toSequentialNotes(fromSequentialNotes(input)), input);
+    });
+});
+
+describe("parseTimeSignature", () => {
+    it("parses common meters", () => {
+        assert.deepEqual(parseTimeSignature("4/4"), { numerator: 4, denominator: 4 });
+        assert.deepEqual(parseTimeSignature(" 7 / 8 "), { numerator: 7, denominator: 8 });
+    });
+
+    it("rejects invalid denominators", () => {
+        assert.throws(() => parseTimeSignature("4/5"));
+        assert.throws(() => parseTimeSignature("four"));
+    });
+});
@@ -0,0 +1,124 @@
+/**
+ * Shared note representations.
+ *
+ * `NoteInput` is the shape the MIDI tools accept: each note starts after the
+ * previous one has ended plus its `delay`, unless it gives an absolute
+ * `start`. `TimedNote` places every note at an absolute position, which is
+ * what capture, MIDI files and the scheduler deal in.
+ */
+
+export interface NoteInput {
+    note: number;
+    velocity: number;
+    channel?: number;
+    duration?: number;
+    delay?: number;
+    /** Absolute start from the beginning of the sequence; overrides `delay` */
+    start?: number;
+}
+
+export interface TimedNote {
+    note: number;
+    velocity: number;
+    channel: number;
+    /** Start position in beats from the beginning of the sequence */
+    start: number;
+    /** Length in beats */
+    duration: number;
+}
+
+export interface TimedController {
+    controller: number;
+    value: number;
+    channel: number;
+    /** Position in beats from the beginning of the sequence */
+    time: number;
+}
+
+export interface TimeSignature {
+    numerator: number;
+    /** Note value of one beat: 1, 2, 4, 8, 16 or 32 */
+    denominator: number;
+}
+
+const BEAT_PRECISION = 1000;
+
+export function roundBeats(beats: number): number {
+    return Math.round(beats * BEAT_PRECISION) / BEAT_PRECISION;
+}
+
+/**
+ * Convert absolutely positioned notes into NoteInput events. Notes that
+ * follow the previous note are written with a `delay`; notes that overlap
+ * it (chords, sustained voices) keep an explicit `start`.
+ */
+export function toSequentialNotes(notes: TimedNote[]): NoteInput[] {
+    const sorted = [...notes].sort((a, b) => a.start - b.start);
+    const result: NoteInput[] = [];
+    let cursor = 0;
+
+    for (const current of sorted) {
+        const base = {
+            note: current.note,
+            velocity: current.velocity,
+            channel: current.channel,
+            duration: roundBeats(current.duration),
+        };
+        result.push(
+            current.start >= cursor
+                ? { ...base, delay: roundBeats(current.start - cursor) }
+                : { ...base, start: roundBeats(current.start) },
+        );
+        cursor = current.start + current.duration;
+    }
+
+    return result;
+}
+
+export interface SequenceDefaults {
+    /** Channel for notes without one. Default: 0 */
+    channel?: number;
+    /** Duration for notes without one. Default: 0.5 (beats) */
+    duration?: number;
+}
+
+/**
+ * Place NoteInput events on an absolute timeline. Notes without `start`
+ * begin when the previous note in the list ends, plus their `delay`.
+ */
+export function fromSequentialNotes(
+    notes: NoteInput[],
+    defaults: SequenceDefaults = {},
+): TimedNote[] {
+    const result: TimedNote[] = [];
+    let cursor = 0;
+
+    for (const n of notes) {
+        const start = n.start ?? cursor + (n.delay ?? 0);
+        const duration = n.duration ?? defaults.duration ?? 0.5;
+        result.push({
+            note: n.note,
+            velocity: n.velocity,
+            channel: n.channel ?? defaults.channel ?? 0,
+            start,
+            duration,
+        });
+        cursor = start + duration;
+    }
+
+    return result;
+}
+
+/** Parse a time signature such as "4/4" or "7/8". */
+export function parseTimeSignature(text: string): TimeSignature {
+    const match = text.trim().match(/^(\d+)\s*\/\s*(\d+)$/);
+    if (!match) {
+        throw new Error(`Invalid time signature "${text}". Expected e.g. "4/4" or "7/8".`);
+    }
+    const numerator = Number(match[1]);
+    const denominator = Number(match[2]);
+    if (numerator < 1 || ![1, 2, 4, 8, 16, 32].includes(denominator)) {
+        throw new Error(`Invalid time signature "${text}".`);
+    }
+    return { numerator, denominator };
+}
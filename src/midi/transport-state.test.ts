@@ -0,0 +1,121 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+    describeTransport,
+    estimateTempo,
+    initialTransportState,
+    updateTransportState,
+    type TransportState,
+} from "./transport-state.js";
+
+/** Feed messages at the given times (ms). */
+function feed(messages: [number, number[]][], state: TransportState = initialTransportState()) {
+    return messages.reduce((s, [time, bytes]) => updateTransportState(s, bytes, time), state);
+}
+
+/** Clock ticks at `bpm` from `start` ms. */
+function clocks(count: number, bpm: number, start: number): [number, number[]][] {
+    const interval = 60_000 / bpm / 24;
+    return Array.from({ length: count }, (_, i) => [start + (i + 1) * interval, [0xf8]]);
+}
+
+/** The eight quarter frames for a time, as sent by an MTC master. */
+function quarterFrames(hours: number, minutes: number, seconds: number, frames: number, rateCode: number) {
+    const nibbles = [
+        frames & 0x0f, frames >> 4,
+        seconds & 0x0f, seconds >> 4,
+        minutes & 0x0f, minutes >> 4,
+        hours & 0x0f, (hours >> 4) | (rateCode << 1),
+    ];
+    return nibbles.map((value, piece): [number, number[]] => [piece * 10, [0xf1, (piece << 4) | value]]);
+}
+
+describe("updateTransportState", () => {
+    it("is unknown until a sync message arrives", () => {
+        const state = feed([[0, [0x90, 60, 100]]]);
+        assert.deepEqual(describeTransport(state, 0), { known: false, running: false, recording: false });
+    });
+
+    it("follows clock Start, ticks and Stop", () => {
+        let state = feed([[0, [0xfa]], ...clocks(48, 120, 0)]);
+        let snapshot = describeTransport(state, 1000);
+        assert.equal(snapshot.running, true);
+        assert.equal(snapshot.source, "clock");
+        assert.equal(snapshot.beats, 2);
+        assert.equal(snapshot.tempo, 120);
+
+        state = feed([[1010, [0xfc]]], state);
+        snapshot = describeTransport(state, 1020);
+        assert.equal(snapshot.running, false);
+        assert.equal(snapshot.beats, 2);
+    });
+
+    it("positions from Song Position Pointer and resumes on Continue", () => {
+        // SPP 0x0102 sixteenths = 258 → 64.5 beats
+        const state = feed([[0, [0xf2, 0x02, 0x02]], [5, [0xfb]], ...clocks(12, 120, 5)]);
+        const snapshot = describeTransport(state, 260);
+        assert.equal(snapshot.running, true);
+        assert.equal(snapshot.beats, 65);
+    });
+
+    it("does not advance the position while stopped", () => {
+        const state = feed([[0, [0xf2, 0, 0]], ...clocks(24, 120, 0)]);
+        assert.equal(describeTransport(state, 500).beats, 0);
+    });
+
+    it("treats playback as stopped once clock stops arriving", () => {
+        const state = feed([[0, [0xfa]], ...clocks(24, 120, 0)]);
+        assert.equal(describeTransport(state, 600).running, true);
+        assert.equal(describeTransport(state, 2000).running, false);
+    });
+
+    it("assembles MTC quarter frames, two frames late", () => {
+        const state = feed(quarterFrames(1, 2, 3, 4, 1));
+        const snapshot = describeTransport(state, 80);
+        assert.equal(snapshot.running, true);
+        assert.equal(snapshot.source, "mtc");
+        assert.equal(snapshot.frameRate, 25);
+        assert.deepEqual(snapshot.timecode, { hours: 1, minutes: 2, seconds: 3, frames: 6, subframes: 0 });
+    });
+
+    it("ignores an incomplete quarter-frame sequence", () => {
+        const state = feed(quarterFrames(1, 2, 3, 4, 1).slice(3));
+        assert.equal(describeTransport(state, 80).timecode, undefined);
+    });
+
+    it("reads MTC full frames", () => {
+        const state = feed([[0, [0xf0, 0x7f, 0x7f, 0x01, 0x01, 0x61, 0, 30, 12, 0xf7]]]);
+        const snapshot = describeTransport(state, 10);
+        assert.equal(snapshot.running, false);
+        assert.equal(snapshot.frameRate, 30);
+        assert.deepEqual(snapshot.timecode, { hours: 1, minutes: 0, seconds: 30, frames: 12, subframes: 0 });
+    });
+
+    it("follows MMC play, record and stop", () => {
+        const mmc = (command: number): number[] => [0xf0, 0x7f, 0x7f, 0x06, command, 0xf7];
+        let state = feed([[0, mmc(0x02)]]);
+        assert.equal(describeTransport(state, 5000).running, true);
+
+        state = feed([[10, mmc(0x06)]], state);
+        assert.equal(describeTransport(state, 20).recording, true);
+        state = feed([[30, mmc(0x07)]], state);
+        assert.deepEqual(
+            [describeTransport(state, 40).running, describeTransport(state, 40).recording],
+            [true, false],
+        );
+
+        state = feed([[50, mmc(0x01)]], state);
+        assert.equal(describeTransport(state, 60).running, false);
+    });
+});
+
+describe("estimateTempo", () => {
+    it("needs at least two intervals", () => {
+        assert.equal(estimateTempo([20.8]), undefined);
+    });
+
+    it("averages clock intervals", () => {
+        assert.equal(estimateTempo([25, 25, 25]), 100);
+        assert.equal(estimateTempo([20, 22]), 119);
+    });
+});
@@ -0,0 +1,216 @@
+/**
+ * Transport state derived from the sync messages Logic Pro sends: MIDI
+ * Clock with Start/Stop/Continue/Song Position Pointer, MTC quarter
+ * frames and full frames, and MMC commands. Logic sends these to a port
+ * chosen in Project Settings > Synchronization > MIDI.
+ *
+ * The state is updated message by message with `updateTransportState`
+ * and read with `describeTransport`, which also decides whether the
+ * information is still fresh.
+ */
+
+import type { SmpteFrameRate, SmpteTime } from "./mmc.js";
+import { secondsToSmpte, smpteToSeconds } from "./position.js";
+
+export type TransportSource = "clock" | "mtc" | "mmc";
+
+export interface TransportState {
+    running: boolean;
+    recording: boolean;
+    /** What last set `running` */
+    runningSource?: TransportSource;
+    /** MIDI clock ticks (24 per quarter note) since the song start */
+    clockTicks: number;
+    /** Whether clockTicks is anchored by Start or a Song Position Pointer */
+    clockPositionKnown: boolean;
+    /** Recent intervals between clock ticks in ms, for tempo estimation */
+    clockIntervals: number[];
+    timecode?: SmpteTime;
+    frameRate?: SmpteFrameRate;
+    /** Quarter-frame nibbles of the MTC message being assembled */
+    mtcPieces: (number | undefined)[];
+    lastClockAt?: number;
+    lastMtcAt?: number;
+    lastMessageAt?: number;
+}
+
+export interface TransportSnapshot {
+    /** False until any sync message has been received */
+    known: boolean;
+    running: boolean;
+    recording: boolean;
+    source?: TransportSource;
+    /** Estimated tempo from the clock rate */
+    tempo?: number;
+    /** Quarter-note beats from the song start, from clock/SPP */
+    beats?: number;
+    timecode?: SmpteTime;
+    frameRate?: SmpteFrameRate;
+    /** Ms since the last sync message */
+    age?: number;
+}
+
+const CLOCKS_PER_QUARTER = 24;
+const CLOCKS_PER_SIXTEENTH = 6;
+// Number of clock intervals averaged for the tempo estimate (one beat)
+const TEMPO_WINDOW = 24;
+// Clock/MTC stop arriving when Logic stops without sending Stop (e.g. MTC only)
+const STALE_AFTER_MS = 500;
+
+const MTC_RATES: SmpteFrameRate[] = [24, 25, 29.97, 30];
+
+export function initialTransportState(): TransportState {
+    return {
+        running: false,
+        recording: false,
+        clockTicks: 0,
+        clockPositionKnown: false,
+        clockIntervals: [],
+        mtcPieces: [],
+    };
+}
+
+/** Apply one incoming MIDI message (received at `time` ms) to the state. */
+export function updateTransportState(
+    previous: TransportState,
+    bytes: number[],
+    time: number,
+): TransportState {
+    const state = { ...previous };
+    switch (bytes[0]) {
+        case 0xf8:
+            if (state.lastClockAt !== undefined && time - state.lastClockAt < 1000) {
+                state.clockIntervals = [...state.clockIntervals, time - state.lastClockAt].slice(-TEMPO_WINDOW);
+            }
+            state.lastClockAt = time;
+            if (state.running && state.runningSource === "clock") state.clockTicks++;
+            break;
+        case 0xfa:
+            Object.assign(state, { running: true, runningSource: "clock", clockTicks: 0, clockPositionKnown: true });
+            state.lastClockAt = time;
+            break;
+        case 0xfb:
+            Object.assign(state, { running: true, runningSource: "clock" });
+            state.lastClockAt = time;
+            break;
+        case 0xfc:
+            Object.assign(state, { running: false, recording: false, runningSource: "clock" });
+            break;
+        case 0xf2:
+            state.clockTicks = (((bytes[1] ?? 0) & 0x7f) | (((bytes[2] ?? 0) & 0x7f) << 7)) * CLOCKS_PER_SIXTEENTH;
+            state.clockPositionKnown = true;
+            break;
+        case 0xf1:
+            applyQuarterFrame(state, bytes[1] ?? 0, time);
+            break;
+        case 0xf0:
+            applySysex(state, bytes);
+            break;
+        default:
+            // Not a sync message; leave lastMessageAt alone
+            return previous;
+    }
+    state.lastMessageAt = time;
+    return state;
+}
+
+/** The state as seen at `now`, with stale clock/MTC playback treated as stopped. */
+export function describeTransport(state: TransportState, now: number): TransportSnapshot {
+    if (state.lastMessageAt === undefined) {
+        return { known: false, running: false, recording: false };
+    }
+
+    let running = state.running;
+    const lastTiming = state.runningSource === "mtc" ? state.lastMtcAt : state.lastClockAt;
+    if (running && state.runningSource !== "mmc" && (lastTiming === undefined || now - lastTiming > STALE_AFTER_MS)) {
+        running = false;
+    }
+
+    const snapshot: TransportSnapshot = {
+        known: true,
+        running,
+        recording: running && state.recording,
+        source: state.runningSource,
+        age: Math.round(now - state.lastMessageAt),
+    };
+    const tempo = estimateTempo(state.clockIntervals);
+    if (tempo !== undefined) snapshot.tempo = tempo;
+    if (state.clockPositionKnown) snapshot.beats = state.clockTicks / CLOCKS_PER_QUARTER;
+    if (state.timecode) {
+        snapshot.timecode = state.timecode;
+        snapshot.frameRate = state.frameRate;
+    }
+    return snapshot;
+}
+
+/** Tempo in BPM from the average clock interval, rounded to 0.1. */
+export function estimateTempo(intervals: number[]): number | undefined {
+    if (intervals.length < 2) return undefined;
+    const average = intervals.reduce((sum, ms) => sum + ms, 0) / intervals.length;
+    return Math.round((60_000 / (average * CLOCKS_PER_QUARTER)) * 10) / 10;
+}
+
+/**
+ * MTC quarter frames carry one nibble of the timecode each; after piece 7
+ * the full time is known. It describes the frame at which piece 0 was
+ * sent, two frames ago.
+ */
+function applyQuarterFrame(state: TransportState, data: number, time: number): void {
+    const piece = (data >> 4) & 0x07;
+    const pieces = piece === 0 ? [] : [...state.mtcPieces];
+    pieces[piece] = data & 0x0f;
+    state.mtcPieces = pieces;
+    state.lastMtcAt = time;
+    if (state.runningSource !== "clock" || !state.running) {
+        state.running = true;
+        state.runningSource = "mtc";
+    }
+
+    if (piece !== 7 || pieces.filter((p) => p !== undefined).length !== 8) return;
+    const [f0, f1, s0, s1, m0, m1, h0, h1] = pieces as number[];
+    const frameRate = MTC_RATES[(h1 >> 1) & 0x03];
+    const timecode = {
+        hours: h0 | ((h1 & 0x01) << 4),
+        minutes: m0 | (m1 << 4),
+        seconds: s0 | (s1 << 4),
+        frames: f0 | (f1 << 4),
+        subframes: 0,
+    };
+    state.frameRate = frameRate;
+    state.timecode = secondsToSmpte(smpteToSeconds(timecode, frameRate) + 2 / frameRate, frameRate);
+}
+
+function applySysex(state: TransportState, bytes: number[]): void {
+    if (bytes[1] !== 0x7f) return;
+
+    // MTC full frame: F0 7F <dev> 01 01 hr mn sc fr F7 (sent when Logic locates)
+    if (bytes[3] === 0x01 && bytes[4] === 0x01 && bytes.length >= 10) {
+        state.frameRate = MTC_RATES[(bytes[5] >> 5) & 0x03];
+        state.timecode = {
+            hours: bytes[5] & 0x1f,
+            minutes: bytes[6],
+            seconds: bytes[7],
+            frames: bytes[8],
+            subframes: 0,
+        };
+        return;
+    }
+
+    // MMC commands: F0 7F <dev> 06 <command> F7
+    if (bytes[3] !== 0x06) return;
+    switch (bytes[4]) {
+        case 0x01:
+            Object.assign(state, { running: false, recording: false, runningSource: "mmc" });
+            break;
+        case 0x02:
+        case 0x03:
+            Object.assign(state, { running: true, runningSource: "mmc" });
+            break;
+        case 0x06:
+            Object.assign(state, { running: true, recording: true, runningSource: "mmc" });
+            break;
+        case 0x07:
+            state.recording = false;
+            break;
+    }
+}
@@ -0,0 +1,152 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+    dateFromTimetag,
+    decodeOsc,
+    encodeOsc,
+    flattenOsc,
+    matchOscAddress,
+    OSC_IMMEDIATELY,
+    timetagFromDate,
+    toOscArgument,
+    type OscMessage,
+} from "./codec.js";
+
+const bytes = (text: string) => [...Buffer.from(text, "ascii")];
+
+describe("encodeOsc", () => {
+    it("pads the address, type tags and strings to 4 bytes", () => {
+        const encoded = encodeOsc({ address: "/oscillator/4/frequency", args: [{ type: "f", value: 440 }] });
+        // The example from the OSC 1.0 specification
+        assert.deepEqual(
+            [...encoded],
+            [
+                ...bytes("/oscillator/4/frequency"), 0,
+                ...bytes(",f"), 0, 0,
+                0x43, 0xdc, 0x00, 0x00,
+            ],
+        );
+    });
+
+    it("encodes every argument type", () => {
+        const encoded = encodeOsc({
+            address: "/foo",
+            args: [
+                { type: "i", value: 1000 },
+                { type: "i", value: -1 },
+                { type: "s", value: "hello" },
+                { type: "f", value: 1.234 },
+                { type: "b", value: Uint8Array.from([1, 2, 3]) },
+                { type: "T", value: true },
+                { type: "N", value: null },
+            ],
+        });
+        assert.deepEqual(
+            [...encoded],
+            [
+                ...bytes("/foo"), 0, 0, 0, 0,
+                ...bytes(",iisfbTN"), 0, 0, 0, 0,
+                0x00, 0x00, 0x03, 0xe8,
+                0xff, 0xff, 0xff, 0xff,
+                ...bytes("hello"), 0, 0, 0,
+                0x3f, 0x9d, 0xf3, 0xb6,
+                0x00, 0x00, 0x00, 0x03, 1, 2, 3, 0,
+            ],
+        );
+    });
+
+    it("types plain values", () => {
+        assert.deepEqual(toOscArgument(3), { type: "i", value: 3 });
+        assert.deepEqual(toOscArgument(0.5), { type: "f", value: 0.5 });
+        assert.deepEqual(toOscArgument(2 ** 40), { type: "h", value: 2n ** 40n });
+        assert.deepEqual(toOscArgument("x"), { type: "s", value: "x" });
+        assert.deepEqual(toOscArgument(false), { type: "F", value: false });
+        assert.deepEqual(toOscArgument({ type: "d", value: 1 }), { type: "d", value: 1 });
+    });
+
+    it("rejects bad addresses and values", () => {
+        assert.throws(() => encodeOsc({ address: "foo", args: [] }), /must start with "\/"/);
+        assert.throws(() => encodeOsc({ address: "/foo", args: [{ type: "i", value: "1" }] }), /needs a number/);
+        assert.throws(() => encodeOsc({ address: "/foo", args: [{ type: "m", value: [1, 2] }] }), /4 bytes/);
+    });
+});
+
+describe("decodeOsc", () => {
+    it("round-trips messages", () => {
+        const message: OscMessage = {
+            address: "/logic/track/1/name",
+            args: [
+                { type: "s", value: "Lead Vocal" },
+                { type: "d", value: Math.PI },
+                { type: "h", value: -(2n ** 40n) },
+                { type: "c", value: "é" },
+                { type: "m", value: [0, 0x90, 60, 100] },
+                { type: "F", value: false },
+                { type: "I", value: null },
+                { type: "b", value: Uint8Array.from([]) },
+                { type: "f", value: 0.5 },
+            ],
+        };
+        assert.deepEqual(decodeOsc(encodeOsc(message)), message);
+    });
+
+    it("round-trips nested bundles", () => {
+        const bundle = {
+            timetag: OSC_IMMEDIATELY,
+            elements: [
+                { address: "/a", args: [{ type: "i" as const, value: 1 }] },
+                { timetag: timetagFromDate(0), elements: [{ address: "/b", args: [] }] },
+            ],
+        };
+        const encoded = encodeOsc(bundle);
+        assert.deepEqual([...encoded.slice(0, 16)], [...bytes("#bundle"), 0, 0, 0, 0, 0, 0, 0, 0, 1]);
+        assert.deepEqual(decodeOsc(encoded), bundle);
+        assert.deepEqual(
+            flattenOsc(bundle).map(({ message, timetag }) => [message.address, timetag]),
+            [["/a", OSC_IMMEDIATELY], ["/b", timetagFromDate(0)]],
+        );
+    });
+
+    it("accepts messages without a type tag string", () => {
+        assert.deepEqual(decodeOsc(Uint8Array.from([...bytes("/go"), 0])), { address: "/go", args: [] });
+    });
+
+    it("rejects truncated and malformed packets", () => {
+        const encoded = encodeOsc({ address: "/foo", args: [{ type: "i", value: 1 }] });
+        assert.throws(() => decodeOsc(encoded.slice(0, -2)), /truncated/);
+        assert.throws(() => decodeOsc(Uint8Array.from(bytes("/foo"))), /Unterminated/);
+        assert.throws(() => decodeOsc(Uint8Array.from([...bytes("foo"), 0])), /Invalid OSC address/);
+        assert.throws(() => decodeOsc(Uint8Array.from([...bytes("/foo"), 0, 0, 0, 0, ...bytes(",x"), 0, 0])), /type tag "x"/);
+    });
+});
+
+describe("timetags", () => {
+    it("converts between Unix milliseconds and NTP time", () => {
+        assert.equal(timetagFromDate(0), 2_208_988_800n << 32n);
+        assert.equal(timetagFromDate(500) & 0xffffffffn, 2n ** 31n);
+        const now = 1_790_000_000_123;
+        assert.ok(Math.abs(dateFromTimetag(timetagFromDate(now)) - now) < 0.001);
+    });
+});
+
+describe("matchOscAddress", () => {
+    it("matches literal addresses", () => {
+        assert.equal(matchOscAddress("/mixer/volume", "/mixer/volume"), true);
+        assert.equal(matchOscAddress("/mixer/volume", "/mixer/volume2"), false);
+    });
+
+    it("supports wildcards within one level", () => {
+        assert.equal(matchOscAddress("/track/*/name", "/track/12/name"), true);
+        assert.equal(matchOscAddress("/track/*", "/track/12/name"), false);
+        assert.equal(matchOscAddress("/track/?", "/track/1"), true);
+        assert.equal(matchOscAddress("/track/?", "/track/12"), false);
+    });
+
+    it("supports character sets and choices", () => {
+        assert.equal(matchOscAddress("/strip/[1-4]/mute", "/strip/3/mute"), true);
+        assert.equal(matchOscAddress("/strip/[!1-4]/mute", "/strip/3/mute"), false);
+        assert.equal(matchOscAddress("/strip/1/{mute,solo}", "/strip/1/solo"), true);
+        assert.equal(matchOscAddress("/strip/1/{mute,solo}", "/strip/1/arm"), false);
+        assert.equal(matchOscAddress("/a.b", "/aXb"), false);
+    });
+});
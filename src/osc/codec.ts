@@ -0,0 +1,342 @@
+/**
+ * Open Sound Control 1.0 packets: messages, bundles and type tags.
+ *
+ * Besides the 1.0 core types (int32, float32, string, blob) the common
+ * extensions are supported: 64-bit ints and doubles, time tags, chars,
+ * 4-byte MIDI messages, True/False/Nil/Impulse and alternate strings.
+ * Everything is big-endian and padded to 4 bytes.
+ */
+
+export type OscType = "i" | "f" | "s" | "S" | "b" | "h" | "d" | "t" | "c" | "m" | "T" | "F" | "N" | "I";
+
+export type OscValue = number | bigint | string | boolean | null | Uint8Array | number[];
+
+export interface OscArgument {
+    type: OscType;
+    /**
+     * i f d: number; h t: bigint; s S c: string; b: bytes; m: 4 MIDI
+     * bytes (port, status, data1, data2); T F: boolean; N I: null
+     */
+    value: OscValue;
+}
+
+export interface OscMessage {
+    address: string;
+    args: OscArgument[];
+}
+
+export interface OscBundle {
+    /** NTP time tag: seconds since 1900 in the upper 32 bits, fraction in the lower */
+    timetag: bigint;
+    elements: OscPacket[];
+}
+
+export type OscPacket = OscMessage | OscBundle;
+
+/** The special time tag meaning "now". */
+export const OSC_IMMEDIATELY = 1n;
+
+const BUNDLE_TAG = "#bundle";
+// Seconds from the NTP epoch (1900) to the Unix epoch (1970)
+const NTP_EPOCH_OFFSET = 2_208_988_800;
+
+export function isOscBundle(packet: OscPacket): packet is OscBundle {
+    return "elements" in packet;
+}
+
+/**
+ * Type an argument from a plain value: integers are int32 (or int64 when
+ * they don't fit), other numbers float32, booleans T/F and null Nil.
+ */
+export function toOscArgument(value: OscValue | OscArgument): OscArgument {
+    if (value !== null && typeof value === "object" && "type" in value) return value;
+    if (typeof value === "number") {
+        if (Number.isInteger(value)) {
+            return value >= -0x80000000 && value <= 0x7fffffff
+                ? { type: "i", value }
+                : { type: "h", value: BigInt(value) };
+        }
+        return { type: "f", value };
+    }
+    if (typeof value === "bigint") return { type: "h", value };
+    if (typeof value === "string") return { type: "s", value };
+    if (typeof value === "boolean") return { type: value ? "T" : "F", value };
+    if (value === null) return { type: "N", value: null };
+    if (value instanceof Uint8Array) return { type: "b", value };
+    throw new Error(`Cannot send ${JSON.stringify(value)} as an OSC argument.`);
+}
+
+export function timetagFromDate(ms: number): bigint {
+    const seconds = Math.floor(ms / 1000);
+    const fraction = Math.round(((ms % 1000) / 1000) * 2 ** 32);
+    return (BigInt(seconds + NTP_EPOCH_OFFSET) << 32n) | BigInt(Math.min(fraction, 2 ** 32 - 1));
+}
+
+export function dateFromTimetag(timetag: bigint): number {
+    const seconds = Number(timetag >> 32n) - NTP_EPOCH_OFFSET;
+    const fraction = Number(timetag & 0xffffffffn) / 2 ** 32;
+    return (seconds + fraction) * 1000;
+}
+
+export function encodeOsc(packet: OscPacket): Uint8Array {
+    return Uint8Array.from(isOscBundle(packet) ? encodeBundle(packet) : encodeMessage(packet));
+}
+
+/** Decode a packet received over UDP. Throws on malformed data. */
+export function decodeOsc(data: Uint8Array): OscPacket {
+    return decodePacket({ data, offset: 0 });
+}
+
+/** Every message in a packet, with bundles unpacked. */
+export function flattenOsc(packet: OscPacket, timetag?: bigint): { message: OscMessage; timetag?: bigint }[] {
+    if (!isOscBundle(packet)) return [{ message: packet, timetag }];
+    return packet.elements.flatMap((element) => flattenOsc(element, packet.timetag));
+}
+
+/**
+ * Match an address against an OSC address pattern: ? is one character,
+ * * any run of characters, [abc] / [a-z] / [!a] a character set and
+ * {foo,bar} a choice. None of them cross a "/", so match each level of
+ * the address separately ("/mixer/*" does not match "/mixer/1/volume").
+ */
+export function matchOscAddress(pattern: string, address: string): boolean {
+    return patternToRegExp(pattern).test(address);
+}
+
+function encodeMessage(message: OscMessage): number[] {
+    if (!message.address.startsWith("/")) {
+        throw new Error(`OSC address must start with "/"; got "${message.address}".`);
+    }
+    const args = message.args.map((arg) => toOscArgument(arg));
+    return [
+        ...oscString(message.address),
+        ...oscString("," + args.map((a) => a.type).join("")),
+        ...args.flatMap(encodeArgument),
+    ];
+}
+
+function encodeBundle(bundle: OscBundle): number[] {
+    const bytes = [...oscString(BUNDLE_TAG), ...int64(bundle.timetag)];
+    for (const element of bundle.elements) {
+        const encoded = isOscBundle(element) ? encodeBundle(element) : encodeMessage(element);
+        bytes.push(...int32(encoded.length), ...encoded);
+    }
+    return bytes;
+}
+
+function encodeArgument(arg: OscArgument): number[] {
+    const { type, value } = arg;
+    switch (type) {
+        case "i":
+            return int32(expect(value, "number", type));
+        case "f": {
+            const buffer = Buffer.alloc(4);
+            buffer.writeFloatBE(expect(value, "number", type));
+            return [...buffer];
+        }
+        case "d": {
+            const buffer = Buffer.alloc(8);
+            buffer.writeDoubleBE(expect(value, "number", type));
+            return [...buffer];
+        }
+        case "h":
+        case "t":
+            return int64(BigInt(value as bigint | number));
+        case "s":
+        case "S":
+            return oscString(expect(value, "string", type));
+        case "c":
+            return int32(expect(value, "string", type).codePointAt(0) ?? 0);
+        case "b": {
+            if (!(value instanceof Uint8Array)) throw new Error("OSC blob arguments must be bytes.");
+            return [...int32(value.length), ...value, ...padding(value.length)];
+        }
+        case "m": {
+            const bytes = value as number[];
+            if (!Array.isArray(bytes) || bytes.length !== 4) {
+                throw new Error("OSC MIDI arguments are 4 bytes: port, status, data1, data2.");
+            }
+            return bytes.map((b) => b & 0xff);
+        }
+        case "T":
+        case "F":
+        case "N":
+        case "I":
+            // No data: the type tag carries the value
+            return [];
+        default:
+            throw new Error(`Unsupported OSC type tag "${type}".`);
+    }
+}
+
+function decodePacket(cursor: Cursor): OscPacket {
+    return peekString(cursor) === BUNDLE_TAG ? decodeBundle(cursor) : decodeMessage(cursor);
+}
+
+function decodeMessage(cursor: Cursor): OscMessage {
+    const address = readString(cursor);
+    if (!address.startsWith("/")) throw new Error(`Invalid OSC address "${address}".`);
+    // A missing type tag string is allowed by OSC 1.0 for old senders: no arguments
+    if (done(cursor)) return { address, args: [] };
+    const tags = readString(cursor);
+    if (!tags.startsWith(",")) throw new Error(`Invalid OSC type tag string "${tags}".`);
+
+    const args: OscArgument[] = [];
+    for (const type of tags.slice(1) as Iterable<OscType>) {
+        args.push({ type, value: decodeArgument(cursor, type) });
+    }
+    if (!done(cursor)) {
+        throw new Error(`OSC message ${address} has ${cursor.data.length - cursor.offset} unread bytes.`);
+    }
+    return { address, args };
+}
+
+function decodeBundle(cursor: Cursor): OscBundle {
+    readString(cursor);
+    const timetag = readBuffer(cursor, 8).readBigUInt64BE(0);
+    const elements: OscPacket[] = [];
+    while (!done(cursor)) {
+        const size = readBuffer(cursor, 4).readInt32BE(0);
+        elements.push(decodePacket({ data: readBytes(cursor, size), offset: 0 }));
+    }
+    return { timetag, elements };
+}
+
+function decodeArgument(cursor: Cursor, type: OscType): OscValue {
+    switch (type) {
+        case "i":
+            return readBuffer(cursor, 4).readInt32BE(0);
+        case "f":
+            return readBuffer(cursor, 4).readFloatBE(0);
+        case "d":
+            return readBuffer(cursor, 8).readDoubleBE(0);
+        case "h":
+            return readBuffer(cursor, 8).readBigInt64BE(0);
+        case "t":
+            return readBuffer(cursor, 8).readBigUInt64BE(0);
+        case "s":
+        case "S":
+            return readString(cursor);
+        case "c":
+            return String.fromCodePoint(readBuffer(cursor, 4).readInt32BE(0));
+        case "b": {
+            const length = readBuffer(cursor, 4).readInt32BE(0);
+            const bytes = readBytes(cursor, length);
+            skip(cursor, padding(length).length);
+            return bytes;
+        }
+        case "m":
+            return [...readBytes(cursor, 4)];
+        case "T":
+            return true;
+        case "F":
+            return false;
+        case "N":
+        case "I":
+            return null;
+        default:
+            throw new Error(`Unsupported OSC type tag "${type}".`);
+    }
+}
+
+interface Cursor {
+    data: Uint8Array;
+    offset: number;
+}
+
+function done(cursor: Cursor): boolean {
+    return cursor.offset >= cursor.data.length;
+}
+
+function peekString(cursor: Cursor): string {
+    const end = cursor.data.indexOf(0, cursor.offset);
+    return Buffer.from(cursor.data.subarray(cursor.offset, end < 0 ? undefined : end)).toString("utf8");
+}
+
+function readString(cursor: Cursor): string {
+    const end = cursor.data.indexOf(0, cursor.offset);
+    if (end < 0) throw new Error("Unterminated OSC string.");
+    const text = Buffer.from(cursor.data.subarray(cursor.offset, end)).toString("utf8");
+    // Skip the terminator and the padding after it
+    skip(cursor, end + 1 - cursor.offset + padding(end + 1).length);
+    return text;
+}
+
+function readBytes(cursor: Cursor, length: number): Uint8Array {
+    const start = cursor.offset;
+    skip(cursor, length);
+    return cursor.data.slice(start, start + length);
+}
+
+function readBuffer(cursor: Cursor, length: number): Buffer {
+    return Buffer.from(readBytes(cursor, length));
+}
+
+function skip(cursor: Cursor, length: number): void {
+    if (length < 0 || cursor.offset + length > cursor.data.length) {
+        throw new Error("OSC packet is truncated.");
+    }
+    cursor.offset += length;
+}
+
+function oscString(text: string): number[] {
+    const bytes = [...Buffer.from(text, "utf8"), 0];
+    return [...bytes, ...padding(bytes.length)];
+}
+
+function padding(length: number): number[] {
+    return Array((4 - (length % 4)) % 4).fill(0);
+}
+
+function int32(value: number): number[] {
+    const buffer = Buffer.alloc(4);
+    buffer.writeInt32BE(value | 0);
+    return [...buffer];
+}
+
+function int64(value: bigint): number[] {
+    const buffer = Buffer.alloc(8);
+    buffer.writeBigUInt64BE(BigInt.asUintN(64, value));
+    return [...buffer];
+}
+
+function expect<T extends "number" | "string">(
+    value: OscValue,
+    kind: T,
+    type: OscType,
+): T extends "number" ? number : string {
+    if (typeof value !== kind) throw new Error(`OSC type "${type}" needs a ${kind}; got ${JSON.stringify(value)}.`);
+    return value as T extends "number" ? number : string;
+}
+
+function patternToRegExp(pattern: string): RegExp {
+    let source = "";
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === "?") {
+            source += "[^/]";
+        } else if (char === "*") {
+            source += "[^/]*";
+        } else if (char === "[") {
+            const end = pattern.indexOf("]", i);
+            if (end < 0) throw new Error(`Unclosed "[" in OSC pattern "${pattern}".`);
+            const body = pattern.slice(i + 1, end);
+            const negate = body.startsWith("!");
+            const set = (negate ? body.slice(1) : body).replace(/[\\\]^]/g, "\\$&");
+            source += `[${negate ? "^" : ""}${set}]`;
+            i = end;
+        } else if (char === "{") {
+            const end = pattern.indexOf("}", i);
+            if (end < 0) throw new Error(`Unclosed "{" in OSC pattern "${pattern}".`);
+            source += `(?:${pattern.slice(i + 1, end).split(",").map(escapeRegExp).join("|")})`;
+            i = end;
+        } else {
+            source += escapeRegExp(char);
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
@@ -1,25 +1,240 @@
+import { readFile, writeFile } from "node:fs/promises";
 import {
-    sendNotes as bridgeSendNotes,
-    sendPattern as bridgeSendPattern,
+    playScheduledEvents,
+    sendBankProgramChange,
     sendCC,
-    sendNoteOn,
-    sendNoteOff,
-    isMidiPortOpen,
+    sendCC14,
+    sendChannelPressure,
+    sendPanic,
+    sendParameterNumber,
+    sendPitchBend,
+    sendPolyPressure,
+    sendSysex,
+    listMidiInputPorts,
+    listMidiOutputPorts,
+    listOpenMidiPorts,
+    openMidiPort,
+    VIRTUAL_PORT_NAME,
+    isMidiInputOpen,
+    getReceivedMessages,
+    clearReceivedMessages,
+    configureMpe,
+    getMpeConfig,
 } from "../bridges/midi-bridge.js";
+import {
+    startCapture,
+    peekCapture,
+    stopCapture,
+} from "../bridges/midi-capture.js";
+import { ARPEGGIO_MODES, arpeggiate, type ArpeggioMode } from "../midi/arpeggiator.js";
+import {
+    isRampShape,
+    LFO_SHAPES,
+    parseSyncedRate,
+    RAMP_SHAPES,
+    renderLfo,
+    renderRamp,
+    type CurveShape,
+} from "../midi/curves.js";
+import { compileDrumPattern, parseDrumGrid } from "../midi/drums.js";
+import { SYNC_MESSAGE_TYPES } from "../midi/input-buffer.js";
+import { applyGroove, gridBeats, type GridValue, type GrooveOptions } from "../midi/groove.js";
+import {
+    getJob,
+    listJobs,
+    startJob,
+    stopAllJobs,
+    stopJob,
+    waitForJob,
+    type PlaybackJob,
+} from "../midi/jobs.js";
+import {
+    controlChangeMessage,
+    decodeMidiMessage,
+    parseSysex,
+    semitonesToPitchBend,
+    type MidiMessageType,
+} from "../midi/messages.js";
+import {
+    buildMpeEvents,
+    DEFAULT_MEMBER_BEND_RANGE,
+    zoneChannels,
+    type MpeNote,
+    type MpeZone,
+    type VoiceStealing,
+} from "../midi/mpe.js";
+import { buildNoteEvents, eventsDuration, timingToMs, type ScheduledEvent } from "../midi/scheduler.js";
+import { readSmf, summarizeSmf, writeSmf } from "../midi/smf.js";
+import { getTempoMap, tempoMapTiming } from "../midi/tempo-map.js";
+import {
+    fromSequentialNotes,
+    parseTimeSignature,
+    toSequentialNotes,
+    type NoteInput,
+    type TimedNote,
+} from "../midi/timeline.js";
+import {
+    getMiddleC,
+    middleCOctave,
+    noteName,
+    parseNote,
+    setMiddleC,
+    type MiddleC,
+    type NoteValue,
+} from "../midi/note-names.js";
+import {
+    parseKey,
+    resolveChord,
+    resolveProgression,
+    scaleNotes,
+    SCALE_NAMES,
+    voiceChord,
+    VOICINGS,
+    type Voicing,
+    type VoicingOptions,
+} from "../midi/theory.js";
+
+const PORT_SCHEMA = {
+    type: "string",
+    description:
+        'MIDI output to send on: a virtual port name, created on demand (e.g. "MCP Keys", "MCP Drums"), or a hardware/IAC output from midi_list_ports. Default: "Logic Pro MCP"',
+};
+
+const BACKGROUND_SCHEMA = {
+    type: "boolean",
+    description:
+        "Return immediately with a job id instead of waiting for playback to end. Use midi_job_status / midi_job_stop to follow or cancel it. Default: false",
+};
+
+const TEMPO_SCHEMA = {
+    type: "number",
+    description:
+        "Tempo in BPM. Default: follow the tempo map from its start if one is set with transport_set_tempo_map, else 120",
+};
+
+const GRID_SCHEMA = {
+    type: ["number", "string"],
+    description: 'Grid in beats (0.25) or as a note value ("1/16", "1/8T")',
+};
+
+const GROOVE_SCHEMA = {
+    type: "object",
+    description:
+        "Groove transforms applied to the notes before they are sent or written: transpose, quantize, swing, humanize, velocity dynamics and note length",
+    properties: {
+        transpose: { type: "number", description: "Semitones to shift all notes by" },
+        quantize: { ...GRID_SCHEMA, description: `Quantize note starts to this grid. ${GRID_SCHEMA.description}` },
+        quantizeStrength: {
+            type: "number",
+            description: "How far notes move towards the grid, 0-1. Default: 1",
+        },
+        swing: { type: "number", description: "Swing percentage, 50 (straight) to 75" },
+        swingGrid: { ...GRID_SCHEMA, description: `Grid whose offbeats are swung. Default: "1/16"` },
+        humanizeTiming: { type: "number", description: "Maximum random timing offset in beats, e.g. 0.02" },
+        humanizeVelocity: { type: "number", description: "Maximum random velocity offset, e.g. 8" },
+        seed: { type: "number", description: "Seed for humanize, to reproduce the same result" },
+        dynamics: {
+            type: "number",
+            description: "Velocity range around 64: below 1 compresses, above 1 expands. Default: 1",
+        },
+        velocityOffset: { type: "number", description: "Added to every velocity" },
+        lengthScale: {
+            type: "number",
+            description: "Multiply note lengths: below 1 is staccato, above 1 legato",
+        },
+        legato: {
+            type: "boolean",
+            description: "Extend each note to the start of the next note on its channel",
+        },
+    },
+};
+
+const EXPRESSION_SCHEMA = {
+    type: "array",
+    description: "Points as {time (beats from note start), value}, interpolated linearly",
+    items: {
+        type: "object",
+        properties: {
+            time: { type: "number" },
+            value: { type: "number" },
+        },
+        required: ["time", "value"],
+    },
+};
+
+const NOTE_SCHEMA = {
+    type: ["number", "string"],
+    description:
+        'MIDI note number (0-127) or note name ("C3", "Eb2", "F##4"). Octave names follow the middle-C setting (Logic: 60 = C3, scientific: 60 = C4; see midi_set_note_naming)',
+};
+
+const KEY_SCHEMA = {
+    type: "string",
+    description: 'Key for roman numerals, e.g. "C", "A minor", "F# dorian"',
+};
+
+const CHORD_VOICING_PROPERTIES = {
+    octave: {
+        type: "number",
+        description:
+            "Octave of the chord root, in the configured note naming. Default: the octave starting at middle C",
+    },
+    inversion: {
+        type: "number",
+        description: "0 = root position, 1 = first inversion, 2 = second... Default: 0",
+    },
+    voicing: {
+        type: "string",
+        enum: VOICINGS,
+        description: "close, drop2, drop3 or spread. Default: close",
+    },
+};
+
+const PATTERN_NOTE_SCHEMA = {
+    type: "object",
+    properties: {
+        note: NOTE_SCHEMA,
+        chord: {
+            type: "string",
+            description:
+                'Play a chord instead of a single note: chord symbol ("Am7") or roman numeral ("vi7") with the pattern key',
+        },
+        ...CHORD_VOICING_PROPERTIES,
+        velocity: { type: "number", description: "Velocity (0-127)" },
+        channel: { type: "number", description: "MIDI channel (0-15)" },
+        duration: {
+            type: "number",
+            description: "Duration in beats (1 = quarter note). Default: 0.5",
+        },
+        delay: {
+            type: "number",
+            description: "Delay after the previous note ends, in beats. Default: 0",
+        },
+        start: {
+            type: "number",
+            description:
+                "Absolute start in beats from the beginning of the pattern. Overrides delay; use it for chords and overlapping voices",
+        },
+    },
+    required: ["velocity"],
+};
+
+/** A midi_send_notes entry, with the note given as number or name. */
+interface NamedNoteInput extends Omit<NoteInput, "note"> {
+    note: NoteValue;
+}
 
-interface NoteInput {
-    note: number;
-    velocity: number;
-    channel?: number;
-    duration?: number;
-    delay?: number;
+/** A midi_send_pattern entry: a single note or a chord symbol/roman numeral. */
+interface PatternNoteInput extends Omit<NoteInput, "note">, VoicingOptions {
+    note?: NoteValue;
+    chord?: string;
 }
 
 export const midiTools = [
     {
         name: "midi_send_notes",
         description:
-            "Send MIDI notes to Logic Pro through the virtual MIDI port 'Logic Pro MCP'. The receiving track in Logic must have this port selected as input. Notes are played sequentially with specified durations.",
+            "Send MIDI notes to Logic Pro through a virtual MIDI port ('Logic Pro MCP' unless `port` names another). The receiving track in Logic must have this port selected as input. Each note starts when the previous one ends (plus delay), unless it sets an absolute start, so notes may overlap.",
         inputSchema: {
             type: "object" as const,
             properties: {
@@ -29,11 +244,7 @@ export const midiTools = [
                     items: {
                         type: "object",
                         properties: {
-                            note: {
-                                type: "number",
-                                description:
-                                    "MIDI note number (0-127). Middle C = 60, C3 = 48, A4 = 69",
-                            },
+                            note: NOTE_SCHEMA,
                             velocity: {
                                 type: "number",
                                 description: "Note velocity (0-127). 64 = medium, 100 = strong",
@@ -49,23 +260,39 @@ export const midiTools = [
                             delay: {
                                 type: "number",
                                 description:
-                                    "Delay before this note in milliseconds. Default: 0",
+                                    "Delay after the previous note ends, in milliseconds. Default: 0",
+                            },
+                            start: {
+                                type: "number",
+                                description:
+                                    "Absolute start in milliseconds from the first note. Overrides delay",
                             },
                         },
                         required: ["note", "velocity"],
                     },
                 },
+                background: BACKGROUND_SCHEMA,
+                port: PORT_SCHEMA,
             },
             required: ["notes"],
         },
-        handler: async (args: { notes: NoteInput[] }) => {
-            ensureMidiPort();
-            await bridgeSendNotes(args.notes);
+        handler: async (args: { notes: NamedNoteInput[]; background?: boolean; port?: string }) => {
+            const port = ensureMidiPort(args.port);
+            const notes = args.notes.map((n) => ({ ...n, note: parseNote(n.note) }));
+            const names = notes.map((n) => noteName(n.note)).join(", ");
+            const job = await runPlayback(
+                `${notes.length} note(s): ${names}`,
+                fromSequentialNotes(notes, { duration: 500 }),
+                1,
+                { port, background: args.background },
+            );
             return {
                 content: [
                     {
                         type: "text" as const,
-                        text: `Sent ${args.notes.length} MIDI note(s) to Logic Pro.`,
+                        text: args.background
+                            ? `Playing ${notes.length} MIDI note(s) (${names}) in background job ${job.id}.`
+                            : `Sent ${notes.length} MIDI note(s) to Logic Pro: ${names}.`,
                     },
                 ],
             };
@@ -74,16 +301,23 @@ export const midiTools = [
     {
         name: "midi_send_chord",
         description:
-            "Send a chord (multiple simultaneous notes) to Logic Pro via MIDI.",
+            "Send a chord (multiple simultaneous notes) to Logic Pro via MIDI. Give either raw note numbers or a chord symbol (Cmaj7, F#m7b5/A, Gsus4) / roman numeral in a key (V7, ii7, bVII), with optional inversion and voicing.",
         inputSchema: {
             type: "object" as const,
             properties: {
                 notes: {
                     type: "array",
                     description:
-                        "Array of MIDI note numbers to play simultaneously (e.g. [60, 64, 67] for C major)",
-                    items: { type: "number" },
+                        'Notes to play simultaneously, as numbers or names (e.g. [60, 64, 67] or ["C3", "E3", "G3"] for C major)',
+                    items: NOTE_SCHEMA,
+                },
+                chord: {
+                    type: "string",
+                    description:
+                        'Chord symbol ("Cmaj7", "F#m7b5/A", "Gsus4") or roman numeral ("V7", "ii7", "V7/V") when key is set',
                 },
+                ...CHORD_VOICING_PROPERTIES,
+                key: KEY_SCHEMA,
                 velocity: {
                     type: "number",
                     description: "Note velocity (0-127). Default: 80",
@@ -96,38 +330,278 @@ export const midiTools = [
                     type: "number",
                     description: "MIDI channel (0-15). Default: 0",
                 },
+                port: PORT_SCHEMA,
             },
-            required: ["notes"],
         },
         handler: async (args: {
-            notes: number[];
+            notes?: NoteValue[];
+            chord?: string;
+            key?: string;
+            octave?: number;
+            inversion?: number;
+            voicing?: Voicing;
             velocity?: number;
             duration?: number;
             channel?: number;
+            port?: string;
         }) => {
-            ensureMidiPort();
+            const port = ensureMidiPort(args.port);
             const vel = args.velocity ?? 80;
             const dur = args.duration ?? 1000;
             const ch = args.channel ?? 0;
 
-            // Note on for all notes
-            for (const note of args.notes) {
-                sendNoteOn(ch, note, vel);
-            }
+            const { notes, label } = resolveChordNotes(args);
+
+            await runPlayback(
+                `chord ${label}[${formatNotes(notes)}]`,
+                notes.map((note) => ({
+                    note,
+                    velocity: vel,
+                    channel: ch,
+                    start: 0,
+                    duration: dur,
+                })),
+                1,
+                { port },
+            );
 
-            // Wait for duration
-            await new Promise((r) => setTimeout(r, dur));
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: `Sent chord ${label}[${formatNotes(notes)}] with velocity ${vel} for ${dur}ms.`,
+                    },
+                ],
+            };
+        },
+    },
+    {
+        name: "midi_arpeggiate",
+        description:
+            "Arpeggiate a chord in time with the tempo. Give notes or a chord symbol/roman numeral (as in midi_send_chord), a mode, octave range, rate and gate; the note stream is generated and played.",
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                notes: {
+                    type: "array",
+                    description: "Chord notes as numbers or names, in the order used by the asPlayed mode",
+                    items: NOTE_SCHEMA,
+                },
+                chord: {
+                    type: "string",
+                    description:
+                        'Chord symbol ("Cmaj7", "F#m7b5/A") or roman numeral ("V7", "ii7") when key is set',
+                },
+                ...CHORD_VOICING_PROPERTIES,
+                key: KEY_SCHEMA,
+                mode: {
+                    type: "string",
+                    enum: ARPEGGIO_MODES,
+                    description: 'Note order: up, down, upDown, random or asPlayed. Default: "up"',
+                },
+                octaves: {
+                    type: "number",
+                    description: "Number of octaves the arpeggio spans. Default: 1",
+                },
+                rate: {
+                    ...GRID_SCHEMA,
+                    description: `Time between notes. ${GRID_SCHEMA.description}. Default: 0.25 (sixteenths)`,
+                },
+                gate: {
+                    type: "number",
+                    description: "Note length as a fraction of the rate (0.5 = staccato, 1 = legato). Default: 0.8",
+                },
+                repeats: {
+                    type: "number",
+                    description: "How many times to play the whole pattern. Default: 1",
+                },
+                velocity: { type: "number", description: "Note velocity (0-127). Default: 100" },
+                channel: {
+                    type: "number",
+                    description: "MIDI channel (0-15). Default: 0",
+                },
+                seed: { type: "number", description: "Seed for the random mode, to reproduce a pattern" },
+                bpm: TEMPO_SCHEMA,
+                background: BACKGROUND_SCHEMA,
+                port: PORT_SCHEMA,
+            },
+        },
+        handler: async (args: {
+            notes?: NoteValue[];
+            chord?: string;
+            key?: string;
+            octave?: number;
+            inversion?: number;
+            voicing?: Voicing;
+            mode?: ArpeggioMode;
+            octaves?: number;
+            rate?: GridValue;
+            gate?: number;
+            repeats?: number;
+            velocity?: number;
+            channel?: number;
+            seed?: number;
+            bpm?: number;
+            background?: boolean;
+            port?: string;
+        }) => {
+            const port = ensureMidiPort(args.port);
+            const tempo = playbackTempo(args.bpm);
+            const mode = args.mode ?? "up";
+            const { notes, label } = resolveChordNotes(args);
+            const timeline = arpeggiate(notes, {
+                ...args,
+                mode,
+                rate: gridBeats(args.rate ?? 0.25),
+            });
 
-            // Note off for all notes
-            for (const note of args.notes) {
-                sendNoteOff(ch, note);
+            const description = `${mode} arpeggio of ${label}[${formatNotes(notes)}] ${tempo.label}`;
+            const job = await runPlayback(description, timeline, tempo.timing, { port, background: args.background });
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: args.background
+                            ? `Playing ${description} (${timeline.length} notes) in background job ${job.id}.`
+                            : `Played ${description} (${timeline.length} notes).`,
+                    },
+                ],
+            };
+        },
+    },
+    {
+        name: "midi_mpe_configure",
+        description:
+            "Turn MPE (MIDI Polyphonic Expression) on or off by sending the MPE Configuration Message (RPN 6) and pitch bend ranges. The lower zone uses channel 1 as master and channels 2 upwards as members; the upper zone uses channel 16 as master and channels 15 downwards. Use with MPE instruments such as Alchemy or Sampler with MPE enabled.",
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                zone: {
+                    type: "string",
+                    enum: ["lower", "upper"],
+                    description: 'MPE zone. Default: "lower"',
+                },
+                memberChannels: {
+                    type: "number",
+                    description: "Number of member channels (1-15), or 0 to turn MPE off. Default: 15",
+                },
+                pitchBendRange: {
+                    type: "number",
+                    description: "Member channel pitch bend range in semitones. Default: 48",
+                },
+                masterPitchBendRange: {
+                    type: "number",
+                    description: "Master channel pitch bend range in semitones. Default: 2",
+                },
+                port: PORT_SCHEMA,
+            },
+        },
+        handler: async (args: {
+            zone?: MpeZone;
+            memberChannels?: number;
+            pitchBendRange?: number;
+            masterPitchBendRange?: number;
+            port?: string;
+        }) => {
+            const port = ensureMidiPort(args.port);
+            const config = { ...args, zone: args.zone ?? "lower", memberChannels: args.memberChannels ?? 15 };
+            configureMpe(config, port);
+            const { master, members } = zoneChannels(config);
+            const text =
+                members.length === 0
+                    ? `MPE ${config.zone} zone turned off.`
+                    : `MPE ${config.zone} zone on: master channel ${master + 1}, member channels ${members[0] + 1}-${members[members.length - 1] + 1}, bend range ±${config.pitchBendRange ?? DEFAULT_MEMBER_BEND_RANGE} semitones.`;
+            return { content: [{ type: "text" as const, text }] };
+        },
+    },
+    {
+        name: "midi_send_mpe_notes",
+        description:
+            "Play notes with per-note expression in MPE mode (see midi_mpe_configure). Every note gets its own member channel, so each can slide (pitch in semitones), swell (pressure) and change timbre (CC 74) independently. Expression is given as points over the note's life and interpolated smoothly.",
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                notes: {
+                    type: "array",
+                    description: "Notes with beat-based timing as in midi_send_pattern, plus expression",
+                    items: {
+                        type: "object",
+                        properties: {
+                            note: NOTE_SCHEMA,
+                            velocity: { type: "number", description: "Velocity (0-127)" },
+                            duration: { type: "number", description: "Duration in beats. Default: 0.5" },
+                            delay: {
+                                type: "number",
+                                description: "Beats to wait after the previous note ends. Default: 0",
+                            },
+                            start: {
+                                type: "number",
+                                description: "Absolute start in beats; overrides delay, lets notes overlap",
+                            },
+                            pitch: {
+                                ...EXPRESSION_SCHEMA,
+                                description: `Pitch bend in semitones, e.g. a slide up a fifth: [{"time": 0, "value": 0}, {"time": 1, "value": 7}]. ${EXPRESSION_SCHEMA.description}`,
+                            },
+                            pressure: {
+                                ...EXPRESSION_SCHEMA,
+                                description: `Channel pressure (0-127). ${EXPRESSION_SCHEMA.description}`,
+                            },
+                            timbre: {
+                                ...EXPRESSION_SCHEMA,
+                                description: `CC 74 timbre/slide (0-127). ${EXPRESSION_SCHEMA.description}`,
+                            },
+                        },
+                        required: ["note", "velocity"],
+                    },
+                },
+                stealing: {
+                    type: "string",
+                    enum: ["lru", "roundRobin"],
+                    description:
+                        'How channels are assigned and stolen when all are busy: "lru" (least recently used) or "roundRobin". Default: "lru"',
+                },
+                bpm: TEMPO_SCHEMA,
+                background: BACKGROUND_SCHEMA,
+                port: PORT_SCHEMA,
+            },
+            required: ["notes"],
+        },
+        handler: async (args: {
+            notes: (Omit<NamedNoteInput, "channel"> & Pick<MpeNote, "pitch" | "pressure" | "timbre">)[];
+            stealing?: VoiceStealing;
+            bpm?: number;
+            background?: boolean;
+            port?: string;
+        }) => {
+            const port = ensureMidiPort(args.port);
+            const config = getMpeConfig(port);
+            if (!config) {
+                throw new Error("MPE is off. Turn it on with midi_mpe_configure first.");
             }
+            const tempo = playbackTempo(args.bpm);
+            const placed = fromSequentialNotes(
+                args.notes.map((n) => ({ ...n, note: parseNote(n.note) })),
+            );
+            const notes: MpeNote[] = placed.map((timed, i) => ({
+                ...timed,
+                pitch: args.notes[i].pitch,
+                pressure: args.notes[i].pressure,
+                timbre: args.notes[i].timbre,
+            }));
 
+            const events = buildMpeEvents(notes, config, {
+                timing: tempo.timing,
+                stealing: args.stealing,
+            });
+            const description = `${notes.length} MPE note(s) ${tempo.label}`;
+            const job = await runEvents(description, events, { port, background: args.background });
             return {
                 content: [
                     {
                         type: "text" as const,
-                        text: `Sent chord [${args.notes.join(", ")}] with velocity ${vel} for ${dur}ms.`,
+                        text: args.background
+                            ? `Playing ${description} in background job ${job.id}.`
+                            : `Played ${description} on the ${config.zone} zone.`,
                     },
                 ],
             };
@@ -153,6 +627,7 @@ export const midiTools = [
                     type: "number",
                     description: "MIDI channel (0-15). Default: 0",
                 },
+                port: PORT_SCHEMA,
             },
             required: ["controller", "value"],
         },
@@ -160,9 +635,10 @@ export const midiTools = [
             controller: number;
             value: number;
             channel?: number;
+            port?: string;
         }) => {
-            ensureMidiPort();
-            sendCC(args.channel ?? 0, args.controller, args.value);
+            const port = ensureMidiPort(args.port);
+            sendCC(args.channel ?? 0, args.controller, args.value, port);
             return {
                 content: [
                     {
@@ -174,59 +650,1254 @@ export const midiTools = [
         },
     },
     {
-        name: "midi_send_pattern",
+        name: "midi_send_cc_curve",
         description:
-            "Send a musical pattern/sequence to Logic Pro, timed to a specific BPM. Note durations and delays are specified in beats (1 = quarter note, 0.5 = eighth note, etc.).",
+            "Send a smooth stream of CC values on one controller: a ramp (linear, exponential, s-curve, stepped) from one value to another, or an LFO (sine, triangle, square, sample-and-hold) with its rate synced to the tempo. Use it for filter sweeps and volume swells, e.g. into Logic automation in Latch mode.",
         inputSchema: {
             type: "object" as const,
             properties: {
-                notes: {
-                    type: "array",
-                    description: "Array of note events with beat-based timing",
-                    items: {
-                        type: "object",
-                        properties: {
-                            note: { type: "number", description: "MIDI note number (0-127)" },
-                            velocity: { type: "number", description: "Velocity (0-127)" },
-                            channel: { type: "number", description: "MIDI channel (0-15)" },
-                            duration: {
-                                type: "number",
-                                description: "Duration in beats (1 = quarter note). Default: 0.5",
-                            },
-                            delay: {
-                                type: "number",
-                                description: "Delay before this note in beats. Default: 0",
-                            },
-                        },
-                        required: ["note", "velocity"],
+                controller: {
+                    type: "number",
+                    description: "CC number (0-127). Common: 1=Mod Wheel, 7=Volume, 10=Pan, 11=Expression, 74=Filter cutoff",
+                },
+                shape: {
+                    type: "string",
+                    enum: [...RAMP_SHAPES, ...LFO_SHAPES],
+                    description: "Ramp shape (linear, exponential, scurve, stepped) or LFO wave (sine, triangle, square, sampleHold)",
+                },
+                duration: {
+                    type: "number",
+                    description: "Length of the curve, in beats (or ms when unit is \"ms\")",
+                },
+                unit: {
+                    type: "string",
+                    enum: ["beats", "ms"],
+                    description: 'Unit of duration. Default: "beats"',
+                },
+                bpm: TEMPO_SCHEMA,
+                from: { type: "number", description: "Ramp start value (0-127). Default: 0" },
+                to: { type: "number", description: "Ramp end value (0-127). Default: 127" },
+                steps: { type: "number", description: "Number of steps for the stepped ramp. Default: 4" },
+                min: { type: "number", description: "LFO lowest value (0-127). Default: 0" },
+                max: { type: "number", description: "LFO highest value (0-127). Default: 127" },
+                rate: {
+                    type: ["string", "number"],
+                    description:
+                        'LFO cycle length synced to the tempo ("1/4", "1/8T", "1/8.", "2 beats", "1 bar"), or a free rate in Hz. Default: "1/4"',
+                },
+                phase: { type: "number", description: "LFO start phase (0-1). Default: 0" },
+                seed: { type: "number", description: "Seed for reproducible sample-and-hold values" },
+                interval: {
+                    type: "number",
+                    description: "Minimum ms between CC messages, to limit the message rate. Default: 10",
+                },
+                channel: {
+                    type: "number",
+                    description: "MIDI channel (0-15). Default: 0",
+                },
+                background: BACKGROUND_SCHEMA,
+                port: PORT_SCHEMA,
+            },
+            required: ["controller", "shape", "duration"],
+        },
+        handler: async (args: {
+            controller: number;
+            shape: CurveShape;
+            duration: number;
+            unit?: "beats" | "ms";
+            bpm?: number;
+            from?: number;
+            to?: number;
+            steps?: number;
+            min?: number;
+            max?: number;
+            rate?: string | number;
+            phase?: number;
+            seed?: number;
+            interval?: number;
+            channel?: number;
+            background?: boolean;
+            port?: string;
+        }) => {
+            const port = ensureMidiPort(args.port);
+            const tempo = playbackTempo(args.bpm);
+            const toMs = timingToMs(tempo.timing);
+            // Rendered at the opening tempo, then placed by the tempo map in beat mode
+            const msPerBeat = toMs(1) - toMs(0);
+            const inBeats = args.unit !== "ms";
+            const duration = inBeats ? args.duration * msPerBeat : args.duration;
+            const channel = args.channel ?? 0;
+
+            const points = isRampShape(args.shape)
+                ? renderRamp({
+                      shape: args.shape,
+                      from: args.from ?? 0,
+                      to: args.to ?? 127,
+                      duration,
+                      steps: args.steps,
+                      interval: args.interval,
+                  })
+                : renderLfo({
+                      shape: args.shape,
+                      min: args.min ?? 0,
+                      max: args.max ?? 127,
+                      duration,
+                      cycle:
+                          typeof args.rate === "number"
+                              ? 1000 / args.rate
+                              : parseSyncedRate(args.rate ?? "1/4") * msPerBeat,
+                      phase: args.phase,
+                      seed: args.seed,
+                      interval: args.interval,
+                  });
+            const events = points.map((p) => ({
+                time: inBeats ? toMs(p.time / msPerBeat) : p.time,
+                message: controlChangeMessage(channel, args.controller, p.value),
+            }));
+
+            const length = inBeats ? `${args.duration} beat(s) ${tempo.label}` : `${Math.round(duration)}ms`;
+            const description = `${args.shape} CC${args.controller} curve over ${length}`;
+            const job = await runEvents(description, events, { port, background: args.background });
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: args.background
+                            ? `Sending ${description} (${events.length} values) in background job ${job.id}.`
+                            : `Sent ${description} (${events.length} values) on channel ${channel}.`,
+                    },
+                ],
+            };
+        },
+    },
+    {
+        name: "midi_send_cc14",
+        description:
+            "Send a high-resolution (14-bit) Control Change as an MSB/LSB pair: the MSB on CC 0-31 and the LSB on the matching CC 32-63.",
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                controller: {
+                    type: "number",
+                    description: "MSB controller number (0-31), e.g. 1 = Mod Wheel (LSB on 33), 7 = Volume (LSB on 39)",
+                },
+                value: { type: "number", description: "14-bit value (0-16383)" },
+                channel: {
+                    type: "number",
+                    description: "MIDI channel (0-15). Default: 0",
+                },
+                port: PORT_SCHEMA,
+            },
+            required: ["controller", "value"],
+        },
+        handler: async (args: { controller: number; value: number; channel?: number; port?: string }) => {
+            const port = ensureMidiPort(args.port);
+            const channel = args.channel ?? 0;
+            sendCC14(channel, args.controller, args.value, port);
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: `Sent 14-bit CC${args.controller}/${args.controller + 32} = ${args.value} on channel ${channel}.`,
                     },
+                ],
+            };
+        },
+    },
+    {
+        name: "midi_send_pitch_bend",
+        description:
+            "Send a 14-bit pitch bend, either in semitones (given the instrument's bend range) or as a raw value where 8192 is center.",
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                semitones: {
+                    type: "number",
+                    description: "Bend in semitones, e.g. 2, -0.5. 0 returns to center",
                 },
-                bpm: {
+                bendRange: {
+                    type: "number",
+                    description: "Pitch bend range of the instrument in semitones. Default: 2",
+                },
+                value: {
                     type: "number",
-                    description: "Tempo in BPM for timing the pattern. Default: 120",
+                    description: "Raw 14-bit value (0-16383, 8192 = center); used instead of semitones",
                 },
+                channel: {
+                    type: "number",
+                    description: "MIDI channel (0-15). Default: 0",
+                },
+                port: PORT_SCHEMA,
             },
-            required: ["notes"],
         },
-        handler: async (args: { notes: NoteInput[]; bpm?: number }) => {
-            ensureMidiPort();
-            await bridgeSendPattern(args.notes, args.bpm ?? 120);
+        handler: async (args: {
+            semitones?: number;
+            bendRange?: number;
+            value?: number;
+            channel?: number;
+            port?: string;
+        }) => {
+            const port = ensureMidiPort(args.port);
+            if (args.value === undefined && args.semitones === undefined) {
+                throw new Error("Provide semitones or a raw value.");
+            }
+            const channel = args.channel ?? 0;
+            const value = args.value ?? semitonesToPitchBend(args.semitones!, args.bendRange ?? 2);
+            sendPitchBend(channel, value, port);
+            const label =
+                args.value === undefined
+                    ? `${args.semitones} semitone(s) (value ${value})`
+                    : `value ${value}`;
             return {
                 content: [
                     {
                         type: "text" as const,
-                        text: `Sent ${args.notes.length} note pattern at ${args.bpm ?? 120} BPM.`,
+                        text: `Sent pitch bend ${label} on channel ${channel}.`,
                     },
                 ],
             };
         },
     },
-];
+    {
+        name: "midi_send_aftertouch",
+        description:
+            "Send aftertouch (pressure). Without a note this is channel pressure for the whole channel; with a note it is polyphonic aftertouch for that key.",
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                pressure: { type: "number", description: "Pressure (0-127)" },
+                note: {
+                    ...NOTE_SCHEMA,
+                    description: `Note for polyphonic aftertouch. ${NOTE_SCHEMA.description}`,
+                },
+                channel: {
+                    type: "number",
+                    description: "MIDI channel (0-15). Default: 0",
+                },
+                port: PORT_SCHEMA,
+            },
+            required: ["pressure"],
+        },
+        handler: async (args: { pressure: number; note?: NoteValue; channel?: number; port?: string }) => {
+            const port = ensureMidiPort(args.port);
+            const channel = args.channel ?? 0;
+            let label = "channel pressure";
+            if (args.note === undefined) {
+                sendChannelPressure(channel, args.pressure, port);
+            } else {
+                const note = parseNote(args.note);
+                sendPolyPressure(channel, note, args.pressure, port);
+                label = `poly aftertouch on ${noteName(note)} (${note})`;
+            }
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: `Sent ${label} = ${args.pressure} on channel ${channel}.`,
+                    },
+                ],
+            };
+        },
+    },
+    {
+        name: "midi_send_rpn",
+        description:
+            "Set a Registered (RPN) or Non-Registered (NRPN) Parameter: selects the 14-bit parameter number with CC 101/100 (or 99/98), sends data entry on CC 6 (and 38), then deselects it. Common RPNs: 0 = pitch bend range (value = semitones, valueLsb = cents), 1 = fine tuning, 2 = coarse tuning.",
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                parameter: { type: "number", description: "Parameter number (0-16383)" },
+                value: { type: "number", description: "Data entry MSB, CC 6 (0-127)" },
+                valueLsb: { type: "number", description: "Data entry LSB, CC 38 (0-127). Optional" },
+                nrpn: {
+                    type: "boolean",
+                    description: "Send an NRPN instead of an RPN. Default: false",
+                },
+                reset: {
+                    type: "boolean",
+                    description: "Send RPN null afterwards so later data entry is ignored. Default: true",
+                },
+                channel: {
+                    type: "number",
+                    description: "MIDI channel (0-15). Default: 0",
+                },
+                port: PORT_SCHEMA,
+            },
+            required: ["parameter", "value"],
+        },
+        handler: async (args: {
+            parameter: number;
+            value: number;
+            valueLsb?: number;
+            nrpn?: boolean;
+            reset?: boolean;
+            channel?: number;
+            port?: string;
+        }) => {
+            const port = ensureMidiPort(args.port);
+            const channel = args.channel ?? 0;
+            sendParameterNumber(channel, args.parameter, args.value, args, port);
+            const lsb = args.valueLsb === undefined ? "" : `/${args.valueLsb}`;
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: `Set ${args.nrpn ? "NRPN" : "RPN"} ${args.parameter} = ${args.value}${lsb} on channel ${channel}.`,
+                    },
+                ],
+            };
+        },
+    },
+    {
+        name: "midi_send_program_change",
+        description:
+            "Send a program change, optionally preceded by bank select (CC 0 MSB / CC 32 LSB), to switch patches on instruments and hardware synths.",
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                program: { type: "number", description: "Program number (0-127)" },
+                bankMsb: { type: "number", description: "Bank select MSB, CC 0 (0-127). Optional" },
+                bankLsb: { type: "number", description: "Bank select LSB, CC 32 (0-127). Optional" },
+                channel: {
+                    type: "number",
+                    description: "MIDI channel (0-15). Default: 0",
+                },
+                port: PORT_SCHEMA,
+            },
+            required: ["program"],
+        },
+        handler: async (args: {
+            program: number;
+            bankMsb?: number;
+            bankLsb?: number;
+            channel?: number;
+            port?: string;
+        }) => {
+            const port = ensureMidiPort(args.port);
+            const channel = args.channel ?? 0;
+            sendBankProgramChange(channel, args.program, { msb: args.bankMsb, lsb: args.bankLsb }, port);
+            const bank =
+                args.bankMsb === undefined && args.bankLsb === undefined
+                    ? ""
+                    : ` (bank ${args.bankMsb ?? "-"}/${args.bankLsb ?? "-"})`;
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: `Sent program change ${args.program}${bank} on channel ${channel}.`,
+                    },
+                ],
+            };
+        },
+    },
+    {
+        name: "midi_send_sysex",
+        description:
+            'Send a System Exclusive message, e.g. "F0 43 10 4C 00 00 7E 00 F7". F0/F7 are added when both are left out; data bytes must be 00-7F.',
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                data: {
+                    type: ["string", "array"],
+                    description: "The message as a hex string or an array of byte values",
+                    items: { type: "number" },
+                },
+                port: PORT_SCHEMA,
+            },
+            required: ["data"],
+        },
+        handler: async (args: { data: string | number[]; port?: string }) => {
+            const port = ensureMidiPort(args.port);
+            const bytes = parseSysex(args.data);
+            sendSysex(bytes, port);
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: `Sent ${bytes.length}-byte SysEx: ${formatHex(bytes)}.`,
+                    },
+                ],
+            };
+        },
+    },
+    {
+        name: "midi_send_pattern",
+        description:
+            "Send a musical pattern/sequence to Logic Pro, timed to a specific BPM. Note durations and delays are specified in beats (1 = quarter note, 0.5 = eighth note, etc.). Entries can be single notes or chords (symbols like \"Am7\" or roman numerals like \"vi7\" with a key). Notes may overlap: give them an absolute start, or pass several independent voices (e.g. a melody over sustained chords).",
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                notes: {
+                    type: "array",
+                    description: "Array of note events with beat-based timing",
+                    items: PATTERN_NOTE_SCHEMA,
+                },
+                voices: {
+                    type: "array",
+                    description:
+                        "Additional voices played at the same time as notes. Each voice is its own note array whose timing starts at beat 0",
+                    items: { type: "array", items: PATTERN_NOTE_SCHEMA },
+                },
+                key: KEY_SCHEMA,
+                bpm: TEMPO_SCHEMA,
+                groove: GROOVE_SCHEMA,
+                background: BACKGROUND_SCHEMA,
+                port: PORT_SCHEMA,
+            },
+        },
+        handler: async (args: {
+            notes?: PatternNoteInput[];
+            voices?: PatternNoteInput[][];
+            key?: string;
+            bpm?: number;
+            groove?: GrooveOptions;
+            background?: boolean;
+            port?: string;
+        }) => {
+            const port = ensureMidiPort(args.port);
+            const tempo = playbackTempo(args.bpm);
+            const voices = [...(args.notes ? [args.notes] : []), ...(args.voices ?? [])];
+            if (voices.length === 0) {
+                throw new Error("Provide notes or voices to play.");
+            }
+
+            const timeline = applyGroove(
+                voices.flatMap((voice) => resolvePattern(voice, args.key)),
+                args.groove ?? {},
+            );
+            const job = await runPlayback(
+                `${timeline.length} note pattern ${tempo.label}`,
+                timeline,
+                tempo.timing,
+                { port, background: args.background },
+            );
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: args.background
+                            ? `Playing ${timeline.length} note pattern ${tempo.label} in background job ${job.id}.`
+                            : `Sent ${timeline.length} note pattern in ${voices.length} voice(s) ${tempo.label}.`,
+                    },
+                ],
+            };
+        },
+    },
+    {
+        name: "midi_send_drum_pattern",
+        description:
+            'Play a drum pattern written as a step grid, one lane per line: "kick: x...x...x...x...", "snare: ....x.......x...". x = hit, X = accent, o = ghost note, 1-9 = velocity level, . = rest; | and spaces are ignored. Lane names use the General MIDI / Logic Drum Kit map (kick, snare, rim, clap, hihat, pedalhat, openhat, lowtom, midtom, hitom, crash, ride, cowbell, shaker, ...) or can be a note number/name.',
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                pattern: {
+                    type: "string",
+                    description: "The grid, one lane per line (lines starting with # are comments)",
+                },
+                stepsPerBar: {
+                    type: "number",
+                    description: "Steps per bar: 16 = sixteenths, 12 = eighth-note triplets, 8 = eighths. Default: 16",
+                },
+                bars: {
+                    type: "number",
+                    description: "Bars to play; the grid repeats to fill them. Default: the length of the grid",
+                },
+                timeSignature: {
+                    type: "string",
+                    description: 'Time signature that sets the beats per bar, e.g. "3/4". Default: "4/4"',
+                },
+                swing: {
+                    type: "number",
+                    description: "Swing in percent, 50 (straight) to 75. 66 is a triplet feel. Default: 50",
+                },
+                velocity: { type: "number", description: "Velocity of x hits. Default: 100" },
+                accentVelocity: { type: "number", description: "Velocity of X hits. Default: 127" },
+                ghostVelocity: { type: "number", description: "Velocity of o hits. Default: 50" },
+                drumMap: {
+                    type: "object",
+                    description:
+                        'Lane name overrides or additions, mapped to notes, e.g. {"kick": 35, "perc": "C#3"}',
+                    additionalProperties: NOTE_SCHEMA,
+                },
+                channel: {
+                    type: "number",
+                    description: "MIDI channel (0-15). Default: 9 (GM drums, channel 10)",
+                },
+                bpm: TEMPO_SCHEMA,
+                background: BACKGROUND_SCHEMA,
+                port: PORT_SCHEMA,
+            },
+            required: ["pattern"],
+        },
+        handler: async (args: {
+            pattern: string;
+            stepsPerBar?: number;
+            bars?: number;
+            timeSignature?: string;
+            swing?: number;
+            velocity?: number;
+            accentVelocity?: number;
+            ghostVelocity?: number;
+            drumMap?: Record<string, NoteValue>;
+            channel?: number;
+            bpm?: number;
+            background?: boolean;
+            port?: string;
+        }) => {
+            const port = ensureMidiPort(args.port);
+            const tempo = playbackTempo(args.bpm);
+            const meter = args.timeSignature
+                ? parseTimeSignature(args.timeSignature)
+                : { numerator: 4, denominator: 4 };
+            const lanes = parseDrumGrid(args.pattern, {
+                map: args.drumMap,
+                velocities: {
+                    normal: args.velocity,
+                    accent: args.accentVelocity,
+                    ghost: args.ghostVelocity,
+                },
+            });
+            const { notes, bars } = compileDrumPattern(lanes, {
+                stepsPerBar: args.stepsPerBar,
+                beatsPerBar: (meter.numerator * 4) / meter.denominator,
+                bars: args.bars,
+                swing: args.swing,
+                channel: args.channel,
+            });
+
+            const laneList = lanes.map((l) => `${l.name} (${l.note})`).join(", ");
+            const job = await runPlayback(
+                `${bars} bar drum pattern ${tempo.label}`,
+                notes,
+                tempo.timing,
+                { port, background: args.background },
+            );
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: args.background
+                            ? `Playing ${bars} bar(s) of drums (${notes.length} hits: ${laneList}) ${tempo.label} in background job ${job.id}.`
+                            : `Played ${bars} bar(s) of drums (${notes.length} hits: ${laneList}) ${tempo.label}.`,
+                    },
+                ],
+            };
+        },
+    },
+    {
+        name: "midi_apply_groove",
+        description:
+            "Apply groove transforms (quantize, swing, humanize, velocity dynamics, transpose, legato/staccato) to notes in midi_send_pattern format and return the result without playing it. midi_send_pattern and midi_export_file accept the same `groove` options directly.",
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                notes: {
+                    type: "array",
+                    description: "Notes in midi_send_pattern format",
+                    items: PATTERN_NOTE_SCHEMA,
+                },
+                key: KEY_SCHEMA,
+                groove: GROOVE_SCHEMA,
+            },
+            required: ["notes", "groove"],
+        },
+        handler: async (args: { notes: PatternNoteInput[]; key?: string; groove: GrooveOptions }) => {
+            const notes = toSequentialNotes(applyGroove(resolvePattern(args.notes, args.key), args.groove));
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: JSON.stringify({ notes: withNoteNames(notes) }, null, 2),
+                    },
+                ],
+            };
+        },
+    },
+    {
+        name: "midi_list_ports",
+        description:
+            "List MIDI ports: the outputs and inputs this server has open (its virtual ports plus any hardware ports in use) and all MIDI outputs and inputs available on the system. Any tool's `port` argument can name an open port, a system output, or a new virtual port to create.",
+        inputSchema: {
+            type: "object" as const,
+            properties: {},
+        },
+        handler: async () => {
+            const result = {
+                open: listOpenMidiPorts(),
+                system: { outputs: listMidiOutputPorts(), inputs: listMidiInputPorts() },
+                defaultOutput: VIRTUAL_PORT_NAME,
+            };
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: JSON.stringify(result, null, 2),
+                    },
+                ],
+            };
+        },
+    },
+    {
+        name: "midi_get_input",
+        description:
+            "Read MIDI messages received on the virtual input port 'Logic Pro MCP In' (MMC, control-surface feedback, played notes). Messages are buffered with timestamps; pass the last id returned as sinceId to read on from there without gaps. MIDI Clock and MTC quarter frames are kept apart, for the last couple of seconds only, and returned only when types asks for them.",
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                sinceId: {
+                    type: "number",
+                    description:
+                        "Only return messages with an id greater than this. Default: 0 (all buffered)",
+                },
+                types: {
+                    type: "array",
+                    description:
+                        'Only return these message types (e.g. ["noteOn", "noteOff", "controlChange", "sysex"]). Name "clock" or "mtcQuarterFrame" to get those too',
+                    items: { type: "string" },
+                },
+                limit: {
+                    type: "number",
+                    description:
+                        "Maximum number of messages to return, the oldest after sinceId first; the reply says when more are waiting. Default: 100",
+                    minimum: 1,
+                },
+            },
+        },
+        handler: async (args: {
+            sinceId?: number;
+            types?: MidiMessageType[];
+            limit?: number;
+        }) => {
+            ensureMidiInput();
+            const limit = args.limit ?? 100;
+            if (!Number.isInteger(limit) || limit < 1) throw new Error("limit must be a whole number of at least 1.");
+            const includeSync = args.types?.some((type) => SYNC_MESSAGE_TYPES.includes(type)) ?? false;
+            const messages = getReceivedMessages(args.sinceId ?? 0, includeSync)
+                .map((m) => ({
+                    id: m.id,
+                    port: m.port,
+                    time: Math.round(m.time),
+                    bytes: m.bytes,
+                    ...decodeMidiMessage(m.bytes),
+                }))
+                .filter((m) => !args.types || args.types.includes(m.type));
+            const page = messages.slice(0, limit);
+            const pending =
+                messages.length > limit
+                    ? ` (${messages.length - limit} more waiting, pass sinceId ${page[page.length - 1].id} to read on)`
+                    : "";
+
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: `Received ${page.length} MIDI message(s)${pending}:\n${JSON.stringify(page, null, 2)}`,
+                    },
+                ],
+            };
+        },
+    },
+    {
+        name: "midi_clear_input",
+        description: "Clear the buffer of received MIDI input messages.",
+        inputSchema: {
+            type: "object" as const,
+            properties: {},
+        },
+        handler: async () => {
+            clearReceivedMessages();
+            return {
+                content: [{ type: "text" as const, text: "MIDI input buffer cleared." }],
+            };
+        },
+    },
+    {
+        name: "midi_capture_start",
+        description:
+            "Start recording played MIDI notes and CC from a MIDI input (default: the virtual 'Logic Pro MCP In' port, or a hardware keyboard by name). Stop with midi_capture_stop to get the notes back.",
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                bpm: {
+                    type: "number",
+                    description: "Tempo used to convert timing to beats. Default: 120",
+                },
+                port: {
+                    type: "string",
+                    description:
+                        "MIDI input to record from (its full name, any case). Default: 'Logic Pro MCP In'",
+                },
+                channels: {
+                    type: "array",
+                    description: "Only record these MIDI channels (0-15). Default: all",
+                    items: { type: "number" },
+                },
+            },
+        },
+        handler: async (args: { bpm?: number; port?: string; channels?: number[] }) => {
+            const bpm = args.bpm ?? 120;
+            const port = startCapture({ port: args.port, bpm, channels: args.channels });
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: `Capturing MIDI from "${port}" at ${bpm} BPM. Play now, then call midi_capture_stop.`,
+                    },
+                ],
+            };
+        },
+    },
+    {
+        name: "midi_capture_stop",
+        description:
+            "Stop the running MIDI capture and return the recorded notes in the midi_send_pattern format (beats), or write them to a Standard MIDI File.",
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                format: {
+                    type: "string",
+                    enum: ["json", "smf"],
+                    description:
+                        "'json' returns the notes, 'smf' writes a .mid file to `path`. Default: json",
+                },
+                path: {
+                    type: "string",
+                    description: "Absolute path of the .mid file to write (required for format 'smf')",
+                },
+            },
+        },
+        handler: async (args: { format?: "json" | "smf"; path?: string }) => {
+            if (args.format === "smf" && !args.path) {
+                throw new Error("A path is required when format is 'smf'.");
+            }
+
+            if (args.format === "smf") {
+                // Keep recording until the file is safely written, so a bad path loses nothing
+                const capture = peekCapture();
+                const data = writeSmf({
+                    bpm: capture.bpm,
+                    format: 0,
+                    tracks: [{ notes: capture.notes, controllers: capture.controllers }],
+                });
+                try {
+                    await writeFile(args.path!, data);
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : String(error);
+                    throw new Error(
+                        `Could not write ${args.path}: ${message}. The capture is still running; stop it again with another path.`,
+                    );
+                }
+                stopCapture();
+                return {
+                    content: [
+                        {
+                            type: "text" as const,
+                            text: `Captured ${capture.notes.length} note(s) and ${capture.controllers.length} CC event(s) over ${capture.length} beats. Wrote ${args.path}.`,
+                        },
+                    ],
+                };
+            }
+
+            const capture = stopCapture();
+            const result = {
+                bpm: capture.bpm,
+                length: capture.length,
+                notes: withNoteNames(toSequentialNotes(capture.notes)),
+                controllers: capture.controllers,
+            };
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: `Captured ${capture.notes.length} note(s) and ${capture.controllers.length} CC event(s) from "${capture.port}":\n${JSON.stringify(result, null, 2)}`,
+                    },
+                ],
+            };
+        },
+    },
+    {
+        name: "midi_export_file",
+        description:
+            "Write notes to a Standard MIDI File (.mid) instead of playing them live. Takes the same beat-based notes as midi_send_pattern, either as one `notes` array or as several named `tracks`. The file can be dragged into Logic Pro or opened with the project tools.",
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                path: {
+                    type: "string",
+                    description: "Absolute path of the .mid file to write",
+                },
+                notes: {
+                    type: "array",
+                    description: "Notes for a single-track file (same format as midi_send_pattern)",
+                    items: PATTERN_NOTE_SCHEMA,
+                },
+                tracks: {
+                    type: "array",
+                    description: "Several tracks, each with its own name and notes",
+                    items: {
+                        type: "object",
+                        properties: {
+                            name: { type: "string", description: "Track name" },
+                            channel: {
+                                type: "number",
+                                description: "Default MIDI channel (0-15) for notes without one. Default: 0",
+                            },
+                            notes: {
+                                type: "array",
+                                description: "Notes in midi_send_pattern format",
+                                items: PATTERN_NOTE_SCHEMA,
+                            },
+                        },
+                        required: ["notes"],
+                    },
+                },
+                bpm: {
+                    type: "number",
+                    description:
+                        "Tempo written to the file. Default: the tempo map (with its tempo and meter changes) if one is set with transport_set_tempo_map, else 120",
+                },
+                timeSignature: {
+                    type: "string",
+                    description: 'Time signature, e.g. "4/4", "3/4", "7/8". Default: the tempo map\'s meters, else "4/4"',
+                },
+                key: KEY_SCHEMA,
+                groove: GROOVE_SCHEMA,
+                name: {
+                    type: "string",
+                    description: "Sequence name stored in the file",
+                },
+                format: {
+                    type: "number",
+                    enum: [0, 1],
+                    description:
+                        "SMF type: 0 = single merged track, 1 = one track per part. Default: 1",
+                },
+            },
+            required: ["path"],
+        },
+        handler: async (args: {
+            path: string;
+            notes?: PatternNoteInput[];
+            tracks?: { name?: string; channel?: number; notes: PatternNoteInput[] }[];
+            key?: string;
+            bpm?: number;
+            timeSignature?: string;
+            groove?: GrooveOptions;
+            name?: string;
+            format?: 0 | 1;
+        }) => {
+            const tracks: { name?: string; channel?: number; notes: PatternNoteInput[] }[] = [
+                ...(args.notes ? [{ name: args.name, notes: args.notes }] : []),
+                ...(args.tracks ?? []),
+            ];
+            if (tracks.length === 0) {
+                throw new Error("Provide either notes or tracks to export.");
+            }
+
+            const tempoMap = args.bpm === undefined && args.timeSignature === undefined ? getTempoMap() : undefined;
+            const bpm = args.bpm ?? 120;
+            const smfTracks = tracks.map((t) => ({
+                name: t.name,
+                notes: applyGroove(resolvePattern(t.notes, args.key, t.channel), args.groove ?? {}),
+            }));
+            const data = writeSmf({
+                bpm,
+                tempoMap,
+                format: args.format ?? 1,
+                name: args.name,
+                timeSignature: parseTimeSignature(args.timeSignature ?? "4/4"),
+                tracks: smfTracks,
+            });
+            await writeFile(args.path, data);
+
+            // Chords count once per note written, not once per pattern entry
+            const noteCount = smfTracks.reduce((sum, t) => sum + t.notes.length, 0);
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: `Wrote ${noteCount} note(s) in ${tracks.length} track(s) ${tempoMap ? "with the tempo map" : `at ${bpm} BPM`} to ${args.path}.`,
+                    },
+                ],
+            };
+        },
+    },
+    {
+        name: "midi_read_file",
+        description:
+            "Read and analyze a Standard MIDI File (.mid, type 0 or 1). Returns a summary (note range, density, tempo, meter, key, duration) and each track's notes in the midi_send_pattern format, ready to be played into Logic Pro.",
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                path: {
+                    type: "string",
+                    description: "Absolute path of the .mid file",
+                },
+                includeNotes: {
+                    type: "boolean",
+                    description: "Include per-track note lists. Default: true",
+                },
+            },
+            required: ["path"],
+        },
+        handler: async (args: { path: string; includeNotes?: boolean }) => {
+            const file = readSmf(await readFile(args.path));
+            const summary = summarizeSmf(file);
+            const range = summary.range && {
+                ...summary.range,
+                lowestName: noteName(summary.range.lowest),
+                highestName: noteName(summary.range.highest),
+            };
+            const tracks =
+                args.includeNotes === false
+                    ? undefined
+                    : file.tracks
+                        .map((track, index) => ({
+                            index,
+                            name: track.name,
+                            notes: withNoteNames(toSequentialNotes(track.notes)),
+                        }))
+                        .filter((track) => track.notes.length > 0);
+
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: `MIDI file ${args.path}:\n${JSON.stringify({ summary: { ...summary, range }, tracks }, null, 2)}`,
+                    },
+                ],
+            };
+        },
+    },
+    {
+        name: "midi_job_status",
+        description:
+            "Get the status of background MIDI playback jobs (running, finished, stopped, failed).",
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                jobId: {
+                    type: "string",
+                    description: "Job id returned by a background playback. Default: all recent jobs",
+                },
+            },
+        },
+        handler: async (args: { jobId?: string }) => {
+            const job = args.jobId ? getJob(args.jobId) : undefined;
+            if (args.jobId && !job) {
+                return {
+                    content: [{ type: "text" as const, text: `Job ${args.jobId} not found.` }],
+                    isError: true,
+                };
+            }
+            const jobs = job ? [job] : listJobs();
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: JSON.stringify(jobs.map(describeJob), null, 2),
+                    },
+                ],
+            };
+        },
+    },
+    {
+        name: "midi_job_stop",
+        description:
+            "Stop a background MIDI playback job, or all running jobs. Notes the job was holding are released.",
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                jobId: {
+                    type: "string",
+                    description: "Job to stop. Default: stop all running jobs",
+                },
+            },
+        },
+        handler: async (args: { jobId?: string }) => {
+            if (!args.jobId) {
+                const stopped = stopAllJobs();
+                return {
+                    content: [{ type: "text" as const, text: `Stopped ${stopped} job(s).` }],
+                };
+            }
+            const stopped = stopJob(args.jobId);
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: stopped
+                            ? `Stopped job ${args.jobId}.`
+                            : `Job ${args.jobId} is not running.`,
+                    },
+                ],
+            };
+        },
+    },
+    {
+        name: "midi_panic",
+        description:
+            "Stop all MIDI playback and send All Notes Off / All Sound Off on all 16 channels of every open output, or only of `port`. Use when notes are stuck.",
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                port: {
+                    type: "string",
+                    description: "Only silence this open output; it is never opened for this. Default: all open outputs",
+                },
+            },
+        },
+        handler: async (args: { port?: string }) => {
+            const stopped = stopAllJobs();
+            sendPanic(args.port);
+            const where = args.port === undefined ? "all ports" : `"${args.port}"`;
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: `Panic sent on all channels of ${where}. Stopped ${stopped} job(s).`,
+                    },
+                ],
+            };
+        },
+    },
+    {
+        name: "midi_resolve_chords",
+        description:
+            "Resolve chord symbols or a roman-numeral progression in a key into voiced MIDI note numbers, without playing them. Useful for planning midi_send_pattern payloads.",
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                progression: {
+                    type: "string",
+                    description:
+                        'Space-separated chords: symbols ("Dm7 G7 Cmaj7") or roman numerals with a key ("ii7 V7 Imaj7")',
+                },
+                key: KEY_SCHEMA,
+                ...CHORD_VOICING_PROPERTIES,
+            },
+            required: ["progression"],
+        },
+        handler: async (args: {
+            progression: string;
+            key?: string;
+            octave?: number;
+            inversion?: number;
+            voicing?: Voicing;
+        }) => {
+            const chords = resolveProgression(
+                args.progression,
+                args.key ? parseKey(args.key) : undefined,
+            ).map((chord) => {
+                const notes = voiceChord(chord, voicingOptions(args));
+                return { symbol: chord.symbol, notes, names: notes.map((n) => noteName(n)) };
+            });
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: JSON.stringify(chords, null, 2),
+                    },
+                ],
+            };
+        },
+    },
+    {
+        name: "midi_set_note_naming",
+        description:
+            "Choose how note names map to MIDI numbers for all MIDI tools: Logic Pro's convention (middle C 60 = C3, the default) or scientific pitch notation (60 = C4).",
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                middleC: {
+                    type: "string",
+                    enum: ["C3", "C4"],
+                    description: 'Name of MIDI note 60: "C3" (Logic Pro) or "C4" (scientific)',
+                },
+            },
+            required: ["middleC"],
+        },
+        handler: async (args: { middleC: MiddleC }) => {
+            setMiddleC(args.middleC);
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: `Note naming set: MIDI note 60 = ${getMiddleC()}, A440 (69) = ${noteName(69)}.`,
+                    },
+                ],
+            };
+        },
+    },
+    {
+        name: "midi_get_scale",
+        description:
+            "Get the MIDI note numbers of a scale or mode (major, minor, dorian, mixolydian, pentatonic, blues, ...) in a key.",
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                key: {
+                    type: "string",
+                    description: `Tonic and mode, e.g. "C major", "A minor", "D dorian". Modes: ${SCALE_NAMES.join(", ")}`,
+                },
+                octave: {
+                    type: "number",
+                    description:
+                        "Octave of the tonic, in the configured note naming. Default: the octave starting at middle C",
+                },
+                octaves: {
+                    type: "number",
+                    description: "Number of octaves to return. Default: 1",
+                },
+            },
+            required: ["key"],
+        },
+        handler: async (args: { key: string; octave?: number; octaves?: number }) => {
+            const key = parseKey(args.key);
+            const notes = scaleNotes(key, scientificOctave(args.octave), args.octaves ?? 1);
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: `${args.key} (${key.mode}): [${formatNotes(notes)}]`,
+                    },
+                ],
+            };
+        },
+    },
+];
+
+/**
+ * Place pattern entries on a timeline, expanding chord entries into their
+ * voiced notes (all starting together with the entry's duration).
+ */
+function resolvePattern(
+    entries: PatternNoteInput[],
+    keyText?: string,
+    channel?: number,
+): TimedNote[] {
+    const key = keyText ? parseKey(keyText) : undefined;
+    const placed = fromSequentialNotes(
+        entries.map((e) => ({ ...e, note: 0 })),
+        { channel },
+    );
+
+    return placed.flatMap((timed, i) => {
+        const entry = entries[i];
+        if (!entry.chord) {
+            if (entry.note === undefined) {
+                throw new Error(`Pattern entry ${i} needs a note or a chord.`);
+            }
+            return [{ ...timed, note: parseNote(entry.note) }];
+        }
+        const notes = voiceChord(resolveChord(entry.chord, key), voicingOptions(entry));
+        return notes.map((note) => ({ ...timed, note }));
+    });
+}
+
+/** Notes of a chord given as note values or as a symbol/roman numeral. */
+function resolveChordNotes(
+    args: { notes?: NoteValue[]; chord?: string; key?: string } & VoicingOptions,
+): { notes: number[]; label: string } {
+    if (args.chord) {
+        const chord = resolveChord(args.chord, args.key ? parseKey(args.key) : undefined);
+        return { notes: voiceChord(chord, voicingOptions(args)), label: `${chord.symbol} ` };
+    }
+    const notes = args.notes?.map((n) => parseNote(n)) ?? [];
+    if (notes.length === 0) {
+        throw new Error("Provide either notes or a chord symbol.");
+    }
+    return { notes, label: "" };
+}
+
+/** Voicing options with the octave converted from the configured naming. */
+function voicingOptions(options: VoicingOptions): VoicingOptions {
+    return { ...options, octave: scientificOctave(options.octave) };
+}
+
+/** Convert an octave number in the configured naming to scientific (C4 = 60). */
+function scientificOctave(octave?: number): number {
+    return (octave ?? middleCOctave()) + 4 - middleCOctave();
+}
+
+/** "60 (C3), 64 (E3)" */
+function formatNotes(notes: number[]): string {
+    return notes.map((n) => `${n} (${noteName(n)})`).join(", ");
+}
+
+/** Add the note name to every note for readable output. */
+function withNoteNames<T extends { note: number }>(notes: T[]): (T & { name: string })[] {
+    return notes.map((n) => ({ ...n, name: noteName(n.note) }));
+}
+
+/** Where and how a tool plays: the output port and foreground/background. */
+interface PlaybackTarget {
+    port: string;
+    background?: boolean;
+}
+
+/**
+ * Play notes as a job. In the foreground this waits for playback to end;
+ * in the background it returns as soon as playback has started.
+ */
+async function runPlayback(
+    description: string,
+    notes: TimedNote[],
+    timing: number | ((beats: number) => number),
+    target: PlaybackTarget,
+): Promise<PlaybackJob> {
+    return runEvents(description, buildNoteEvents(notes, timing), target);
+}
+
+/**
+ * Timing for beat-based playback: a given BPM, else the tempo map (from
+ * its start) when one is set, else 120 BPM.
+ */
+function playbackTempo(bpm?: number): { timing: number | ((beats: number) => number); label: string } {
+    const map = bpm === undefined ? getTempoMap() : undefined;
+    if (map) return { timing: tempoMapTiming(map), label: "following the tempo map" };
+    const fixed = bpm ?? 120;
+    return { timing: 60_000 / fixed, label: `at ${fixed} BPM` };
+}
+
+/** Play scheduled events as a job, like runPlayback. */
+async function runEvents(
+    description: string,
+    events: ScheduledEvent[],
+    target: PlaybackTarget,
+): Promise<PlaybackJob> {
+    const label = target.port === VIRTUAL_PORT_NAME ? description : `${description} on "${target.port}"`;
+    const job = startJob(label, eventsDuration(events), (signal) =>
+        playScheduledEvents(events, { port: target.port, signal }),
+    );
+    if (!target.background) await waitForJob(job.id);
+    return job;
+}
+
+function describeJob(job: PlaybackJob) {
+    const end = job.endedAt ?? Date.now();
+    return { ...job, elapsed: end - job.startedAt };
+}
+
+function formatHex(bytes: number[]): string {
+    return bytes.map((b) => b.toString(16).toUpperCase().padStart(2, "0")).join(" ");
+}
+
+function ensureMidiInput(): void {
+    if (!isMidiInputOpen()) {
+        throw new Error(
+            "MIDI input port is not open. The server should have opened it on startup.",
+        );
+    }
+}
 
-function ensureMidiPort(): void {
-    if (!isMidiPortOpen()) {
+/** Open the tool's output port on demand and return its name. */
+function ensureMidiPort(port?: string): string {
+    try {
+        return openMidiPort(port);
+    } catch (error) {
         throw new Error(
-            "MIDI port is not open. The server should have opened it on startup.",
+            `Could not open MIDI port "${port ?? VIRTUAL_PORT_NAME}": ${error instanceof Error ? error.message : error}`,
         );
     }
 }
@@ -3,7 +3,58 @@ import {
     runAppleScript,
     sendKeyStroke,
 } from "../bridges/applescript.js";
-import { listTracks } from "../bridges/accessibility.js";
+import { findTrack } from "../bridges/accessibility.js";
+import { formatTrack, TRACK_QUERY_PROPERTIES } from "../ax/resolve.js";
+import {
+    moveMcuFader,
+    navigateMcu,
+    requireMcu,
+    resolveMcuStrip,
+} from "../bridges/mcu-bridge.js";
+import {
+    dbToFader,
+    faderToDb,
+    formatDb,
+    formatTimecodeDisplay,
+    MCU_MASTER_CHANNEL,
+    type McuState,
+} from "../midi/mcu.js";
+
+/** Track or strip number addressing a Mackie Control strip. */
+export const STRIP_TARGET_PROPERTIES = {
+    track: {
+        type: "string",
+        description: `${TRACK_QUERY_PROPERTIES.track.description} The Mackie Control bank moves to it if it is not in view.`,
+    },
+    strip: {
+        type: "number",
+        description: "Strip 1-8 in the current Mackie Control bank (see mixer_get_strips)",
+    },
+};
+
+/**
+ * Strip index (0-7) and a name to report for a tool's track or strip
+ * argument. A track is found in the tracks area first, so names, numbers,
+ * patterns and "selected" work as everywhere else, and only then located
+ * on the surface.
+ */
+export async function resolveStripTarget(target: {
+    track?: string;
+    strip?: number;
+}): Promise<{ strip: number; label: string }> {
+    if (target.track === undefined) {
+        const strip = await resolveMcuStrip({ strip: target.strip });
+        return { strip, label: requireMcu().strips[strip].name || `Strip ${strip + 1}` };
+    }
+    requireMcu();
+    const track = await findTrack({ track: target.track });
+    return { strip: await resolveMcuStrip({ track }), label: track.name };
+}
+
+const NAVIGATION_BUTTONS = {
+    bank: { left: "bankLeft", right: "bankRight" },
+    channel: { left: "channelLeft", right: "channelRight" },
+} as const;
 
 export const mixerTools = [
     {
@@ -28,33 +79,17 @@ export const mixerTools = [
         inputSchema: {
             type: "object" as const,
             properties: {
-                trackIndex: {
-                    type: "number",
-                    description: "The 0-based index of the track",
-                },
+                ...TRACK_QUERY_PROPERTIES,
             },
-            required: ["trackIndex"],
         },
-        handler: async (args: { trackIndex: number }) => {
+        handler: async (args: { track?: string; trackIndex?: number }) => {
             try {
-                const tracks = await listTracks();
-                const track = tracks.find((t) => t.index === args.trackIndex);
-                if (!track) {
-                    return {
-                        content: [
-                            {
-                                type: "text" as const,
-                                text: `Track ${args.trackIndex} not found.`,
-                            },
-                        ],
-                        isError: true,
-                    };
-                }
+                const track = await findTrack(args);
                 return {
                     content: [
                         {
                             type: "text" as const,
-                            text: `Channel strip for track ${args.trackIndex}:\n${JSON.stringify(track, null, 2)}`,
+                            text: `Channel strip for track ${formatTrack(track)}:\n${JSON.stringify(track, null, 2)}`,
                         },
                     ],
                 };
@@ -112,4 +147,121 @@ export const mixerTools = [
             };
         },
     },
+    {
+        name: "mixer_get_strips",
+        description:
+            "Show the eight mixer strips in the current Mackie Control bank as Logic Pro reports them: track names, fader levels in dB, mute/solo/record/select state and meters, plus the master fader and the timecode display. Needs the Mackie Control surface set up (see README).",
+        inputSchema: {
+            type: "object" as const,
+            properties: {},
+        },
+        handler: async () => {
+            const state = requireMcu();
+            return {
+                content: [{ type: "text" as const, text: describeStrips(state) }],
+            };
+        },
+    },
+    {
+        name: "mixer_bank",
+        description:
+            "Move the Mackie Control bank left or right by eight strips (bank) or one strip (channel), then show the strips in view.",
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                direction: {
+                    type: "string",
+                    enum: ["left", "right"],
+                    description: "Towards the first (left) or last (right) track",
+                },
+                step: {
+                    type: "string",
+                    enum: ["bank", "channel"],
+                    description: 'Move by eight strips or one. Default: "bank"',
+                },
+                count: {
+                    type: "number",
+                    description: "How many steps to move. Default: 1",
+                },
+            },
+            required: ["direction"],
+        },
+        handler: async (args: { direction: "left" | "right"; step?: "bank" | "channel"; count?: number }) => {
+            requireMcu();
+            const step = args.step ?? "bank";
+            const button = NAVIGATION_BUTTONS[step][args.direction];
+            let moved = 0;
+            for (let i = 0; i < (args.count ?? 1); i++) {
+                if (!(await navigateMcu(button))) break;
+                moved++;
+            }
+            const note = moved < (args.count ?? 1) ? ` (stopped after ${moved}: end of the mixer)` : "";
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: `Moved ${moved} ${step}(s) ${args.direction}${note}.\n${describeStrips(requireMcu())}`,
+                    },
+                ],
+            };
+        },
+    },
+    {
+        name: "mixer_set_volume",
+        description:
+            'Set a channel strip\'s fader to a level in dB through the Mackie Control surface, without touching the keyboard or mouse. Use track "master" for the master fader.',
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                ...STRIP_TARGET_PROPERTIES,
+                db: {
+                    type: ["number", "string"],
+                    description: 'Level in dB, -60 to +6, or "-inf" for silence',
+                },
+            },
+            required: ["db"],
+        },
+        handler: async (args: { track?: string; strip?: number; db: number | string }) => {
+            const db = args.db === "-inf" ? -Infinity : Number(args.db);
+            const value = dbToFader(db);
+            if (args.track?.toLowerCase() === "master") {
+                requireMcu();
+                moveMcuFader(MCU_MASTER_CHANNEL, value);
+                return {
+                    content: [{ type: "text" as const, text: `Master fader set to ${formatDb(faderToDb(value))}.` }],
+                };
+            }
+
+            const { strip, label } = await resolveStripTarget(args);
+            moveMcuFader(strip, value);
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: `Fader of "${label}" (strip ${strip + 1}) set to ${formatDb(faderToDb(value))}.`,
+                    },
+                ],
+            };
+        },
+    },
 ];
+
+function describeStrips(state: McuState): string {
+    const lines = state.strips.map((strip, i) => {
+        const flags = [
+            strip.mute && "muted",
+            strip.solo && "solo",
+            strip.recordArm && "record armed",
+            strip.selected && "selected",
+        ].filter(Boolean);
+        const name = strip.name || "(empty)";
+        const value = strip.value ? `, ${strip.value}` : "";
+        return `${i + 1}. ${name}: ${formatDb(faderToDb(strip.fader))}${value}${flags.length ? `, ${flags.join(", ")}` : ""}, meter ${strip.meter}/12`;
+    });
+    const display = formatTimecodeDisplay(state);
+    return [
+        ...lines,
+        `Master: ${formatDb(faderToDb(state.masterFader))}`,
+        `Display: ${display.replace(/[.:]/g, "").trim() ? `${display} (${state.timecodeMode ?? "unknown mode"})` : "blank"}`,
+    ].join("\n");
+}
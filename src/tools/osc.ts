@@ -0,0 +1,314 @@
+import {
+    clearReceivedOscMessages,
+    getOscStatus,
+    getReceivedOscMessages,
+    openOsc,
+    sendOsc,
+    subscribeOsc,
+    unsubscribeOsc,
+    type OscStatus,
+} from "../bridges/osc-bridge.js";
+import {
+    matchOscAddress,
+    OSC_IMMEDIATELY,
+    timetagFromDate,
+    toOscArgument,
+    type OscArgument,
+    type OscMessage,
+    type OscType,
+} from "../osc/codec.js";
+
+type JsonArgument = number | string | boolean | null | { type: OscType; value?: unknown };
+
+const ARGS_SCHEMA = {
+    type: "array",
+    description:
+        'Arguments. Integers are sent as int32, other numbers as float32, strings as strings, booleans as T/F and null as Nil. For other types pass {"type": "d", "value": 0.5}: d double, h int64, t time tag (as a string), c char, b blob (byte array), m MIDI ([port, status, data1, data2]), S symbol, I impulse',
+    items: {},
+};
+
+/** Turn a JSON tool argument into a typed OSC argument. */
+function parseArgument(raw: JsonArgument): OscArgument {
+    if (raw === null || typeof raw !== "object") return toOscArgument(raw);
+    const { type, value } = raw;
+    switch (type) {
+        case "h":
+        case "t":
+            if (typeof value !== "number" && typeof value !== "string") {
+                throw new Error(`OSC type "${type}" needs an integer or a numeric string.`);
+            }
+            return { type, value: BigInt(value) };
+        case "b":
+            if (!Array.isArray(value)) throw new Error('OSC blobs are given as a byte array, e.g. {"type": "b", "value": [1, 2]}.');
+            return { type, value: Uint8Array.from(value as number[]) };
+        case "T":
+        case "F":
+            return { type, value: type === "T" };
+        case "N":
+        case "I":
+            return { type, value: null };
+        default:
+            return toOscArgument({ type, value: value as OscArgument["value"] });
+    }
+}
+
+/** JSON-friendly view of an argument: 64-bit values as strings, blobs as byte arrays. */
+function formatArgument(arg: OscArgument): { type: OscType; value: unknown } {
+    const { type, value } = arg;
+    if (typeof value === "bigint") return { type, value: value.toString() };
+    if (value instanceof Uint8Array) return { type, value: [...value] };
+    return { type, value };
+}
+
+function describeStatus(status: OscStatus): string {
+    const lines = [
+        `Sending to ${status.target.host}:${status.target.port}`,
+        `Listening on ${status.listen.host}:${status.listen.port}`,
+        `Subscriptions: ${status.subscriptions.join(", ") || "none (incoming messages are not buffered)"}`,
+    ];
+    return lines.join("\n");
+}
+
+export const oscTools = [
+    {
+        name: "osc_connect",
+        description:
+            "Open the OSC (Open Sound Control) UDP socket or change where it sends and listens: e.g. Logic Pro's OSC control surface, TouchOSC or another app. Without arguments it shows the current settings, opening with defaults (send to 127.0.0.1:8000, listen on 127.0.0.1:9000) if needed.",
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                host: {
+                    type: "string",
+                    description: "Host to send to. Default: 127.0.0.1",
+                },
+                port: {
+                    type: "number",
+                    description: "UDP port to send to. Default: 8000",
+                },
+                listenPort: {
+                    type: "number",
+                    description: "UDP port to receive on; 0 picks a free port. Default: 9000",
+                },
+                listenHost: {
+                    type: "string",
+                    description:
+                        "Interface to receive on. Default: 127.0.0.1; use 0.0.0.0 to accept messages from other devices",
+                },
+            },
+        },
+        handler: async (args: { host?: string; port?: number; listenPort?: number; listenHost?: string }) => {
+            const status = await openOsc(args);
+            return {
+                content: [{ type: "text" as const, text: `OSC ready.\n${describeStatus(status)}` }],
+            };
+        },
+    },
+    {
+        name: "osc_send",
+        description:
+            "Send an OSC message to an arbitrary address, or several messages as one bundle. Goes to the destination set with osc_connect unless host/port are given.",
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                address: {
+                    type: "string",
+                    description: 'OSC address, e.g. "/logic/transport/play"',
+                },
+                args: ARGS_SCHEMA,
+                messages: {
+                    type: "array",
+                    description:
+                        "Send these messages as a bundle instead of a single message: [{address, args}, ...]",
+                    items: {
+                        type: "object",
+                        properties: {
+                            address: { type: "string" },
+                            args: ARGS_SCHEMA,
+                        },
+                        required: ["address"],
+                    },
+                },
+                delay: {
+                    type: "number",
+                    description:
+                        "Bundles only: time tag this many ms in the future so the receiver applies the messages together then. Default: immediately",
+                },
+                host: {
+                    type: "string",
+                    description: "Send to this host instead of the osc_connect destination",
+                },
+                port: {
+                    type: "number",
+                    description: "Send to this port instead of the osc_connect destination",
+                },
+            },
+        },
+        handler: async (args: {
+            address?: string;
+            args?: JsonArgument[];
+            messages?: { address: string; args?: JsonArgument[] }[];
+            delay?: number;
+            host?: string;
+            port?: number;
+        }) => {
+            const toMessage = (address: string, values: JsonArgument[] = []): OscMessage => ({
+                address,
+                args: values.map(parseArgument),
+            });
+
+            let summary: string;
+            let target;
+            if (args.messages) {
+                if (args.messages.length === 0) throw new Error("Give at least one message for the bundle.");
+                const timetag = args.delay ? timetagFromDate(Date.now() + args.delay) : OSC_IMMEDIATELY;
+                const elements = args.messages.map((m) => toMessage(m.address, m.args));
+                target = await sendOsc({ timetag, elements }, args);
+                summary = `bundle of ${elements.length} message(s) (${elements.map((m) => m.address).join(", ")})${args.delay ? ` for ${args.delay} ms from now` : ""}`;
+            } else {
+                if (!args.address) throw new Error("Give an address, or messages to send as a bundle.");
+                const message = toMessage(args.address, args.args);
+                target = await sendOsc(message, args);
+                summary = `${message.address} ${JSON.stringify(message.args.map(formatArgument))}`;
+            }
+
+            return {
+                content: [{ type: "text" as const, text: `Sent ${summary} to ${target.host}:${target.port}.` }],
+            };
+        },
+    },
+    {
+        name: "osc_subscribe",
+        description:
+            'Start buffering incoming OSC messages whose address matches a pattern, for osc_get_messages. Patterns use OSC wildcards within one address level: "?" one character, "*" any characters, "[1-4]" a set, "{mute,solo}" a choice; "/*" alone does not match deeper addresses.',
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                pattern: {
+                    type: "string",
+                    description: 'Address pattern, e.g. "/track/*/volume" or "/transport/{play,stop}"',
+                },
+            },
+            required: ["pattern"],
+        },
+        handler: async (args: { pattern: string }) => {
+            subscribeOsc(args.pattern);
+            const status = await openOsc();
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: `Subscribed to ${args.pattern}.\n${describeStatus(status)}`,
+                    },
+                ],
+            };
+        },
+    },
+    {
+        name: "osc_unsubscribe",
+        description: "Stop buffering incoming OSC messages for one pattern, or for all of them.",
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                pattern: {
+                    type: "string",
+                    description: "Pattern given to osc_subscribe. Omit to remove every subscription",
+                },
+                clear: {
+                    type: "boolean",
+                    description: "Also discard messages already buffered. Default: false",
+                },
+            },
+        },
+        handler: async (args: { pattern?: string; clear?: boolean }) => {
+            const removed = unsubscribeOsc(args.pattern);
+            if (args.clear) clearReceivedOscMessages();
+            if (args.pattern !== undefined && removed === 0) {
+                const current = getOscStatus()?.subscriptions ?? [];
+                return {
+                    content: [
+                        {
+                            type: "text" as const,
+                            text: `Not subscribed to ${args.pattern}. Subscriptions: ${current.join(", ") || "none"}.`,
+                        },
+                    ],
+                    isError: true,
+                };
+            }
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: `Removed ${removed} subscription(s)${args.clear ? " and cleared the buffer" : ""}.`,
+                    },
+                ],
+            };
+        },
+    },
+    {
+        name: "osc_get_messages",
+        description:
+            "Read buffered OSC messages received for the osc_subscribe patterns, oldest first. Pass the last id returned as sinceId to read on from there without gaps.",
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                sinceId: {
+                    type: "number",
+                    description: "Only return messages with an id greater than this. Default: 0 (all buffered)",
+                },
+                pattern: {
+                    type: "string",
+                    description: "Only return messages whose address matches this OSC pattern",
+                },
+                limit: {
+                    type: "number",
+                    description:
+                        "Maximum number of messages to return, the oldest after sinceId first; the reply says when more are waiting. Default: 100",
+                    minimum: 1,
+                },
+            },
+        },
+        handler: async (args: { sinceId?: number; pattern?: string; limit?: number }) => {
+            const status = getOscStatus();
+            if (!status || status.subscriptions.length === 0) {
+                return {
+                    content: [
+                        {
+                            type: "text" as const,
+                            text: "No OSC subscriptions: use osc_subscribe with an address pattern first.",
+                        },
+                    ],
+                    isError: true,
+                };
+            }
+
+            const limit = args.limit ?? 100;
+            if (!Number.isInteger(limit) || limit < 1) throw new Error("limit must be a whole number of at least 1.");
+            const matching = getReceivedOscMessages(args.sinceId ?? 0).filter(
+                (m) => args.pattern === undefined || matchOscAddress(args.pattern, m.address),
+            );
+            const messages = matching
+                .slice(0, limit)
+                .map((m) => ({
+                    id: m.id,
+                    time: Math.round(m.time),
+                    from: `${m.from.host}:${m.from.port}`,
+                    address: m.address,
+                    args: m.args.map(formatArgument),
+                    ...(m.timetag !== undefined && { timetag: m.timetag.toString() }),
+                }));
+            const pending =
+                matching.length > limit
+                    ? ` (${matching.length - limit} more waiting, pass sinceId ${messages[messages.length - 1].id} to read on)`
+                    : "";
+
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: `Received ${messages.length} OSC message(s)${pending}:\n${JSON.stringify(messages, null, 2)}`,
+                    },
+                ],
+            };
+        },
+    },
+];
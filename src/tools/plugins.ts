@@ -6,10 +6,11 @@ import {
     activateLogicPro,
 } from "../bridges/applescript.js";
 import {
+    findTrack,
     getPluginParameters,
     setPluginParameter,
-    listTracks,
 } from "../bridges/accessibility.js";
+import { formatTrack, TRACK_QUERY_PROPERTIES } from "../ax/resolve.js";
 
 const execFileAsync = promisify(execFile);
 
@@ -80,33 +81,17 @@ export const pluginTools = [
         inputSchema: {
             type: "object" as const,
             properties: {
-                trackIndex: {
-                    type: "number",
-                    description: "The 0-based index of the track",
-                },
+                ...TRACK_QUERY_PROPERTIES,
             },
-            required: ["trackIndex"],
         },
-        handler: async (args: { trackIndex: number }) => {
+        handler: async (args: { track?: string; trackIndex?: number }) => {
             try {
-                const tracks = await listTracks();
-                const track = tracks.find((t) => t.index === args.trackIndex);
-                if (!track) {
-                    return {
-                        content: [
-                            {
-                                type: "text" as const,
-                                text: `Track ${args.trackIndex} not found.`,
-                            },
-                        ],
-                        isError: true,
-                    };
-                }
+                const track = await findTrack(args);
                 return {
                     content: [
                         {
                             type: "text" as const,
-                            text: `Plugins on track ${args.trackIndex} (${track.name}):\n${JSON.stringify(track.plugins, null, 2)}`,
+                            text: `Plugins on track ${formatTrack(track)}:\n${JSON.stringify(track.plugins, null, 2)}`,
                         },
                     ],
                 };
@@ -168,33 +153,19 @@ export const pluginTools = [
     {
         name: "plugin_get_parameters",
         description:
-            "Read all parameter names and current values for a plugin on a specific track and slot. Requires Accessibility access and Controls view enabled in Logic Pro.",
+            "Read all parameter names and current values in the plugin window that is open in Logic Pro. It cannot pick a track or slot: open the plugin first (double-click its insert). Requires Accessibility access and Controls view enabled in Logic Pro.",
         inputSchema: {
             type: "object" as const,
-            properties: {
-                trackIndex: {
-                    type: "number",
-                    description: "The 0-based index of the track",
-                },
-                slotIndex: {
-                    type: "number",
-                    description:
-                        "The 0-based index of the plugin slot on the channel strip (0 = first insert)",
-                },
-            },
-            required: ["trackIndex", "slotIndex"],
+            properties: {},
         },
-        handler: async (args: { trackIndex: number; slotIndex: number }) => {
+        handler: async () => {
             try {
-                const params = await getPluginParameters(
-                    args.trackIndex,
-                    args.slotIndex,
-                );
+                const params = await getPluginParameters();
                 return {
                     content: [
                         {
                             type: "text" as const,
-                            text: `Plugin parameters (track ${args.trackIndex}, slot ${args.slotIndex}):\n${JSON.stringify(params, null, 2)}`,
+                            text: `Parameters in the open plugin window:\n${JSON.stringify(params, null, 2)}`,
                         },
                     ],
                 };
@@ -214,18 +185,10 @@ export const pluginTools = [
     {
         name: "plugin_set_parameter",
         description:
-            "Set a specific parameter value on a plugin. Requires Accessibility access.",
+            "Set a parameter in the plugin window that is open in Logic Pro. It cannot pick a track or slot: open the plugin first (double-click its insert). Requires Accessibility access.",
         inputSchema: {
             type: "object" as const,
             properties: {
-                trackIndex: {
-                    type: "number",
-                    description: "The 0-based index of the track",
-                },
-                slotIndex: {
-                    type: "number",
-                    description: "The 0-based index of the plugin slot",
-                },
                 parameterName: {
                     type: "string",
                     description: "The name of the parameter to set (as returned by plugin_get_parameters)",
@@ -236,21 +199,11 @@ export const pluginTools = [
                         "The new value to set (as a string, will be matched to the parameter type)",
                 },
             },
-            required: ["trackIndex", "slotIndex", "parameterName", "value"],
+            required: ["parameterName", "value"],
         },
-        handler: async (args: {
-            trackIndex: number;
-            slotIndex: number;
-            parameterName: string;
-            value: string;
-        }) => {
+        handler: async (args: { parameterName: string; value: string }) => {
             try {
-                const result = await setPluginParameter(
-                    args.trackIndex,
-                    args.slotIndex,
-                    args.parameterName,
-                    args.value,
-                );
+                const result = await setPluginParameter(args.parameterName, args.value);
                 return {
                     content: [
                         {
@@ -7,6 +7,7 @@ import { pluginTools } from "./plugins.js";
 import { midiTools } from "./midi.js";
 import { projectTools } from "./project.js";
 import { mixerTools } from "./mixer.js";
+import { oscTools } from "./osc.js";
 
 const ALL_TOOLS = [
     ...transportTools,
@@ -15,11 +16,12 @@ const ALL_TOOLS = [
     ...midiTools,
     ...projectTools,
     ...mixerTools,
+    ...oscTools,
 ];
 
 describe("Tool Registration", () => {
     it("has the expected number of tools", () => {
-        assert.equal(ALL_TOOLS.length, 35);
+        assert.equal(ALL_TOOLS.length, 73);
     });
 
     it("all tools have unique names", () => {
@@ -62,6 +64,7 @@ describe("Tool Registration", () => {
             "midi_",
             "project_",
             "mixer_",
+            "osc_",
         ];
         for (const tool of ALL_TOOLS) {
             const hasValidPrefix = validPrefixes.some((p) => tool.name.startsWith(p));
@@ -98,7 +101,7 @@ describe("Tool Registration", () => {
 
 describe("Tool Categories", () => {
     it("transport tools count is correct", () => {
-        assert.equal(transportTools.length, 7);
+        assert.equal(transportTools.length, 12);
     });
 
     it("track tools count is correct", () => {
@@ -110,7 +113,7 @@ describe("Tool Categories", () => {
     });
 
     it("midi tools count is correct", () => {
-        assert.equal(midiTools.length, 4);
+        assert.equal(midiTools.length, 29);
     });
 
     it("project tools count is correct", () => {
@@ -118,6 +121,10 @@ describe("Tool Categories", () => {
     });
 
     it("mixer tools count is correct", () => {
-        assert.equal(mixerTools.length, 3);
+        assert.equal(mixerTools.length, 6);
+    });
+
+    it("osc tools count is correct", () => {
+        assert.equal(oscTools.length, 5);
     });
 });
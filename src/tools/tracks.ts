@@ -4,7 +4,10 @@ import {
     runAppleScript,
     activateLogicPro,
 } from "../bridges/applescript.js";
-import { listTracks as axListTracks } from "../bridges/accessibility.js";
+import { findTrack, listTracks as axListTracks } from "../bridges/accessibility.js";
+import { isMcuConnected, resolveMcuStrip, setMcuStripButton, type StripButton } from "../bridges/mcu-bridge.js";
+import { formatTrack, TRACK_QUERY_PROPERTIES } from "../ax/resolve.js";
+import { resolveStripTarget, STRIP_TARGET_PROPERTIES } from "./mixer.js";
 
 export const trackTools = [
     {
@@ -98,18 +101,30 @@ export const trackTools = [
     },
     {
         name: "track_select",
-        description: "Select a track by its index (0-based).",
+        description:
+            "Select a track by name, pattern, Logic track number or 0-based index. With the Mackie Control surface connected the selection goes through it and Logic confirms it; otherwise the track is reached with arrow keys from the first track. A strip number selects in the current Mackie Control bank.",
         inputSchema: {
             type: "object" as const,
             properties: {
+                track: TRACK_QUERY_PROPERTIES.track,
                 index: {
                     type: "number",
                     description: "The 0-based index of the track to select",
                 },
+                strip: STRIP_TARGET_PROPERTIES.strip,
             },
-            required: ["index"],
         },
-        handler: async (args: { index: number }) => {
+        handler: async (args: { index?: number; track?: string; strip?: number }) => {
+            if (args.strip !== undefined) {
+                return setStripButton(args, "selected", true);
+            }
+            if (args.track === undefined && args.index === undefined) {
+                throw new Error("Give the track's name, number, index or strip number.");
+            }
+            const track = await findTrack({ track: args.track, trackIndex: args.index });
+            if (isMcuConnected()) {
+                return pressStripButton(await resolveMcuStrip({ track }), track.name, "selected", true);
+            }
             await activateLogicPro();
             // Navigate to track using arrow keys from top
             const script = `
@@ -119,7 +134,7 @@ export const trackTools = [
             keystroke "1" using {control down}
             delay 0.1
             -- Then arrow down to desired track
-            repeat ${args.index} times
+            repeat ${track.index} times
               key code 125 -- down arrow
               delay 0.05
             end repeat
@@ -129,7 +144,7 @@ export const trackTools = [
             await runAppleScript(script);
             return {
                 content: [
-                    { type: "text" as const, text: `Selected track ${args.index}.` },
+                    { type: "text" as const, text: `Selected track ${formatTrack(track)}.` },
                 ],
             };
         },
@@ -192,12 +207,22 @@ export const trackTools = [
     },
     {
         name: "track_mute",
-        description: "Toggle mute on the currently selected track.",
+        description:
+            "Mute or unmute a track. With a track name or strip number this goes through the Mackie Control surface and sets the state absolutely; otherwise it toggles mute on the selected track with a key command.",
         inputSchema: {
             type: "object" as const,
-            properties: {},
+            properties: {
+                ...STRIP_TARGET_PROPERTIES,
+                mute: {
+                    type: "boolean",
+                    description: "Mute (true) or unmute (false). Default: toggle",
+                },
+            },
         },
-        handler: async () => {
+        handler: async (args: { track?: string; strip?: number; mute?: boolean }) => {
+            if (args.track !== undefined || args.strip !== undefined) {
+                return setStripButton(args, "mute", args.mute);
+            }
             await activateLogicPro();
             await sendKeyStroke("m");
             return {
@@ -207,12 +232,22 @@ export const trackTools = [
     },
     {
         name: "track_solo",
-        description: "Toggle solo on the currently selected track.",
+        description:
+            "Solo or unsolo a track. With a track name or strip number this goes through the Mackie Control surface and sets the state absolutely; otherwise it toggles solo on the selected track with a key command.",
         inputSchema: {
             type: "object" as const,
-            properties: {},
+            properties: {
+                ...STRIP_TARGET_PROPERTIES,
+                solo: {
+                    type: "boolean",
+                    description: "Solo (true) or unsolo (false). Default: toggle",
+                },
+            },
         },
-        handler: async () => {
+        handler: async (args: { track?: string; strip?: number; solo?: boolean }) => {
+            if (args.track !== undefined || args.strip !== undefined) {
+                return setStripButton(args, "solo", args.solo);
+            }
             await activateLogicPro();
             await sendKeyStroke("s");
             return {
@@ -221,3 +256,32 @@ export const trackTools = [
         },
     },
 ];
+
+const BUTTON_STATES: Record<StripButton, [string, string]> = {
+    recordArm: ["record armed", "not record armed"],
+    solo: ["soloed", "not soloed"],
+    mute: ["muted", "unmuted"],
+    selected: ["selected", "not selected"],
+};
+
+/** Set a strip button through the Mackie Control surface and report what Logic shows. */
+async function setStripButton(
+    target: { track?: string; strip?: number },
+    button: StripButton,
+    on?: boolean,
+) {
+    const { strip, label } = await resolveStripTarget(target);
+    return pressStripButton(strip, label, button, on);
+}
+
+async function pressStripButton(strip: number, label: string, button: StripButton, on?: boolean) {
+    const result = await setMcuStripButton(strip, button, on);
+    const [onText, offText] = BUTTON_STATES[button];
+    const text = result.confirmed
+        ? `"${label}" is ${result.on ? onText : offText}.`
+        : `Pressed ${button === "selected" ? "select" : button} on "${label}" but Logic did not confirm the change; it still shows ${result.on ? onText : offText}.`;
+    return {
+        content: [{ type: "text" as const, text }],
+        isError: !result.confirmed,
+    };
+}
@@ -4,48 +4,186 @@ import {
     runAppleScript,
     isLogicProRunning,
 } from "../bridges/applescript.js";
+import { openMidiPort, sendMessage, sendMmc, sendMmcLocate } from "../bridges/midi-bridge.js";
+import { getTransportSnapshot } from "../bridges/transport-tracker.js";
+import { songPositionMessage } from "../midi/messages.js";
+import { formatSmpte, type MmcCommand, type SmpteFrameRate, type SmpteTime } from "../midi/mmc.js";
+import {
+    formatBarPosition,
+    parsePosition,
+    parseSmpte,
+    secondsToSmpte,
+    smpteToSeconds,
+} from "../midi/position.js";
+import {
+    barToBeats,
+    beatsAt,
+    beatsToBar,
+    constantTempoMap,
+    createTempoMap,
+    getTempoMap,
+    meterAt,
+    secondsAt,
+    setTempoMap,
+    tempoAt,
+    type TempoMap,
+} from "../midi/tempo-map.js";
+import { parseTimeSignature, roundBeats } from "../midi/timeline.js";
+import type { TransportSource } from "../midi/transport-state.js";
+
+/**
+ * How transport commands reach Logic Pro: key commands (Logic must be
+ * frontmost, play/stop share the space bar toggle) or MIDI Machine Control
+ * over the virtual MIDI port (focus-free and absolute, but needs "Listen to
+ * MMC input" enabled in Project Settings > Synchronization > MIDI).
+ */
+type TransportBackend = "keys" | "mmc";
+
+const POSITION_SCHEMA = {
+    type: ["string", "number"],
+    description: 'Bar number (33), bar.beat.division.tick ("33.2.1.1"), SMPTE ("01:00:30:00") or seconds ("95.5s")',
+};
+
+/** Tempo, meter and SMPTE settings for converting positions. */
+const TIMING_PROPERTIES = {
+    bpm: {
+        type: "number",
+        description: "Fixed project tempo for converting bars to time. Default: the tempo map if one is set, else 120",
+    },
+    timeSignature: {
+        type: "string",
+        description: 'Fixed project time signature, e.g. "3/4". Default: the tempo map\'s meters, else "4/4"',
+    },
+    frameRate: {
+        type: "number",
+        enum: [24, 25, 29.97, 30],
+        description: "SMPTE frame rate from Project Settings > Synchronization (29.97 = drop frame). Default: 25",
+    },
+    projectStart: {
+        type: "string",
+        description: 'SMPTE time of bar 1 from Project Settings > Synchronization. Default: "01:00:00:00"',
+    },
+};
+
+const BACKEND_SCHEMA = {
+    type: "string",
+    enum: ["keys", "mmc"],
+    description:
+        'How to control the transport: "keys" (key commands; Logic is brought to the front) or "mmc" (MIDI Machine Control, works in the background; enable "Listen to MMC input" in Project Settings > Synchronization > MIDI). Default: LOGIC_PRO_MCP_TRANSPORT or "keys"',
+};
 
 export const transportTools = [
+    {
+        name: "transport_get_state",
+        description:
+            "Report whether Logic Pro is playing or recording, the playhead position and the tempo, as followed from the MIDI Clock, MTC and MMC that Logic sends to 'Logic Pro MCP In'. Enable them in Project Settings > Synchronization > MIDI with that port as destination.",
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                timeSignature: {
+                    type: "string",
+                    description: 'Project time signature, for showing the position in bars. Default: the tempo map\'s meters, else "4/4"',
+                },
+            },
+        },
+        handler: async (args: { timeSignature?: string }) => {
+            const state = getTransportSnapshot();
+            if (!state) {
+                throw new Error("Transport tracking is not running: the MIDI input 'Logic Pro MCP In' could not be opened.");
+            }
+            if (!state.known) {
+                return {
+                    content: [
+                        {
+                            type: "text" as const,
+                            text: `No MIDI Clock, MTC or MMC received on '${state.port}' yet. In Logic Pro, open Project Settings > Synchronization > MIDI and set '${state.port}' as the destination for MIDI Clock and MTC (and enable MMC transmit for record state).`,
+                        },
+                    ],
+                };
+            }
+
+            const lines = [
+                `Transport: ${state.recording ? "recording" : state.running ? "playing" : "stopped"} (from ${describeSource(state.source)}, last message ${state.age}ms ago)`,
+            ];
+            if (state.beats !== undefined) {
+                const { map } = resolveTiming({ timeSignature: args.timeSignature });
+                lines.push(`Position: bar ${formatBarPosition(beatsToBar(map, state.beats))}`);
+            }
+            if (state.timecode) {
+                lines.push(`Timecode: ${formatSmpte(state.timecode)} (${state.frameRate} fps)`);
+            }
+            if (state.tempo !== undefined) lines.push(`Tempo: ~${state.tempo} BPM (from MIDI clock)`);
+            return {
+                content: [{ type: "text" as const, text: lines.join("\n") }],
+            };
+        },
+    },
     {
         name: "transport_play",
         description:
-            "Start playback in Logic Pro. If already playing, this will restart from the current position.",
+            "Start playback in Logic Pro. Does nothing if transport tracking shows Logic is already playing. Otherwise, with the keys backend the space bar toggles; MMC always plays.",
         inputSchema: {
             type: "object" as const,
-            properties: {},
+            properties: {
+                backend: BACKEND_SCHEMA,
+            },
         },
-        handler: async () => {
+        handler: async (args: { backend?: TransportBackend }) => {
             await ensureLogicPro();
-            await sendKeyCode(49); // space bar
-            return { content: [{ type: "text" as const, text: "Playback started." }] };
+            if (getTransportSnapshot()?.running) {
+                return { content: [{ type: "text" as const, text: "Logic Pro is already playing." }] };
+            }
+            const backend = await transportCommand(args.backend, "play", () => sendKeyCode(49)); // space bar
+            return {
+                content: [{ type: "text" as const, text: `Playback started (${backend}).` }],
+            };
         },
     },
     {
         name: "transport_stop",
-        description: "Stop playback in Logic Pro.",
+        description:
+            "Stop playback in Logic Pro. Does nothing if transport tracking shows Logic is already stopped. Otherwise, with the keys backend the space bar toggles; MMC always stops.",
         inputSchema: {
             type: "object" as const,
-            properties: {},
+            properties: {
+                backend: BACKEND_SCHEMA,
+            },
         },
-        handler: async () => {
+        handler: async (args: { backend?: TransportBackend }) => {
             await ensureLogicPro();
-            await sendKeyCode(49); // space bar toggles
-            return { content: [{ type: "text" as const, text: "Playback stopped." }] };
+            const state = getTransportSnapshot();
+            if (state?.known && !state.running) {
+                return { content: [{ type: "text" as const, text: "Logic Pro is already stopped." }] };
+            }
+            const backend = await transportCommand(args.backend, "stop", () => sendKeyCode(49)); // space bar toggles
+            return {
+                content: [{ type: "text" as const, text: `Playback stopped (${backend}).` }],
+            };
         },
     },
     {
         name: "transport_record",
         description:
-            "Toggle recording in Logic Pro. Make sure a track is armed for recording first.",
+            "Start recording in Logic Pro (the keys backend toggles recording, MMC sends Record Strobe). Does nothing if transport tracking shows Logic is already recording. Make sure a track is armed for recording first.",
         inputSchema: {
             type: "object" as const,
-            properties: {},
+            properties: {
+                backend: BACKEND_SCHEMA,
+            },
         },
-        handler: async () => {
+        handler: async (args: { backend?: TransportBackend }) => {
             await ensureLogicPro();
-            await sendKeyStroke("r");
+            if (getTransportSnapshot()?.recording) {
+                return { content: [{ type: "text" as const, text: "Logic Pro is already recording." }] };
+            }
+            const backend = await transportCommand(args.backend, "recordStrobe", () => sendKeyStroke("r"));
             return {
-                content: [{ type: "text" as const, text: "Recording toggled." }],
+                content: [
+                    {
+                        type: "text" as const,
+                        text: backend === "mmc" ? "Recording started (mmc)." : "Recording toggled (keys).",
+                    },
+                ],
             };
         },
     },
@@ -105,6 +243,173 @@ export const transportTools = [
             };
         },
     },
+    {
+        name: "transport_goto",
+        description:
+            'Move the playhead to a bar position ("33", "33.2.1.1"), a SMPTE timecode ("01:00:30:00") or seconds from the project start ("95.5s"). Uses MMC Locate (needs "Listen to MMC input") or Song Position Pointer (only followed while Logic syncs to external MIDI clock). Bars are converted through the tempo map if one is set, else with the given tempo and meter, so pass the project\'s values.',
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                position: POSITION_SCHEMA,
+                method: {
+                    type: "string",
+                    enum: ["mmc", "spp"],
+                    description: 'MMC Locate or MIDI Song Position Pointer. Default: "mmc"',
+                },
+                ...TIMING_PROPERTIES,
+            },
+            required: ["position"],
+        },
+        handler: async (args: TimingArgs & { position: string | number; method?: "mmc" | "spp" }) => {
+            await ensureLogicPro();
+            const { map, frameRate, start } = resolveTiming(args);
+            const { beats, seconds, smpte } = locate(String(args.position), map, frameRate, start);
+
+            const port = openMidiPort();
+            if ((args.method ?? "mmc") === "spp") {
+                sendMessage(songPositionMessage(Math.round(beats * 4)), port);
+            } else {
+                sendMmcLocate(smpte, frameRate, port);
+            }
+
+            const bars = formatBarPosition(beatsToBar(map, beats));
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: `Located to bar ${bars} (${formatSmpte(smpte)}, ${seconds.toFixed(3)}s) via ${args.method === "spp" ? "Song Position Pointer" : "MMC"}.`,
+                    },
+                ],
+            };
+        },
+    },
+    {
+        name: "transport_set_tempo_map",
+        description:
+            "Define the song's tempo map: tempo events (jumps, or ramps for a rit./accel.) and meter changes such as a 7/8 bar. transport_goto, transport_convert_position and the MIDI playback and export tools then follow it whenever no bpm is given. This models the map for the tools; it does not edit Logic's tempo track (export a MIDI file and import its tempo to do that).",
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                tempos: {
+                    type: "array",
+                    description: 'Tempo events, e.g. [{"position": "1", "bpm": 120}, {"position": "29", "bpm": 120, "ramp": true}, {"position": "31", "bpm": 96}]',
+                    items: {
+                        type: "object",
+                        properties: {
+                            position: {
+                                type: ["string", "number"],
+                                description: 'Bar position of the event: 29 or "29.3"',
+                            },
+                            bpm: { type: "number", description: "Tempo from this position" },
+                            ramp: {
+                                type: "boolean",
+                                description: "Glide linearly from this tempo to the next event's. Default: false",
+                            },
+                        },
+                        required: ["position", "bpm"],
+                    },
+                },
+                meters: {
+                    type: "array",
+                    description: 'Meter changes, e.g. [{"bar": 9, "timeSignature": "7/8"}, {"bar": 10, "timeSignature": "4/4"}]. Default: 4/4 throughout',
+                    items: {
+                        type: "object",
+                        properties: {
+                            bar: { type: "number", description: "Bar where the meter starts" },
+                            timeSignature: { type: "string", description: 'e.g. "7/8"' },
+                        },
+                        required: ["bar", "timeSignature"],
+                    },
+                },
+                clear: {
+                    type: "boolean",
+                    description: "Remove the tempo map so tools use their bpm argument (default 120) again",
+                },
+            },
+        },
+        handler: async (args: {
+            tempos?: { position: string | number; bpm: number; ramp?: boolean }[];
+            meters?: { bar: number; timeSignature: string }[];
+            clear?: boolean;
+        }) => {
+            if (args.clear) {
+                setTempoMap(undefined);
+                return { content: [{ type: "text" as const, text: "Tempo map cleared." }] };
+            }
+            if (!args.tempos || args.tempos.length === 0) {
+                throw new Error("Provide at least one tempo event, or clear: true.");
+            }
+
+            // Tempo positions are bars, so place the meters first
+            const meters = (args.meters ?? []).map((m) => ({ bar: m.bar, ...parseTimeSignature(m.timeSignature) }));
+            const grid = createTempoMap([{ beat: 0, bpm: 120 }], meters);
+            const map = createTempoMap(
+                args.tempos.map((event) => {
+                    const parsed = parsePosition(String(event.position));
+                    if (parsed.kind !== "bars") {
+                        throw new Error(`Tempo event positions are bar positions; got "${event.position}".`);
+                    }
+                    return { beat: barToBeats(grid, parsed.position), bpm: event.bpm, ramp: event.ramp };
+                }),
+                meters,
+            );
+            setTempoMap(map);
+            return {
+                content: [{ type: "text" as const, text: `Tempo map set.\n${describeTempoMap(map)}` }],
+            };
+        },
+    },
+    {
+        name: "transport_get_tempo_map",
+        description:
+            "Show the tempo map set with transport_set_tempo_map: each tempo event and meter change with its bar position and time from the song start.",
+        inputSchema: {
+            type: "object" as const,
+            properties: {},
+        },
+        handler: async () => {
+            const map = getTempoMap();
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: map
+                            ? describeTempoMap(map)
+                            : "No tempo map is set; tools use their bpm argument (default 120) and 4/4. Define one with transport_set_tempo_map.",
+                    },
+                ],
+            };
+        },
+    },
+    {
+        name: "transport_convert_position",
+        description:
+            'Convert a position between bars, seconds and SMPTE timecode through the tempo map (or a fixed tempo and meter), e.g. "where is bar 33?" or "which bar is at 01:02:10:00?". Also reports the tempo and meter there.',
+        inputSchema: {
+            type: "object" as const,
+            properties: {
+                position: POSITION_SCHEMA,
+                ...TIMING_PROPERTIES,
+            },
+            required: ["position"],
+        },
+        handler: async (args: TimingArgs & { position: string | number }) => {
+            const { map, frameRate, start } = resolveTiming(args);
+            const { beats, seconds, smpte } = locate(String(args.position), map, frameRate, start);
+            const bar = beatsToBar(map, beats);
+            const meter = meterAt(map, bar.bar);
+            const lines = [
+                `Bar: ${formatBarPosition(bar)}`,
+                `Beats from start: ${roundBeats(beats)}`,
+                `Seconds from start: ${seconds.toFixed(3)}`,
+                `SMPTE: ${formatSmpte(smpte)} (${frameRate} fps)`,
+                `Tempo: ${Math.round(tempoAt(map, beats) * 100) / 100} BPM, meter ${meter.numerator}/${meter.denominator}`,
+            ];
+            return {
+                content: [{ type: "text" as const, text: lines.join("\n") }],
+            };
+        },
+    },
     {
         name: "transport_cycle",
         description: "Toggle cycle (loop) mode in Logic Pro.",
@@ -137,6 +442,90 @@ export const transportTools = [
     },
 ];
 
+interface TimingArgs {
+    bpm?: number;
+    timeSignature?: string;
+    frameRate?: SmpteFrameRate;
+    projectStart?: string;
+}
+
+/**
+ * The tempo map to convert positions with: a fixed tempo and meter when
+ * either is given, else the tempo map, else 120 BPM in 4/4.
+ */
+function resolveTiming(args: TimingArgs): { map: TempoMap; frameRate: SmpteFrameRate; start: number } {
+    const fixed = args.bpm !== undefined || args.timeSignature !== undefined;
+    const map =
+        (fixed ? undefined : getTempoMap()) ??
+        constantTempoMap(args.bpm ?? 120, parseTimeSignature(args.timeSignature ?? "4/4"));
+    const frameRate = args.frameRate ?? 25;
+    const start = smpteToSeconds(parseSmpte(args.projectStart ?? "01:00:00:00"), frameRate);
+    return { map, frameRate, start };
+}
+
+/** Resolve a bar, SMPTE or seconds position to beats, seconds from the project start and SMPTE. */
+function locate(
+    position: string,
+    map: TempoMap,
+    frameRate: SmpteFrameRate,
+    start: number,
+): { beats: number; seconds: number; smpte: SmpteTime } {
+    // Everything is converted to seconds from the project start
+    const target = parsePosition(position);
+    let seconds: number;
+    if (target.kind === "bars") {
+        seconds = secondsAt(map, barToBeats(map, target.position));
+    } else if (target.kind === "smpte") {
+        seconds = smpteToSeconds(target.time, frameRate) - start;
+    } else {
+        seconds = target.seconds;
+    }
+    if (seconds < 0) throw new Error(`Position ${position} is before the project start.`);
+    return { beats: beatsAt(map, seconds), seconds, smpte: secondsToSmpte(start + seconds, frameRate) };
+}
+
+function describeTempoMap(map: TempoMap): string {
+    const tempos = map.tempos.map((event) => {
+        const bar = formatBarPosition(beatsToBar(map, event.beat));
+        const ramp = event.ramp ? " (ramp to next)" : "";
+        return `  bar ${bar}: ${event.bpm} BPM${ramp} at ${secondsAt(map, event.beat).toFixed(3)}s`;
+    });
+    const meters = map.meters.map((meter) => `  bar ${meter.bar}: ${meter.numerator}/${meter.denominator}`);
+    return ["Tempos:", ...tempos, "Meters:", ...meters].join("\n");
+}
+
+/** Run a transport command through the chosen backend; returns the backend used. */
+async function transportCommand(
+    backend: TransportBackend | undefined,
+    command: MmcCommand,
+    keys: () => Promise<void>,
+): Promise<TransportBackend> {
+    const chosen = backend ?? defaultBackend();
+    if (chosen === "mmc") {
+        sendMmc(command, openMidiPort());
+    } else {
+        await keys();
+    }
+    return chosen;
+}
+
+function describeSource(source: TransportSource | undefined): string {
+    switch (source) {
+        case "clock":
+            return "MIDI Clock";
+        case "mtc":
+            return "MTC";
+        case "mmc":
+            return "MMC";
+        default:
+            return "sync messages";
+    }
+}
+
+function defaultBackend(): TransportBackend {
+    return process.env.LOGIC_PRO_MCP_TRANSPORT === "mmc" ? "mmc" : "keys";
+}
+
 async function ensureLogicPro(): Promise<void> {
     const running = await isLogicProRunning();
     if (!running) {
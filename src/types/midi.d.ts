@@ -5,6 +5,7 @@ declare module "midi" {
         openPort(port: number): void;
         openVirtualPort(name: string): void;
         closePort(): void;
+        ignoreTypes(sysex: boolean, timing: boolean, activeSensing: boolean): void;
         on(event: "message", callback: (deltaTime: number, message: number[]) => void): void;
     }
 
@@ -1,6 +1,32 @@
 import AppKit
 import Foundation
 
+// MARK: - Errors and State
+
+/// A failed command. The message goes to stderr on the command line and
+/// into the JSON-RPC error in serve mode.
+struct HelperError: Error {
+    let message: String
+    var code: Int = -32000
+
+    init(_ message: String, code: Int = -32000) {
+        self.message = message
+        self.code = code
+    }
+}
+
+/// Localized labels sent by the server as JSON (see src/ax/labels.ts). Only
+/// the tracks group is needed here: the server parses the track headers.
+struct AxLabels: Decodable {
+    var tracksGroup = ["Spuren", "Tracks"]
+}
+
+var labels = AxLabels()
+
+/// Tracks area of Logic's main window, kept between requests in serve mode
+/// so the window is only searched again once the element goes stale.
+var cachedTracksArea: AXUIElement?
+
 // MARK: - Main Entry Point
 
 let args = CommandLine.arguments
@@ -11,39 +37,102 @@ guard args.count >= 2 else {
 
 let command = args[1]
 
-switch command {
-case "check-access":
-    checkAccessibility()
-case "list-tracks":
-    listTracks()
-case "get-params":
-    guard args.count >= 4,
-          let trackIdx = Int(args[2]),
-          let slotIdx = Int(args[3]) else {
-        printError("Usage: logic-ax get-params <trackIndex> <slotIndex>")
+if command == "serve" {
+    serve()
+} else {
+    do {
+        output(try runCommand(command, Array(args.dropFirst(2))))
+    } catch let error as HelperError {
+        printError(error.message)
+        if error.code == -32601 { printUsage() }
         exit(1)
-    }
-    getPluginParameters(trackIndex: trackIdx, slotIndex: slotIdx)
-case "set-param":
-    guard args.count >= 6,
-          let trackIdx = Int(args[2]),
-          let slotIdx = Int(args[3]) else {
-        printError("Usage: logic-ax set-param <trackIndex> <slotIndex> <paramName> <value>")
+    } catch {
+        printError("\(error)")
         exit(1)
     }
-    let paramName = args[4]
-    let value = args[5]
-    setPluginParameter(trackIndex: trackIdx, slotIndex: slotIdx, paramName: paramName, value: value)
-case "query":
-    let depth = args.count >= 3 ? (Int(args[2]) ?? 6) : 6
-    queryElement(maxDepth: depth)
-case "query-spuren":
-    let depth = args.count >= 3 ? (Int(args[2]) ?? 10) : 10
-    querySpuren(maxDepth: depth)
-default:
-    printError("Unknown command: \(command)")
-    printUsage()
-    exit(1)
+}
+
+/// Run one command and return its result. Shared by the one-shot command
+/// line and the serve loop.
+func runCommand(_ command: String, _ params: [String]) throws -> Any {
+    switch command {
+    case "check-access":
+        return checkAccessibility()
+    case "list-tracks":
+        if let json = params.first { labels = try decodeLabels(json) }
+        return try listTracks()
+    case "get-params":
+        return try getPluginParameters()
+    case "set-param":
+        guard params.count >= 2 else {
+            throw HelperError("Usage: logic-ax set-param <paramName> <value>", code: -32602)
+        }
+        return try setPluginParameter(paramName: params[0], value: params[1])
+    case "query":
+        let depth = params.first.flatMap { Int($0) } ?? 6
+        return try queryElement(maxDepth: depth)
+    case "query-spuren":
+        let depth = params.first.flatMap { Int($0) } ?? 10
+        if params.count >= 2 { labels = try decodeLabels(params[1]) }
+        return try querySpuren(maxDepth: depth)
+    default:
+        throw HelperError("Unknown command: \(command)", code: -32601)
+    }
+}
+
+func decodeLabels(_ json: String) throws -> AxLabels {
+    do {
+        return try JSONDecoder().decode(AxLabels.self, from: Data(json.utf8))
+    } catch {
+        throw HelperError("Invalid labels JSON: \(error)", code: -32602)
+    }
+}
+
+// MARK: - Serve Mode
+
+/// Long-lived mode: newline-delimited JSON-RPC 2.0 on stdin/stdout. Each
+/// request is `{"jsonrpc": "2.0", "id": 1, "method": "list-tracks",
+/// "params": [...]}` with the command-line arguments as params; responses
+/// are written one per line in request order. Exits when stdin closes.
+func serve() {
+    while let line = readLine() {
+        if line.trimmingCharacters(in: .whitespaces).isEmpty { continue }
+
+        guard let data = line.data(using: .utf8),
+              let request = (try? JSONSerialization.jsonObject(with: data)) as? [String: Any],
+              let method = request["method"] as? String else {
+            writeResponse(["jsonrpc": "2.0", "id": NSNull(), "error": ["code": -32700, "message": "Invalid request: \(line)"]])
+            continue
+        }
+
+        var response: [String: Any] = ["jsonrpc": "2.0", "id": request["id"] ?? NSNull()]
+        let params = (request["params"] as? [Any] ?? []).map { "\($0)" }
+        do {
+            response["result"] = try runCommand(method, params)
+        } catch let error as HelperError {
+            response["error"] = ["code": error.code, "message": error.message]
+        } catch {
+            response["error"] = ["code": -32603, "message": "\(error)"]
+        }
+        writeResponse(response)
+    }
+}
+
+func writeResponse(_ response: [String: Any]) {
+    var line: Data
+    if let data = try? JSONSerialization.data(withJSONObject: response, options: [.sortedKeys]) {
+        line = data
+    } else {
+        // The result was not serializable; still answer so the client's request completes
+        let fallback: [String: Any] = [
+            "jsonrpc": "2.0",
+            "id": response["id"] ?? NSNull(),
+            "error": ["code": -32603, "message": "Result is not valid JSON"]
+        ]
+        line = (try? JSONSerialization.data(withJSONObject: fallback)) ?? Data()
+    }
+    line.append(0x0A)
+    FileHandle.standardOutput.write(line)
 }
 
 // MARK: - Accessibility Helpers
@@ -55,14 +144,41 @@ func getLogicProPID() -> pid_t? {
     return apps.first?.processIdentifier
 }
 
-func getLogicProApp() -> AXUIElement? {
+func getLogicProApp() throws -> AXUIElement {
     guard let pid = getLogicProPID() else {
-        printError("Logic Pro is not running")
-        return nil
+        throw HelperError("Logic Pro is not running")
     }
     return AXUIElementCreateApplication(pid)
 }
 
+func getMainWindow(_ app: AXUIElement) throws -> AXUIElement {
+    guard let mainWindow = getAttribute(app, kAXMainWindowAttribute) as! AXUIElement? else {
+        throw HelperError("Logic Pro has no main window")
+    }
+    return mainWindow
+}
+
+/// The group of the main window described as "Tracks" in Logic's language,
+/// reusing the cached one while it is still alive and in that window.
+func findTracksArea(in app: AXUIElement) throws -> AXUIElement {
+    let mainWindow = try getMainWindow(app)
+    if let cached = cachedTracksArea,
+       getRole(cached) != nil,
+       let window = getAttribute(cached, kAXWindowAttribute),
+       CFEqual(window, mainWindow) {
+        return cached
+    }
+
+    for description in labels.tracksGroup {
+        if let area = findElementByDescription(in: mainWindow, description: description, maxDepth: 4) {
+            cachedTracksArea = area
+            return area
+        }
+    }
+    cachedTracksArea = nil
+    throw HelperError("Could not find tracks area in Logic Pro window (looked for: \(labels.tracksGroup.joined(separator: ", ")))")
+}
+
 func getAttribute(_ element: AXUIElement, _ attribute: String) -> CFTypeRef? {
     var value: CFTypeRef?
     let result = AXUIElementCopyAttributeValue(element, attribute as CFString, &value)
@@ -103,43 +219,25 @@ func getValue(_ element: AXUIElement) -> String? {
 
 // MARK: - Commands
 
-func checkAccessibility() {
+func checkAccessibility() -> String {
     let trusted = AXIsProcessTrustedWithOptions(
         [kAXTrustedCheckOptionPrompt.takeUnretainedValue() as String: true] as CFDictionary
     )
     if trusted {
-        print("accessibility: granted")
+        return "accessibility: granted"
     } else {
-        print("accessibility: denied – please grant access in System Settings → Privacy → Accessibility")
+        return "accessibility: denied – please grant access in System Settings → Privacy → Accessibility"
     }
 }
 
-func listTracks() {
-    guard let app = getLogicProApp() else {
-        print("[]")
-        return
-    }
-
-    guard let mainWindow = getAttribute(app, kAXMainWindowAttribute) as! AXUIElement? else {
-        print("[]")
-        return
-    }
-
-    // Navigate: Window → find AXGroup with description "Spuren" → dive deep
-    guard let spurenGroup = findElementByDescription(in: mainWindow, description: "Spuren", maxDepth: 4) else {
-        // Fallback: try English "Tracks"
-        guard let tracksGroup = findElementByDescription(in: mainWindow, description: "Tracks", maxDepth: 4) else {
-            printError("Could not find tracks area in Logic Pro window")
-            print("[]")
-            return
-        }
-        let tracks = extractTracks(from: tracksGroup)
-        outputJSON(tracks)
-        return
-    }
-
-    let tracks = extractTracks(from: spurenGroup)
-    outputJSON(tracks)
+/// Every layout item in the tracks area with its subtree, for the server to
+/// turn into tracks (see src/ax/tracks.ts)
+func listTracks() throws -> [[String: Any]] {
+    // Navigate: Window → find the AXGroup described as "Tracks" → dive deep
+    let spurenGroup = try findTracksArea(in: try getLogicProApp())
+    var items: [[String: Any]] = []
+    collectLayoutItems(in: getChildren(spurenGroup), items: &items, depth: 0, maxDepth: 12)
+    return items
 }
 
 /// Find an element by its AX description, searching breadth-first
@@ -165,149 +263,47 @@ func findElementByDescription(in root: AXUIElement, description: String, maxDept
     return nil
 }
 
-/// Extract tracks from the Spuren/Tracks group area
-func extractTracks(from spurenGroup: AXUIElement) -> [[String: Any]] {
-    var tracks: [[String: Any]] = []
-    
-    // Collect all track-like elements by scanning deep
-    collectTrackElements(in: getChildren(spurenGroup), tracks: &tracks, depth: 0, maxDepth: 12)
-    
-    return tracks
-}
-
-/// Recursively find track elements in the UI hierarchy
-/// Tracks are AXLayoutItem elements with descriptions like: Spur 4 „Ioanna Mic Wet"
-func collectTrackElements(in elements: [AXUIElement], tracks: inout [[String: Any]], depth: Int, maxDepth: Int) {
+/// Recursively find layout items in the UI hierarchy. Track headers are
+/// AXLayoutItem elements with descriptions like: Spur 4 „Ioanna Mic Wet"
+func collectLayoutItems(in elements: [AXUIElement], items: inout [[String: Any]], depth: Int, maxDepth: Int) {
     guard depth < maxDepth else { return }
-    
+
     for element in elements {
-        let role = getRole(element) ?? ""
-        let desc = getDescription(element) ?? ""
-        
-        // Logic Pro tracks are AXLayoutItem with description "Spur N „TrackName""
-        // or in English: "Track N "TrackName""
-        if role == "AXLayoutItem" && isTrackDescription(desc) {
-            let trackName = extractTrackName(from: desc)
-            let trackNumber = extractTrackNumber(from: desc)
-            let children = getChildren(element)
-            let trackMeta = extractTrackMeta(from: children)
-            
-            tracks.append([
-                "index": tracks.count,
-                "trackNumber": trackNumber,
-                "name": trackName,
-                "muted": trackMeta["muted"] ?? false,
-                "solo": trackMeta["solo"] ?? false,
-                "recordEnabled": trackMeta["recordEnabled"] ?? false,
-                "volume": trackMeta["volume"] ?? 0,
-                "plugins": findPluginNames(in: children)
-            ])
+        if getRole(element) == "AXLayoutItem" {
+            items.append(dumpTree(element, depth: 0, maxDepth: 4))
         }
-        
+
         // Recurse into children
         let children = getChildren(element)
         if !children.isEmpty {
-            collectTrackElements(in: children, tracks: &tracks, depth: depth + 1, maxDepth: maxDepth)
-        }
-    }
-}
-
-/// Check if a description matches the track pattern: "Spur N „Name"" or "Track N "Name""
-func isTrackDescription(_ desc: String) -> Bool {
-    return desc.hasPrefix("Spur ") || desc.hasPrefix("Track ")
-}
-
-/// Extract the track name from description like: Spur 4 „Ioanna Mic Wet"
-func extractTrackName(from desc: String) -> String {
-    // Try German format: Spur N „Name"
-    if let range = desc.range(of: "„") {
-        var name = String(desc[range.upperBound...])
-        // Remove closing quote
-        name = name.replacingOccurrences(of: "\u{201C}", with: "")
-        name = name.replacingOccurrences(of: "\u{201D}", with: "")
-        name = name.replacingOccurrences(of: "\"", with: "")
-        return name.trimmingCharacters(in: .whitespaces)
-    }
-    // Try English format: Track N "Name"
-    if let range = desc.range(of: "\"") {
-        var name = String(desc[range.upperBound...])
-        if let endRange = name.range(of: "\"") {
-            name = String(name[..<endRange.lowerBound])
+            collectLayoutItems(in: children, items: &items, depth: depth + 1, maxDepth: maxDepth)
         }
-        return name.trimmingCharacters(in: .whitespaces)
     }
-    // Fallback: everything after the number
-    let parts = desc.split(separator: " ", maxSplits: 2)
-    return parts.count >= 3 ? String(parts[2]) : desc
 }
 
-/// Extract track number from "Spur 4 „Name""
-func extractTrackNumber(from desc: String) -> Int {
-    let parts = desc.split(separator: " ")
-    if parts.count >= 2, let num = Int(parts[1]) {
-        return num
-    }
-    return -1
-}
-
-/// Extract mute/solo/volume/record status from track children
-func extractTrackMeta(from children: [AXUIElement]) -> [String: Any] {
-    var meta: [String: Any] = [
-        "muted": false,
-        "solo": false,
-        "recordEnabled": false,
-        "volume": 0
+/// Role, description, title, value and selection of an element and its subtree
+func dumpTree(_ element: AXUIElement, depth: Int, maxDepth: Int) -> [String: Any] {
+    var node: [String: Any] = [
+        "role": getRole(element) ?? "unknown",
+        "description": getDescription(element) ?? "",
+        "title": getTitle(element) ?? "",
+        "value": getValue(element) ?? ""
     ]
-    
-    for child in children {
-        let role = getRole(child) ?? ""
-        let desc = getDescription(child) ?? ""
-        let value = getValue(child) ?? ""
-        
-        if role == "AXCheckBox" {
-            if desc == "Mute" {
-                meta["muted"] = value == "1"
-            } else if desc == "Solo" {
-                meta["solo"] = value == "1"
-            } else if desc.contains("Aufnahme") || desc.contains("Record") {
-                meta["recordEnabled"] = value == "1"
-            }
-        } else if role == "AXSlider" && desc == "Volume" {
-            meta["volume"] = Int(value) ?? 0
-        }
+    if (getAttribute(element, kAXSelectedAttribute) as? Bool) == true {
+        node["selected"] = true
     }
-    
-    return meta
-}
-
-func findPluginNames(in elements: [AXUIElement]) -> [String] {
-    var plugins: [String] = []
-    for element in elements {
-        let role = getRole(element) ?? ""
-        let title = getTitle(element) ?? ""
-
-        if role == "AXButton" && !title.isEmpty && title != "M" && title != "S" && title != "R" {
-            plugins.append(title)
-        }
-
+    if depth + 1 < maxDepth {
         let children = getChildren(element)
         if !children.isEmpty {
-            plugins.append(contentsOf: findPluginNames(in: children))
+            node["children"] = children.map { dumpTree($0, depth: depth + 1, maxDepth: maxDepth) }
         }
     }
-    return plugins
+    return node
 }
 
-func getPluginParameters(trackIndex: Int, slotIndex: Int) {
-    guard let app = getLogicProApp() else {
-        print("[]")
-        return
-    }
-
-    guard let mainWindow = getAttribute(app, kAXMainWindowAttribute) as! AXUIElement? else {
-        print("[]")
-        return
-    }
+/// Parameters of the plugin windows that are open, whichever track they belong to.
+func getPluginParameters() throws -> [[String: String]] {
+    let app = try getLogicProApp()
 
     // Search for plugin windows or the controls view
     var params: [[String: String]] = []
@@ -319,15 +315,7 @@ func getPluginParameters(trackIndex: Int, slotIndex: Int) {
         findParameters(in: getChildren(window), params: &params, depth: 0, maxDepth: 8)
     }
 
-    let jsonData = try? JSONSerialization.data(
-        withJSONObject: params,
-        options: [.prettyPrinted, .sortedKeys]
-    )
-    if let data = jsonData, let str = String(data: data, encoding: .utf8) {
-        print(str)
-    } else {
-        print("[]")
-    }
+    return params
 }
 
 func findParameters(in elements: [AXUIElement], params: inout [[String: String]], depth: Int, maxDepth: Int) {
@@ -358,22 +346,17 @@ func findParameters(in elements: [AXUIElement], params: inout [[String: String]]
     }
 }
 
-func setPluginParameter(trackIndex: Int, slotIndex: Int, paramName: String, value: String) {
-    guard let app = getLogicProApp() else {
-        printError("Logic Pro not running")
-        return
-    }
-
+func setPluginParameter(paramName: String, value: String) throws -> String {
+    let app = try getLogicProApp()
     let windows = getChildren(app as AXUIElement)
 
     for window in windows {
         if findAndSetParameter(in: getChildren(window), paramName: paramName, value: value, depth: 0, maxDepth: 8) {
-            print("Parameter set successfully")
-            return
+            return "Parameter set successfully"
         }
     }
 
-    printError("Parameter '\(paramName)' not found. Ensure the plugin window is open in Controls view.")
+    throw HelperError("Parameter '\(paramName)' not found. Ensure the plugin window is open in Controls view.")
 }
 
 func findAndSetParameter(in elements: [AXUIElement], paramName: String, value: String, depth: Int, maxDepth: Int) -> Bool {
@@ -407,45 +390,20 @@ func findAndSetParameter(in elements: [AXUIElement], paramName: String, value: S
     return false
 }
 
-func queryElement(maxDepth: Int) {
-    guard let app = getLogicProApp() else {
-        print("{}")
-        return
-    }
-
-    guard let mainWindow = getAttribute(app, kAXMainWindowAttribute) as! AXUIElement? else {
-        print("{}")
-        return
-    }
+func queryElement(maxDepth: Int) throws -> [[String: String]] {
+    let mainWindow = try getMainWindow(try getLogicProApp())
 
     var result: [[String: String]] = []
     dumpElementInfo(mainWindow, into: &result, depth: 0, maxDepth: maxDepth)
-    outputJSON(result)
+    return result
 }
 
-func querySpuren(maxDepth: Int) {
-    guard let app = getLogicProApp() else {
-        print("{}")
-        return
-    }
-
-    guard let mainWindow = getAttribute(app, kAXMainWindowAttribute) as! AXUIElement? else {
-        print("{}")
-        return
-    }
-
-    // Find the Spuren group and dump only that subtree
-    if let spuren = findElementByDescription(in: mainWindow, description: "Spuren", maxDepth: 4) {
-        var result: [[String: String]] = []
-        dumpElementInfo(spuren, into: &result, depth: 0, maxDepth: maxDepth)
-        outputJSON(result)
-    } else if let tracks = findElementByDescription(in: mainWindow, description: "Tracks", maxDepth: 4) {
-        var result: [[String: String]] = []
-        dumpElementInfo(tracks, into: &result, depth: 0, maxDepth: maxDepth)
-        outputJSON(result)
-    } else {
-        print("[]")
-    }
+func querySpuren(maxDepth: Int) throws -> [[String: String]] {
+    // Find the tracks group and dump only that subtree
+    let spuren = try findTracksArea(in: try getLogicProApp())
+    var result: [[String: String]] = []
+    dumpElementInfo(spuren, into: &result, depth: 0, maxDepth: maxDepth)
+    return result
 }
 
 func dumpElementInfo(_ element: AXUIElement, into result: inout [[String: String]], depth: Int, maxDepth: Int) {
@@ -475,6 +433,15 @@ func printError(_ message: String) {
     FileHandle.standardError.write(Data("[logic-ax] \(message)\n".utf8))
 }
 
+/// Print a command-line result: strings as they are, everything else as JSON.
+func output(_ result: Any) {
+    if let text = result as? String {
+        print(text)
+    } else {
+        outputJSON(result)
+    }
+}
+
 func outputJSON(_ obj: Any) {
     let jsonData = try? JSONSerialization.data(
         withJSONObject: obj,
@@ -493,10 +460,11 @@ func printUsage() {
 
     Commands:
       check-access                             Check if accessibility access is granted
-      list-tracks                              List all tracks with plugins
-      get-params <trackIndex> <slotIndex>      Get plugin parameters
-      set-param <trackIndex> <slotIndex> <p> <v>  Set a plugin parameter
+      list-tracks [labels]                     Dump the track headers (labels: JSON, see src/ax/labels.ts)
+      get-params                               Get the parameters of the open plugin windows
+      set-param <p> <v>                        Set a parameter in an open plugin window
       query [depth]                            Debug: dump main window UI tree
-      query-spuren [depth]                     Debug: dump only the Spuren/Tracks area
+      query-spuren [depth] [labels]            Debug: dump only the Spuren/Tracks area
+      serve                                    Stay running, answering JSON-RPC requests on stdin
     """)
 }